@@ -34,8 +34,8 @@ if [ -z "$SUPABASE_ACCESS_TOKEN" ]; then
   MISSING+=("Supabase")
 fi
 
-if [ -z "$NETLIFY_AUTH_TOKEN" ]; then
-  MISSING+=("Netlify")
+if [ -z "$NETLIFY_AUTH_TOKEN" ] && [ -z "$VERCEL_TOKEN" ]; then
+  MISSING+=("Netlify or Vercel")
 fi
 
 if [ ${#MISSING[@]} -eq 0 ]; then
@@ -33,6 +33,10 @@ if [ -d "mcp-servers" ]; then
     cd mcp-servers
     npm install 2>&1 || echo "  Warning: mcp-servers npm install had issues"
     npm run build 2>&1 || echo "  Warning: mcp-servers build had issues"
+    npm link 2>&1 || echo "  Warning: could not put the shipme CLI on PATH"
+    if [ -f "../.shipme/project.json" ]; then
+      node dist/cli/index.js validate --config ../.shipme/project.json 2>&1 || echo "  Warning: fix .shipme/project.json before provisioning"
+    fi
   )
   echo "  Done."
 else
@@ -68,12 +72,18 @@ echo "[5/5] Configuring credentials..."
 # Always attempt provisioning token redemption (even if some env vars are set)
 # This delivers: Anthropic API key, Supabase token, Netlify token, GitHub token
 if [ -f ".shipme/project.json" ]; then
-  PROVISIONING_TOKEN=$(node -e "
+  # Read the token through the same validation as `shipme validate`, so a
+  # malformed project.json skips redemption and says why instead of going quiet
+  PROVISIONING_TOKEN=$(SHIPME_LOG_LEVEL=error node --input-type=module -e "
+    import { loadProjectConfig } from './mcp-servers/dist/cli/environment.js';
     try {
-      const c = JSON.parse(require('fs').readFileSync('.shipme/project.json', 'utf8'));
-      if (c.provisioningToken) process.stdout.write(c.provisioningToken);
-    } catch(e) {}
-  " 2>/dev/null)
+      const config = loadProjectConfig('.shipme/project.json');
+      if (config.provisioningToken) process.stdout.write(config.provisioningToken);
+    } catch (error) {
+      console.error(error.message);
+      process.exit(1);
+    }
+  ") || echo "  Warning: skipping provisioning token redemption, .shipme/project.json could not be read"
 
   if [ -n "$PROVISIONING_TOKEN" ]; then
     echo "  Redeeming provisioning token from ShipMe..."
@@ -135,6 +145,7 @@ fi
 [ -z "$ANTHROPIC_API_KEY" ] && echo "  Warning: ANTHROPIC_API_KEY not set. Claude Code won't auto-launch."
 [ -z "$SUPABASE_ACCESS_TOKEN" ] && echo "  Warning: SUPABASE_ACCESS_TOKEN not set. Supabase provisioning will be skipped."
 [ -z "$NETLIFY_AUTH_TOKEN" ] && echo "  Warning: NETLIFY_AUTH_TOKEN not set. Netlify provisioning will be skipped."
+[ -z "$VERCEL_TOKEN" ] && echo "  Warning: VERCEL_TOKEN not set. Vercel provisioning will be skipped."
 
 echo ""
 echo "======================================================"
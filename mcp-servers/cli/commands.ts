@@ -0,0 +1,148 @@
+import { executePlan, resolveStepReferences } from '../plan/engine.js'
+import { destroyPlan } from '../plan/destroy.js'
+import { detectDrift } from '../plan/drift.js'
+import { environmentStepId, planEnvironments, selectEnvironment } from '../plan/plan.js'
+import { ValidationError } from '../shared/errors.js'
+import { formatProjectConfigIssues } from '../shared/project-config.js'
+import { outputsResolvableIn, readProjectConfig } from './environment.js'
+import { formatDrift, formatProgress, formatRun, formatTeardown } from './format.js'
+import type { CommandContext, CommandOutcome, StepProgress } from './types.js'
+
+/**
+ * CLI commands. Each returns what to print and whether it succeeded; failures
+ * of individual steps are reported, not thrown.
+ */
+
+/**
+ * Check project.json against the schema, after migrating older versions
+ */
+export function validate(configPath: string): CommandOutcome {
+  const result = readProjectConfig(configPath)
+  if (!result.valid) {
+    return {
+      ok: false,
+      output: result,
+      text: `${configPath} is invalid:\n${formatProjectConfigIssues(result.errors)}`
+    }
+  }
+
+  const migrated = result.migratedFrom
+    ? ` (written for ${result.migratedFrom}, migrated to ${result.config.version}; update the file to silence this)`
+    : ''
+  return { ok: true, output: result, text: `${configPath} is valid${migrated}` }
+}
+
+/**
+ * The plan, or the part of it the selected environment needs
+ */
+function commandPlan(ctx: CommandContext) {
+  return ctx.environment ? selectEnvironment(ctx.plan, ctx.environment) : ctx.plan
+}
+
+/**
+ * Run every plan step that has not succeeded yet
+ */
+export async function provision(ctx: CommandContext): Promise<CommandOutcome> {
+  const plan = commandPlan(ctx)
+  const result = await executePlan(plan, ctx.runners, {
+    state: ctx.state,
+    reuseOutputs: outputsResolvableIn(ctx.vault)
+  })
+  return { ok: result.success, output: result, text: formatRun(plan, result) }
+}
+
+/**
+ * Which steps are provisioned, and whether the live resources still match.
+ * Succeeds only when everything is provisioned and nothing drifted.
+ */
+export async function status(ctx: CommandContext, options: { authProviders?: string[] } = {}): Promise<CommandOutcome> {
+  const plan = commandPlan(ctx)
+  const recorded = ctx.state.getSteps()
+  const steps: StepProgress[] = plan.steps.map(step => {
+    const record = recorded[step.id]
+    const url = ['deploy_url', 'url', 'repo_url']
+      .map(field => record?.outputs[field])
+      .find((value): value is string => typeof value === 'string' && value.startsWith('http'))
+    return {
+      id: step.id,
+      provider: step.provider,
+      tool: step.tool,
+      description: step.description,
+      ...(step.environment ? { environment: step.environment } : {}),
+      status: record ? 'done' : 'pending',
+      ...(record ? { completedAt: record.completedAt } : {}),
+      ...(url ? { url } : {})
+    }
+  })
+
+  const drift = await detectDrift(plan, ctx.state, ctx.runners, {
+    authProviders: options.authProviders,
+    resolveSecrets: value => ctx.vault.resolveDeep(value)
+  })
+
+  return {
+    ok: steps.every(step => step.status === 'done') && !drift.drifted && drift.unchecked.length === 0,
+    output: { project: plan.project, steps, drift },
+    text: `${formatProgress(plan.project, steps)}\n\n${formatDrift(drift)}`
+  }
+}
+
+/**
+ * Deploy the provisioned site again; Netlify and Vercel both build it from
+ * the linked repository
+ */
+export async function deploy(ctx: CommandContext): Promise<CommandOutcome> {
+  return rerun(ctx, ['deploy'])
+}
+
+/**
+ * Set the site's env vars from the recorded Supabase outputs again, e.g. after
+ * they were changed by hand; every environment's unless one is selected
+ */
+export async function envSync(ctx: CommandContext): Promise<CommandOutcome> {
+  const environments = ctx.environment ? [ctx.environment] : planEnvironments(ctx.plan)
+  return rerun(ctx, environments.map(environment => environmentStepId('hosting_env_vars', environment)))
+}
+
+/**
+ * Remove the provisioned resources, dependents first; only the selected
+ * environment's when there is one
+ */
+export async function destroy(ctx: CommandContext, options: { dryRun?: boolean } = {}): Promise<CommandOutcome> {
+  const result = await destroyPlan(ctx.plan, ctx.state, ctx.runners, {
+    dryRun: options.dryRun,
+    environment: ctx.environment
+  })
+  return { ok: result.success, output: result, text: formatTeardown(result, options.dryRun ?? false) }
+}
+
+/**
+ * Run plan steps again, even if they succeeded before, with the outputs
+ * recorded for the steps they depend on
+ */
+async function rerun(ctx: CommandContext, stepIds: string[]): Promise<CommandOutcome> {
+  const targets = ctx.plan.steps.filter(step => stepIds.includes(step.id))
+  if (targets.length === 0) {
+    throw new ValidationError(`The plan has no ${stepIds.join(' or ')} step`)
+  }
+
+  const recorded = ctx.state.getSteps()
+  const outputs = new Map(Object.entries(recorded).map(([id, record]) => [id, record.outputs]))
+  const steps = targets.map(step => {
+    const missing = step.dependsOn.filter(id => !recorded[id])
+    if (missing.length > 0) {
+      throw new ValidationError(`${step.id} needs ${missing.join(', ')}, not provisioned yet. Run shipme provision first`)
+    }
+    return { ...step, dependsOn: [], args: resolveStepReferences(step.args, outputs) }
+  })
+
+  const plan = { project: ctx.plan.project, steps }
+  const result = await executePlan(plan, ctx.runners)
+  for (const step of result.steps) {
+    if (step.status === 'succeeded') {
+      const planStep = steps.find(candidate => candidate.id === step.id)!
+      ctx.state.record(planStep, planStep.args, step.outputs || {})
+    }
+  }
+  return { ok: result.success, output: result, text: formatRun(plan, result) }
+}
@@ -0,0 +1,138 @@
+import fs from 'fs'
+import path from 'path'
+import { buildPlan } from '../plan/plan.js'
+import { DEFAULT_STATE_FILE, ProvisioningState } from '../plan/state.js'
+import type { Migration, Plan, PlanStep, ProjectConfig, ToolRunners } from '../plan/types.js'
+import { SupabaseMCPServer } from '../supabase/server.js'
+import { NetlifyMCPServer } from '../netlify/server.js'
+import { VercelMCPServer } from '../vercel/server.js'
+import { GitHubMCPServer } from '../github/server.js'
+import { ValidationError } from '../shared/errors.js'
+import { createLogger } from '../shared/logger.js'
+import {
+  type ProjectConfigResult,
+  formatProjectConfigIssues,
+  parseProjectConfig
+} from '../shared/project-config.js'
+import { SECRET_REFERENCE_PATTERN, SecretVault } from '../shared/secret-vault.js'
+
+/**
+ * CLI setup from the environment
+ *
+ * Reads .shipme/project.json and the same variables the MCP servers use
+ * (SUPABASE_ACCESS_TOKEN, NETLIFY_AUTH_TOKEN, VERCEL_TOKEN, GITHUB_TOKEN, ...). Servers
+ * whose token is not set are left out, and their steps are skipped.
+ */
+
+export const DEFAULT_CONFIG_FILE = '.shipme/project.json'
+
+const logger = createLogger('cli')
+
+/**
+ * Read, migrate and validate project.json. Throws only when the file is
+ * missing or not JSON.
+ */
+export function readProjectConfig(configPath: string): ProjectConfigResult {
+  if (!fs.existsSync(configPath)) {
+    throw new ValidationError(`${configPath} not found`)
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf8'))
+  } catch (error) {
+    throw new ValidationError(`${configPath} is not valid JSON: ${(error as Error).message}`)
+  }
+  return parseProjectConfig(raw)
+}
+
+/**
+ * Valid project.json; all schema problems are reported in one ValidationError
+ */
+export function loadProjectConfig(configPath: string): ProjectConfig {
+  const result = readProjectConfig(configPath)
+  if (!result.valid) {
+    throw new ValidationError(`${configPath} is invalid:\n${formatProjectConfigIssues(result.errors)}`)
+  }
+  if (result.migratedFrom) {
+    logger.info('Migrated project configuration', { from: result.migratedFrom, to: result.config.version })
+  }
+  return result.config
+}
+
+/**
+ * SQL files of a directory, in name order
+ */
+export function loadMigrations(dir: string): Migration[] {
+  if (!fs.existsSync(dir)) return []
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .map(file => ({
+      name: path.basename(file, '.sql'),
+      sql: fs.readFileSync(path.join(dir, file), 'utf8')
+    }))
+}
+
+/**
+ * Build the plan with SUPABASE_REGION, SHIPME_MIGRATIONS_DIR (defaults to
+ * supabase/migrations) and GITHUB_REPOSITORY
+ */
+export function buildPlanFromEnv(config: ProjectConfig): Plan {
+  return buildPlan(config, {
+    region: process.env.SUPABASE_REGION,
+    migrations: loadMigrations(process.env.SHIPME_MIGRATIONS_DIR || 'supabase/migrations'),
+    repository: process.env.GITHUB_REPOSITORY
+  })
+}
+
+/**
+ * In-process servers sharing one vault, so credentials pass between them as
+ * {{secrets.*}} references
+ */
+export function createRunnersFromEnv(vault: SecretVault): ToolRunners {
+  const runners: ToolRunners = {}
+
+  if (process.env.SUPABASE_ACCESS_TOKEN) {
+    runners.supabase = new SupabaseMCPServer({
+      accessToken: process.env.SUPABASE_ACCESS_TOKEN,
+      organizationId: process.env.SUPABASE_ORG_ID,
+      apiUrl: process.env.SUPABASE_API_URL,
+      vault,
+      secretOutput: 'reference'
+    })
+  }
+  const netlifyToken = process.env.NETLIFY_AUTH_TOKEN || process.env.NETLIFY_ACCESS_TOKEN
+  if (netlifyToken) {
+    runners.netlify = new NetlifyMCPServer({ accessToken: netlifyToken, apiUrl: process.env.NETLIFY_API_URL, vault })
+  }
+  if (process.env.VERCEL_TOKEN) {
+    runners.vercel = new VercelMCPServer({
+      accessToken: process.env.VERCEL_TOKEN,
+      teamId: process.env.VERCEL_TEAM_ID,
+      apiUrl: process.env.VERCEL_API_URL,
+      vault
+    })
+  }
+  if (process.env.GITHUB_TOKEN) {
+    runners.github = new GitHubMCPServer({ token: process.env.GITHUB_TOKEN, apiUrl: process.env.GITHUB_API_URL, vault })
+  }
+  return runners
+}
+
+/**
+ * Provisioning state from SHIPME_STATE_FILE (defaults to .shipme/state.json)
+ */
+export function loadStateFromEnv(project: string, fresh = false): ProvisioningState {
+  const statePath = process.env.SHIPME_STATE_FILE || DEFAULT_STATE_FILE
+  return fresh ? ProvisioningState.empty(statePath, project) : ProvisioningState.load(statePath, project)
+}
+
+/**
+ * Recorded {{secrets.*}} references are useless once the vault holding them is
+ * gone, so outputs are only reused while the vault still has every one
+ */
+export function outputsResolvableIn(vault: SecretVault) {
+  return (_step: PlanStep, outputs: Record<string, unknown>): boolean =>
+    Array.from(JSON.stringify(outputs).matchAll(SECRET_REFERENCE_PATTERN)).every(match => vault.has(match[1]))
+}
@@ -0,0 +1,125 @@
+import type { DestroyResult, DriftReport, Plan, PlanRunResult, StepResult } from '../plan/types.js'
+import type { StepProgress } from './types.js'
+
+/**
+ * Human-readable output. --json prints the command results as they are.
+ */
+
+const MARKS: Record<string, string> = {
+  succeeded: '✓',
+  done: '✓',
+  removed: '✓',
+  failed: '✗',
+  skipped: '-',
+  pending: '-',
+  nothing_to_remove: '·',
+  planned: '?'
+}
+
+function width(ids: string[]): number {
+  return Math.max(0, ...ids.map(id => id.length))
+}
+
+function seconds(durationMs: number): string {
+  return `${(durationMs / 1000).toFixed(1)}s`
+}
+
+function stepDetail(step: StepResult, description: string): string {
+  switch (step.status) {
+    case 'succeeded':
+      return step.reused ? `${description} (done in an earlier run)` : `${description} (${seconds(step.durationMs)})`
+    case 'failed':
+      return `${description}: ${step.error?.kind}: ${step.error?.message}`
+    case 'skipped':
+      return `${description}: skipped, ${step.reason}`
+  }
+}
+
+export function formatPlan(plan: Plan): string {
+  const pad = width(plan.steps.map(step => step.id))
+  const toolPad = width(plan.steps.map(step => `${step.provider}.${step.tool}`))
+  const lines = [`Plan for ${plan.project}:`]
+  for (const step of plan.steps) {
+    const after = step.dependsOn.length > 0 ? ` (after ${step.dependsOn.join(', ')})` : ''
+    const tool = `${step.provider}.${step.tool}`.padEnd(toolPad)
+    lines.push(`  ${step.id.padEnd(pad)}  ${tool}  ${step.description}${after}`)
+  }
+  return lines.join('\n')
+}
+
+export function formatRun(plan: Plan, result: PlanRunResult): string {
+  const descriptions = new Map(plan.steps.map(step => [step.id, step.description]))
+  const pad = width(result.steps.map(step => step.id))
+  const lines = result.steps.map(step =>
+    `${MARKS[step.status]} ${step.id.padEnd(pad)}  ${stepDetail(step, descriptions.get(step.id) || step.tool)}`
+  )
+
+  const succeeded = result.steps.filter(step => step.status === 'succeeded').length
+  lines.push('', `${succeeded} of ${result.steps.length} steps succeeded`)
+  return lines.join('\n')
+}
+
+export function formatTeardown(result: DestroyResult, dryRun: boolean): string {
+  const pad = width(result.steps.map(step => step.id))
+  const lines = result.steps.map(step => {
+    const call = step.tool ? ` (${step.provider}.${step.tool})` : ''
+    const detail = step.status === 'failed'
+      ? `failed: ${step.error?.kind}: ${step.error?.message}`
+      : step.status === 'skipped'
+        ? `skipped, ${step.reason}`
+        : step.status.replace(/_/g, ' ')
+    return `${MARKS[step.status]} ${step.id.padEnd(pad)}  ${detail}${call}`
+  })
+
+  lines.push('')
+  if (dryRun) {
+    lines.push('Dry run: nothing was deleted')
+  } else if (result.remaining.length > 0) {
+    lines.push(`Still recorded (may still exist): ${result.remaining.join(', ')}`)
+  } else {
+    lines.push('Everything recorded was removed')
+  }
+  return lines.join('\n')
+}
+
+export function formatProgress(project: string, steps: StepProgress[]): string {
+  const pad = width(steps.map(step => step.id))
+  const done = steps.filter(step => step.status === 'done').length
+  const lines = [`${project}: ${done} of ${steps.length} steps provisioned`]
+  const line = (step: StepProgress): string => {
+    const url = step.url ? `  ${step.url}` : ''
+    return `  ${MARKS[step.status]} ${step.id.padEnd(pad)}  ${step.description}${url}`
+  }
+
+  // Grouped by environment once there is more than one, shared resources first
+  const environments = Array.from(new Set(steps.flatMap(step => (step.environment ? [step.environment] : []))))
+  if (environments.length <= 1) {
+    lines.push(...steps.map(line))
+    return lines.join('\n')
+  }
+  for (const environment of [undefined, ...environments]) {
+    const group = steps.filter(step => step.environment === environment)
+    if (group.length === 0) continue
+    lines.push(`${environment ?? 'shared'}:`, ...group.map(line))
+  }
+  return lines.join('\n')
+}
+
+export function formatDrift(report: DriftReport): string {
+  const lines: string[] = []
+  if (report.items.length === 0) {
+    lines.push('No drift detected')
+  }
+  for (const item of report.items) {
+    lines.push(`✗ ${item.resource}${item.environment ? ` [${item.environment}]` : ''}: ${item.kind}`)
+    if (item.expected !== undefined || item.actual !== undefined) {
+      const found = item.actual === undefined ? 'nothing' : JSON.stringify(item.actual)
+      lines.push(`    expected ${JSON.stringify(item.expected)}, found ${found}`)
+    }
+    lines.push(`    fix: ${item.remediation}`)
+  }
+  for (const entry of report.unchecked) {
+    lines.push(`? ${entry.resource}: not checked, ${entry.reason}`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util'
+import { deploy, destroy, envSync, provision, status, validate } from './commands.js'
+import {
+  DEFAULT_CONFIG_FILE,
+  buildPlanFromEnv,
+  createRunnersFromEnv,
+  loadProjectConfig,
+  loadStateFromEnv
+} from './environment.js'
+import { formatPlan } from './format.js'
+import { planEnvironments, selectEnvironment } from '../plan/plan.js'
+import type { CommandContext, CommandOutcome } from './types.js'
+import { ValidationError, toProviderError } from '../shared/errors.js'
+import { openVaultFromEnv } from '../shared/secret-vault.js'
+
+/**
+ * ShipMe CLI - entry point
+ *
+ * Runs the provisioning plan built from .shipme/project.json against the
+ * Supabase, Netlify or Vercel, and GitHub servers in-process, without an MCP client.
+ *
+ * Exit codes: 0 success, 1 a step failed or (status) the environment is
+ * incomplete or drifted, 2 usage or configuration error.
+ */
+
+const USAGE = `Usage: shipme <command> [options]
+
+Commands:
+  provision [--fresh] [--plan]   Create everything in project.json; re-runs continue where the last stopped
+  status                         Show what is provisioned and whether it still matches the live resources
+  deploy                         Deploy the provisioned site again from its repository's production branch
+  env sync                       Set the site's env vars from the Supabase credentials again
+  destroy --yes | --dry-run      Delete the provisioned resources, dependents first
+  validate                       Check project.json against the schema
+
+Options:
+  --env <name>      Limit provision, status, env sync or destroy to one environment in project.json
+  --config <file>   Project configuration (default ${DEFAULT_CONFIG_FILE})
+  --json            Print machine-readable JSON
+  --verbose         Log progress to stderr
+  --help            Show this help
+
+Tokens are read from SUPABASE_ACCESS_TOKEN, NETLIFY_AUTH_TOKEN, VERCEL_TOKEN and
+GITHUB_TOKEN; steps of providers without a token are skipped.`
+
+const EXIT_FAILED = 1
+const EXIT_USAGE = 2
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', default: DEFAULT_CONFIG_FILE },
+        json: { type: 'boolean', default: false },
+        verbose: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+        fresh: { type: 'boolean', default: false },
+        plan: { type: 'boolean', default: false },
+        env: { type: 'string' },
+        yes: { type: 'boolean', default: false },
+        'dry-run': { type: 'boolean', default: false }
+      }
+    })
+  } catch (error) {
+    throw new ValidationError((error as Error).message)
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseCommandLine()
+  const command = positionals.join(' ')
+
+  // Structured logs go to stderr; keep them to warnings unless asked
+  process.env.SHIPME_LOG_LEVEL ??= values.verbose ? 'info' : 'warn'
+
+  if (values.help || command === '') {
+    process.stdout.write(USAGE + '\n')
+    return values.help ? 0 : EXIT_USAGE
+  }
+  if (!['provision', 'status', 'deploy', 'env sync', 'destroy', 'validate'].includes(command)) {
+    throw new ValidationError(`Unknown command '${command}'. Run shipme --help`)
+  }
+  if (values.env !== undefined && ['deploy', 'validate'].includes(command)) {
+    throw new ValidationError(command === 'deploy'
+      ? '--env does not apply to deploy: it redeploys production, the other environments deploy from their branches'
+      : '--env does not apply to validate')
+  }
+  if (command === 'destroy' && !values.yes && !values['dry-run']) {
+    throw new ValidationError('destroy deletes the provisioned resources: pass --yes to confirm, or --dry-run to preview')
+  }
+
+  if (command === 'validate') {
+    const outcome = validate(values.config!)
+    print(outcome, values.json!)
+    return outcome.ok ? 0 : EXIT_USAGE
+  }
+
+  const config = loadProjectConfig(values.config!)
+  const plan = buildPlanFromEnv(config)
+  if (values.env !== undefined && !planEnvironments(plan).includes(values.env)) {
+    throw new ValidationError(`No environment named "${values.env}" (project.json has ${planEnvironments(plan).join(', ')})`)
+  }
+
+  if (command === 'provision' && values.plan) {
+    const shown = values.env ? selectEnvironment(plan, values.env) : plan
+    print({ ok: true, output: shown, text: formatPlan(shown) }, values.json!)
+    return 0
+  }
+
+  const vault = await openVaultFromEnv('cli')
+  const ctx: CommandContext = {
+    plan,
+    state: loadStateFromEnv(plan.project, command === 'provision' && values.fresh),
+    runners: createRunnersFromEnv(vault),
+    vault,
+    environment: values.env
+  }
+
+  let outcome: CommandOutcome
+  switch (command) {
+    case 'provision':
+      outcome = await provision(ctx)
+      break
+    case 'status':
+      outcome = await status(ctx, {
+        authProviders: process.env.SHIPME_AUTH_PROVIDERS?.split(',').map(name => name.trim()).filter(Boolean)
+      })
+      break
+    case 'deploy':
+      outcome = await deploy(ctx)
+      break
+    case 'env sync':
+      outcome = await envSync(ctx)
+      break
+    default:
+      outcome = await destroy(ctx, { dryRun: values['dry-run'] })
+  }
+
+  print(outcome, values.json!)
+  return outcome.ok ? 0 : EXIT_FAILED
+}
+
+function print(outcome: CommandOutcome, json: boolean): void {
+  process.stdout.write((json ? JSON.stringify(outcome.output, null, 2) : outcome.text) + '\n')
+}
+
+try {
+  process.exit(await main())
+} catch (err) {
+  const error = toProviderError(err, 'shipme')
+  if (process.argv.includes('--json')) {
+    process.stdout.write(JSON.stringify({ success: false, error: { kind: error.kind, message: error.message } }, null, 2) + '\n')
+  } else {
+    process.stderr.write(`shipme: ${error.message}\n`)
+  }
+  process.exit(err instanceof ValidationError ? EXIT_USAGE : EXIT_FAILED)
+}
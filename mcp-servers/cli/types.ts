@@ -0,0 +1,41 @@
+/**
+ * ShipMe CLI - Type Definitions
+ */
+
+import type { Plan, ToolRunners } from '../plan/types.js'
+import type { ProvisioningState } from '../plan/state.js'
+import type { SecretVault } from '../shared/secret-vault.js'
+
+/**
+ * Everything a command runs against, set up from the environment
+ */
+export interface CommandContext {
+  plan: Plan
+  state: ProvisioningState
+  runners: ToolRunners
+  vault: SecretVault
+  /** Environment the command is limited to (--env); all of them when unset */
+  environment?: string
+}
+
+/**
+ * What a command produced: `output` is printed with --json, `text` otherwise
+ */
+export interface CommandOutcome {
+  ok: boolean
+  output: unknown
+  text: string
+}
+
+export interface StepProgress {
+  id: string
+  provider: string
+  tool: string
+  description: string
+  /** Environment the step provisions for; unset for shared resources */
+  environment?: string
+  status: 'done' | 'pending'
+  completedAt?: string
+  /** URL of what the step created, if any */
+  url?: string
+}
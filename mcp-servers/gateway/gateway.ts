@@ -0,0 +1,201 @@
+import { ValidationError, toolErrorResult } from '../shared/errors.js'
+import { createLogger, withLogContext } from '../shared/logger.js'
+import { serve, transportFromEnv } from '../shared/mcp-server.js'
+import type { ServerInfo, ToolHost, TransportOptions } from '../shared/mcp-server.js'
+import { ToolRegistry, defineTool } from '../shared/tool-registry.js'
+import type { ToolListing, ToolResult } from '../shared/tool-registry.js'
+import type { Infer } from '../shared/schema.js'
+import { SecretVault } from '../shared/secret-vault.js'
+import type { ResourceHost } from '../shared/resources.js'
+import type { PromptHost } from '../shared/prompts.js'
+import { detectDrift } from '../plan/drift.js'
+import { planEnvironments, selectEnvironment } from '../plan/plan.js'
+import { DEFAULT_CONFIG_FILE, buildPlanFromEnv, loadProjectConfig, loadStateFromEnv } from '../cli/environment.js'
+import { formatDrift } from '../cli/format.js'
+import { detectDriftInput } from './schemas.js'
+
+/**
+ * ShipMe MCP Gateway
+ *
+ * One MCP server hosting the tools of several provider servers under names
+ * prefixed with the provider (supabase_create_project, github_push_files).
+ * The servers run in one process with one vault, so a {{secrets.*}} reference
+ * returned by one tool resolves in another, and every client shares the
+ * per-provider rate limiters and circuit breakers. Resource URIs already
+ * start with the provider (supabase://, netlify://, github://); prompts are
+ * prefixed like tools.
+ *
+ * Tools spanning providers keep their plain names (detect_drift).
+ */
+
+export type GatewayProvider = 'supabase' | 'netlify' | 'vercel' | 'github' | 'stripe'
+
+export type GatewayHosts = Partial<Record<GatewayProvider, ToolHost>>
+
+export type DetectDriftParams = Infer<typeof detectDriftInput>
+
+const SERVER_INFO: ServerInfo = { name: 'shipme-gateway', version: '1.0.0' }
+
+const logger = createLogger('gateway')
+
+export class ShipMeGateway implements ToolHost {
+  readonly resources?: ResourceHost
+  readonly prompts?: PromptHost
+
+  private tools: ToolRegistry
+
+  /**
+   * vault is the one the hosts share; detect_drift resolves the recorded
+   * {{secrets.*}} references from it. configPath is the project.json
+   * detect_drift checks, fixed here rather than a tool argument so a client
+   * cannot point the gateway at other files.
+   */
+  constructor(
+    private hosts: GatewayHosts,
+    private vault: SecretVault = new SecretVault(),
+    private configPath: string = DEFAULT_CONFIG_FILE
+  ) {
+    this.tools = this.defineTools()
+    this.resources = this.combineResources()
+    this.prompts = this.combinePrompts()
+  }
+
+  providers(): GatewayProvider[] {
+    return Object.keys(this.hosts) as GatewayProvider[]
+  }
+
+  /**
+   * Gateway tools, which need more than one provider
+   */
+  private defineTools(): ToolRegistry {
+    return new ToolRegistry([
+      defineTool({
+        name: 'detect_drift',
+        description: 'Compare the resources recorded in .shipme/state.json with what Supabase, the hosting provider and GitHub report now (read-only; each difference comes with a suggested fix)',
+        input: detectDriftInput,
+        handler: args => this.detectDrift(args)
+      })
+    ])
+  }
+
+  listTools(): ToolListing[] {
+    return [
+      ...this.tools.list(),
+      ...this.providers().flatMap(provider =>
+        this.hosts[provider]!.listTools().map(tool => ({ ...tool, name: `${provider}_${tool.name}` }))
+      )
+    ]
+  }
+
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolResult> {
+    if (this.tools.has(name)) {
+      return withLogContext({ server: 'gateway', tool: name }, async () => {
+        try {
+          return await this.tools.call(name, args, false)
+        } catch (error: unknown) {
+          return toolErrorResult(error)
+        }
+      })
+    }
+
+    const provider = this.providers().find(candidate => name.startsWith(`${candidate}_`))
+    if (!provider) {
+      return toolErrorResult(new ValidationError(
+        `Unknown tool: ${name}. Gateway tools are named <provider>_<tool> (providers: ${this.providers().join(', ')}), besides ${this.tools.list().map(tool => tool.name).join(', ')}`
+      ))
+    }
+    return this.hosts[provider]!.callTool(name.slice(provider.length + 1), args)
+  }
+
+  /**
+   * The drift report of `shipme status`, for the plan project.json describes
+   */
+  private async detectDrift(params: DetectDriftParams) {
+    const { environment } = params
+    const plan = buildPlanFromEnv(loadProjectConfig(this.configPath))
+    if (environment !== undefined && !planEnvironments(plan).includes(environment)) {
+      throw new ValidationError(`No environment named "${environment}" (project.json has ${planEnvironments(plan).join(', ')})`)
+    }
+
+    const { supabase, netlify, vercel, github } = this.hosts
+    const report = await detectDrift(
+      environment ? selectEnvironment(plan, environment) : plan,
+      loadStateFromEnv(plan.project),
+      { supabase, netlify, vercel, github },
+      {
+        authProviders: params.auth_providers ??
+          process.env.SHIPME_AUTH_PROVIDERS?.split(',').map(name => name.trim()).filter(Boolean),
+        resolveSecrets: value => this.vault.resolveDeep(value)
+      }
+    )
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ success: true, ...report, summary: formatDrift(report) }, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Resources of every provider that has them, read by URI scheme
+   */
+  private combineResources(): ResourceHost | undefined {
+    const hosts = this.providers().flatMap(provider => {
+      const resources = this.hosts[provider]!.resources
+      return resources ? [{ provider, resources }] : []
+    })
+    if (hosts.length === 0) return undefined
+
+    return {
+      listTemplates: () => hosts.flatMap(({ resources }) => resources.listTemplates()),
+      list: async () => (await Promise.all(hosts.map(({ resources }) => resources.list()))).flat(),
+      read: async (uri) => {
+        const host = hosts.find(({ provider }) => uri.startsWith(`${provider}://`))
+        if (!host) {
+          throw new ValidationError(
+            `Unknown resource: ${uri} (resources are served for ${hosts.map(({ provider }) => `${provider}://`).join(', ')})`
+          )
+        }
+        return host.resources.read(uri)
+      },
+      onChange: (listener) => {
+        const stops = hosts.map(({ resources }) => resources.onChange(listener))
+        return () => stops.forEach(stop => stop())
+      }
+    }
+  }
+
+  /**
+   * Prompts of every provider that has them, named <provider>_<prompt>; the
+   * tools they mention are named the same way
+   */
+  private combinePrompts(): PromptHost | undefined {
+    const hosts = this.providers().flatMap(provider => {
+      const prompts = this.hosts[provider]!.prompts
+      return prompts ? [{ provider, prompts }] : []
+    })
+    if (hosts.length === 0) return undefined
+
+    return {
+      list: () => hosts.flatMap(({ provider, prompts }) =>
+        prompts.list().map(prompt => ({ ...prompt, name: `${provider}_${prompt.name}` }))
+      ),
+      get: (name, args) => {
+        const host = hosts.find(({ provider }) => name.startsWith(`${provider}_`))
+        if (!host) throw new ValidationError(`Unknown prompt: ${name}. Gateway prompts are named <provider>_<prompt>`)
+        return host.prompts.get(name.slice(host.provider.length + 1), args, tool => `${host.provider}_${tool}`)
+      }
+    }
+  }
+
+  /**
+   * Serve the tools over the transport SHIPME_TRANSPORT selects (stdio by default)
+   */
+  async run(transport: TransportOptions = transportFromEnv()) {
+    const where = await serve(this, SERVER_INFO, transport)
+    logger.info(`ShipMe MCP Gateway running on ${where}`, { providers: this.providers() })
+  }
+}
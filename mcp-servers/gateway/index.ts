@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+import { ShipMeGateway } from './gateway.js'
+import type { GatewayHosts } from './gateway.js'
+import { SupabaseMCPServer } from '../supabase/server.js'
+import { NetlifyMCPServer } from '../netlify/server.js'
+import { VercelMCPServer } from '../vercel/server.js'
+import { GitHubMCPServer } from '../github/server.js'
+import { StripeMCPServer } from '../stripe/server.js'
+import { cassetteFetchFromEnv } from '../shared/cassette.js'
+import { createLogger } from '../shared/logger.js'
+import { openVaultFromEnv } from '../shared/secret-vault.js'
+import { secretOutputModeFromEnv } from '../shared/secret-output.js'
+import { dryRunFromEnv } from '../shared/dry-run.js'
+
+/**
+ * ShipMe MCP Gateway - entry point
+ *
+ * Hosts every provider whose token is set, read from the same variables as
+ * the single servers. Usually served over HTTP (SHIPME_TRANSPORT=http).
+ */
+
+const logger = createLogger('gateway')
+
+const vault = await openVaultFromEnv('gateway') // One vault for every provider
+const secretOutput = secretOutputModeFromEnv()
+const dryRun = dryRunFromEnv()
+
+const hosts: GatewayHosts = {}
+
+if (process.env.SUPABASE_ACCESS_TOKEN) {
+  hosts.supabase = new SupabaseMCPServer({
+    accessToken: process.env.SUPABASE_ACCESS_TOKEN,
+    organizationId: process.env.SUPABASE_ORG_ID,
+    apiUrl: process.env.SUPABASE_API_URL,
+    fetch: cassetteFetchFromEnv('supabase'),
+    vault,
+    secretOutput,
+    dryRun,
+    // Replayed responses are instant, so don't wait between readiness polls
+    pollIntervalMs: process.env.SHIPME_CASSETTE_MODE === 'replay' ? 0 : undefined
+  })
+}
+
+const netlifyToken = process.env.NETLIFY_AUTH_TOKEN || process.env.NETLIFY_ACCESS_TOKEN
+if (netlifyToken) {
+  hosts.netlify = new NetlifyMCPServer({
+    accessToken: netlifyToken,
+    apiUrl: process.env.NETLIFY_API_URL,
+    fetch: cassetteFetchFromEnv('netlify'),
+    vault,
+    dryRun
+  })
+}
+
+if (process.env.VERCEL_TOKEN) {
+  hosts.vercel = new VercelMCPServer({
+    accessToken: process.env.VERCEL_TOKEN,
+    teamId: process.env.VERCEL_TEAM_ID,
+    apiUrl: process.env.VERCEL_API_URL,
+    fetch: cassetteFetchFromEnv('vercel'),
+    vault,
+    dryRun
+  })
+}
+
+if (process.env.GITHUB_TOKEN) {
+  hosts.github = new GitHubMCPServer({
+    token: process.env.GITHUB_TOKEN,
+    apiUrl: process.env.GITHUB_API_URL,
+    fetch: cassetteFetchFromEnv('github'),
+    vault,
+    dryRun
+  })
+}
+
+if (process.env.STRIPE_SECRET_KEY || process.env.STRIPE_LIVE_SECRET_KEY) {
+  hosts.stripe = new StripeMCPServer({
+    testSecretKey: process.env.STRIPE_SECRET_KEY,
+    testPublishableKey: process.env.STRIPE_PUBLISHABLE_KEY,
+    liveSecretKey: process.env.STRIPE_LIVE_SECRET_KEY,
+    livePublishableKey: process.env.STRIPE_LIVE_PUBLISHABLE_KEY,
+    apiUrl: process.env.STRIPE_API_URL,
+    fetch: cassetteFetchFromEnv('stripe'),
+    vault,
+    secretOutput,
+    dryRun
+  })
+}
+
+if (Object.keys(hosts).length === 0) {
+  logger.error('No provider token is set', {
+    help: 'Set at least one of SUPABASE_ACCESS_TOKEN, NETLIFY_AUTH_TOKEN, VERCEL_TOKEN, GITHUB_TOKEN or STRIPE_SECRET_KEY'
+  })
+  process.exit(1)
+}
+
+const gateway = new ShipMeGateway(hosts, vault)
+gateway.run().catch((error) => {
+  logger.error('Fatal error', { error })
+  process.exit(1)
+})
@@ -0,0 +1,12 @@
+/**
+ * ShipMe MCP Gateway - Tool Input Schemas
+ */
+
+import { array, object, optional, string } from '../shared/schema.js'
+
+export const detectDriftInput = object({
+  environment: optional(string({ description: 'Only check this environment of project.json (defaults to every environment)' })),
+  auth_providers: optional(array(string({ minLength: 1 }), {
+    description: 'Auth providers that must stay enabled besides those the plan configures (defaults to SHIPME_AUTH_PROVIDERS)'
+  }))
+})
@@ -0,0 +1,75 @@
+/**
+ * Input schemas for GitHub MCP Server tools
+ */
+
+import { array, boolean, object, optional, string } from '../shared/schema.js'
+import { dryRunArgument } from '../shared/dry-run.js'
+
+const owner = string({ description: 'Repository owner username', minLength: 1 })
+const repo = string({ description: 'Repository name', minLength: 1 })
+
+export const createRepositoryInput = object({
+  name: string({ description: 'Repository name', minLength: 1 }),
+  description: string({ description: 'Repository description' }),
+  private: optional(boolean({ description: 'Whether the repository should be private', default: false })),
+  template_owner: optional(string({ description: 'Template repository owner (optional)' })),
+  template_repo: optional(string({ description: 'Template repository name (optional)' })),
+  ensure: optional(boolean({
+    description: 'Adopt an existing repository with the same name instead of failing',
+    default: false
+  })),
+  dry_run: dryRunArgument
+})
+
+export const createSecretInput = object({
+  owner,
+  repo,
+  secret_name: string({ description: 'Name of the secret (e.g., SUPABASE_URL)', minLength: 1 }),
+  secret_value: string({ description: 'Value of the secret' }),
+  dry_run: dryRunArgument
+})
+
+export const pushFilesInput = object({
+  owner,
+  repo,
+  files: array(object({
+    path: string({ description: 'File path in repository', minLength: 1 }),
+    content: string({ description: 'File content' })
+  }), { description: 'Array of files to push', minItems: 1 }),
+  message: optional(string({ description: 'Commit message', default: '🚀 Update from ShipMe' })),
+  branch: optional(string({
+    description: 'Branch to commit to; created from the default branch if it does not exist',
+    default: 'main'
+  })),
+  dry_run: dryRunArgument
+})
+
+export const createBranchInput = object({
+  owner,
+  repo,
+  branch: string({ description: 'Name of the branch to create', minLength: 1 }),
+  from: optional(string({ description: 'Branch to start from (defaults to the repository\'s default branch)' })),
+  dry_run: dryRunArgument
+})
+
+export const listSecretsInput = object({
+  owner,
+  repo
+})
+
+export const deleteSecretInput = object({
+  owner,
+  repo,
+  secret_name: string({ description: 'Name of the secret to remove', minLength: 1 }),
+  confirm: string({ description: 'Must repeat secret_name to confirm the removal' }),
+  dry_run: dryRunArgument
+})
+
+export const deleteRepositoryInput = object({
+  owner,
+  repo,
+  confirm: string({ description: 'Must be "owner/repo" to confirm the deletion' }),
+  dry_run: dryRunArgument
+})
+
+export const getProviderStatusInput = object({})
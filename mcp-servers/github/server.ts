@@ -0,0 +1,702 @@
+import { Octokit } from '@octokit/rest'
+import { createRequire } from 'module'
+import type * as Sodium from 'libsodium-wrappers'
+import type {
+  GitHubMCPConfig,
+  CreateRepositoryInput,
+  CreateRepositoryResult,
+  CreateSecretInput,
+  CreateSecretResult,
+  PushFilesInput,
+  PushFilesResult,
+  CreateBranchInput,
+  CreateBranchResult,
+  ListSecretsInput,
+  ListSecretsResult,
+  DeleteSecretInput,
+  DeleteSecretResult,
+  DeleteRepositoryInput,
+  DeleteRepositoryResult
+} from './types.js'
+import { getRetryAfterMs } from '../shared/retry.js'
+import { getRateLimiter } from '../shared/rate-limiter.js'
+import { getCircuitBreaker, getProviderStatus } from '../shared/circuit-breaker.js'
+import { createLogger, createLoggedFetch, withLogContext } from '../shared/logger.js'
+import { SecretVault } from '../shared/secret-vault.js'
+import { ConflictError, ValidationError, toProviderError, toolErrorResult } from '../shared/errors.js'
+import { DryRunPreview, isDryRun } from '../shared/dry-run.js'
+import { requireConfirmation } from '../shared/confirm.js'
+import { ToolRegistry, defineTool } from '../shared/tool-registry.js'
+import { ResourceRegistry } from '../shared/resources.js'
+import { serve, transportFromEnv } from '../shared/mcp-server.js'
+import type { ServerInfo, TransportOptions } from '../shared/mcp-server.js'
+import {
+  createRepositoryInput,
+  createSecretInput,
+  pushFilesInput,
+  createBranchInput,
+  listSecretsInput,
+  deleteSecretInput,
+  deleteRepositoryInput,
+  getProviderStatusInput
+} from './schemas.js'
+
+/**
+ * ShipMe GitHub MCP Server
+ *
+ * Provides tools for GitHub repository management during infrastructure provisioning.
+ * Adapted from ShipMe v1.0 GitHub provisioning code.
+ */
+
+const DEFAULT_GITHUB_API_URL = 'https://api.github.com'
+
+// The ESM build of libsodium-wrappers (0.7.14 and later) imports a file the
+// package does not ship, so load the CommonJS build
+const sodium = createRequire(import.meta.url)('libsodium-wrappers') as typeof Sodium
+
+const logger = createLogger('github')
+
+const SERVER_INFO: ServerInfo = { name: 'shipme-github-mcp', version: '1.0.0' }
+
+export class GitHubMCPServer {
+  private tools: ToolRegistry
+  readonly resources: ResourceRegistry
+  private vault: SecretVault
+  private octokit: Octokit
+  private apiUrl: string
+  private dryRun: boolean
+
+  constructor(config: GitHubMCPConfig) {
+    this.vault = config.vault || new SecretVault()
+    this.apiUrl = (config.apiUrl || DEFAULT_GITHUB_API_URL).replace(/\/+$/, '')
+    this.dryRun = config.dryRun ?? false
+    this.octokit = new Octokit({
+      auth: config.token,
+      baseUrl: this.apiUrl,
+      request: { fetch: createLoggedFetch(config.fetch || fetch, logger) }
+    })
+
+    // Share the GitHub rate budget across concurrent tool calls, and back off
+    // every caller when GitHub reports a (secondary) rate limit. Requests also go
+    // through the GitHub circuit breaker so an outage fails fast, and Octokit's
+    // RequestErrors are mapped onto the shared error taxonomy.
+    const limiter = getRateLimiter(this.apiUrl)
+    const breaker = getCircuitBreaker(this.apiUrl)
+    this.octokit.hook.wrap('request', (request, options) => breaker.execute(async () => request(options)))
+    this.octokit.hook.before('request', () => limiter.acquire())
+    this.octokit.hook.error('request', (error: any) => {
+      if (error.status === 429 || error.status === 403) {
+        const hint = getRetryAfterMs(new Headers(error.response?.headers ?? {}))
+        if (hint !== undefined) {
+          limiter.pauseUntil(Date.now() + hint)
+        }
+      }
+      throw toProviderError(error, 'github')
+    })
+
+    this.tools = this.defineTools()
+    this.resources = this.defineResources()
+  }
+
+  /**
+   * Tools with their input schemas; arguments are checked before a handler runs
+   */
+  private defineTools(): ToolRegistry {
+    return new ToolRegistry([
+      defineTool({
+        name: 'create_repository',
+        description: 'Create a new GitHub repository. Can optionally use a template repository.',
+        input: createRepositoryInput,
+        handler: (args, dryRun) => this.createRepository(args, dryRun)
+      }),
+      defineTool({
+        name: 'create_secret',
+        description: 'Add an encrypted secret to a GitHub repository for use in Actions',
+        input: createSecretInput,
+        handler: (args, dryRun) => this.createSecret(args, dryRun)
+      }),
+      defineTool({
+        name: 'push_files',
+        description: 'Push files to a GitHub repository',
+        input: pushFilesInput,
+        handler: (args, dryRun) => this.pushFiles(args, dryRun)
+      }),
+      defineTool({
+        name: 'create_branch',
+        description: 'Create a branch (e.g. for a staging environment); an existing branch is left as it is',
+        input: createBranchInput,
+        handler: (args, dryRun) => this.createBranch(args, dryRun)
+      }),
+      defineTool({
+        name: 'list_secrets',
+        description: 'List the Actions secret names of a GitHub repository (values are never returned)',
+        input: listSecretsInput,
+        handler: args => this.listSecrets(args)
+      }),
+      defineTool({
+        name: 'delete_secret',
+        description: 'Remove an Actions secret from a GitHub repository',
+        input: deleteSecretInput,
+        handler: (args, dryRun) => this.deleteSecret(args, dryRun)
+      }),
+      defineTool({
+        name: 'delete_repository',
+        description: 'Permanently delete a GitHub repository (token needs the delete_repo scope)',
+        input: deleteRepositoryInput,
+        handler: (args, dryRun) => this.deleteRepository(args, dryRun)
+      }),
+      defineTool({
+        name: 'get_provider_status',
+        description: 'Report whether the GitHub API is reachable (circuit breaker and rate limit state)',
+        input: getProviderStatusInput,
+        handler: () => this.getProviderStatus()
+      })
+    ])
+  }
+
+  /**
+   * Repository trees readable as resources; push_files reports the changes.
+   * Repositories are not listed, only read by URI.
+   */
+  private defineResources(): ResourceRegistry {
+    return new ResourceRegistry([
+      {
+        uriTemplate: 'github://{owner}/{repo}/tree',
+        name: 'GitHub repository tree',
+        description: 'Paths and sizes of the files on the default branch of a repository',
+        read: ({ owner, repo }) => this.fetchTree(owner, repo)
+      }
+    ])
+  }
+
+  /**
+   * tools/list entries
+   */
+  listTools() {
+    return this.tools.list()
+  }
+
+  /**
+   * Run a tool by name and return its MCP result. Backs tools/call on every
+   * transport and lets tools be driven in-process. {{secrets.*}} references
+   * anywhere in the arguments are resolved from the vault first.
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}) {
+    return withLogContext({ server: 'github', tool: name }, async () => {
+      const startedAt = Date.now()
+      logger.info('tool call started')
+
+      const result = await this.dispatchTool(name, args)
+
+      logger.info('tool call finished', {
+        success: !('isError' in result && result.isError),
+        durationMs: Date.now() - startedAt
+      })
+      return result
+    })
+  }
+
+  private async dispatchTool(name: string, args: Record<string, unknown>) {
+    try {
+      // Secrets travel between tools as {{secrets.name}} references, resolved
+      // once the arguments are valid
+      const dryRun = isDryRun(args, this.dryRun)
+      return await this.tools.call(name, args, dryRun, parsed => this.vault.resolveDeep(parsed))
+    } catch (error: unknown) {
+      return toolErrorResult(error, 'github')
+    }
+  }
+
+  private async createRepository(args: CreateRepositoryInput, dryRun: boolean) {
+    const { name, description, private: isPrivate, template_owner, template_repo, ensure = false } = args
+
+    if (dryRun) {
+      return this.previewCreateRepository(args)
+    }
+
+    // Get authenticated user
+    const { data: user } = await this.octokit.users.getAuthenticated()
+
+    let repo
+    // Adopt a repository left behind by an earlier, interrupted run
+    const existing = ensure ? await this.findRepository(user.login, name) : undefined
+
+    if (existing) {
+      logger.info('Adopting existing repository', { repository: existing.full_name })
+      repo = existing
+    } else if (template_owner && template_repo) {
+      // Create from template
+      const { data } = await this.octokit.repos.createUsingTemplate({
+        template_owner,
+        template_repo,
+        name,
+        description,
+        private: isPrivate ?? false,
+        include_all_branches: false
+      })
+      repo = data
+    } else {
+      // Create empty repository
+      const { data } = await this.octokit.repos.createForAuthenticatedUser({
+        name,
+        description,
+        private: isPrivate ?? false,
+        auto_init: true,
+        gitignore_template: 'Node'
+      })
+      repo = data
+    }
+
+    const result: CreateRepositoryResult = {
+      success: true,
+      repo_url: repo.html_url,
+      clone_url: repo.clone_url,
+      ssh_url: repo.ssh_url,
+      owner: user.login,
+      repo_name: name,
+      adopted: !!existing
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async createSecret(args: CreateSecretInput, dryRun: boolean) {
+    const { owner, repo, secret_name, secret_value } = args
+
+    if (dryRun) {
+      const preview = new DryRunPreview('create_secret', 'github')
+      await preview.check(`Repository ${owner}/${repo} has an Actions public key`, async () => {
+        const { data } = await this.octokit.actions.getRepoPublicKey({ owner, repo })
+        return `key ${data.key_id}`
+      })
+      preview.request('PUT', `${this.apiUrl}/repos/${owner}/${repo}/actions/secrets/${secret_name}`, {
+        encrypted_value: '<secret_value sealed with the repository public key>',
+        key_id: '<repository public key id>'
+      })
+      preview.creates(`Actions secret ${secret_name} in ${owner}/${repo}`)
+      return preview.toResult()
+    }
+
+    // Get repository public key for encryption
+    const { data: publicKey } = await this.octokit.actions.getRepoPublicKey({
+      owner,
+      repo
+    })
+
+    // Encrypt the secret value using libsodium
+    await sodium.ready
+    const binkey = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL)
+    const binsec = sodium.from_string(secret_value)
+    const encBytes = sodium.crypto_box_seal(binsec, binkey)
+    const encrypted_value = sodium.to_base64(encBytes, sodium.base64_variants.ORIGINAL)
+
+    // Create or update the secret
+    await this.octokit.actions.createOrUpdateRepoSecret({
+      owner,
+      repo,
+      secret_name,
+      encrypted_value,
+      key_id: publicKey.key_id
+    })
+
+    const result: CreateSecretResult = {
+      success: true,
+      secret_name,
+      message: `Secret '${secret_name}' created successfully`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async pushFiles(args: PushFilesInput, dryRun: boolean) {
+    const { owner, repo, files, message = '🚀 Update from ShipMe', branch = 'main' } = args
+
+    if (dryRun) {
+      const preview = new DryRunPreview('push_files', 'github')
+      let exists = true
+      await preview.check(`Branch ${branch} exists in ${owner}/${repo} or can be created`, async () => {
+        const head = await this.findBranchHead(owner, repo, branch)
+        exists = !!head
+        return head ? `at ${head}` : 'would be created from the default branch'
+      })
+      const repoUrl = `${this.apiUrl}/repos/${owner}/${repo}`
+      if (!exists) {
+        preview.request('POST', `${repoUrl}/git/refs`, { ref: `refs/heads/${branch}`, sha: '<default branch sha>' })
+        preview.creates(`Branch ${branch} of ${owner}/${repo}`)
+      }
+      preview.request('GET', `${repoUrl}/git/commits/<${branch} sha>`)
+      for (const file of files) {
+        preview.request('POST', `${repoUrl}/git/blobs`, { path: file.path, encoding: 'base64' })
+      }
+      preview.request('POST', `${repoUrl}/git/trees`, { base_tree: `<${branch} tree sha>`, files: files.length })
+      preview.request('POST', `${repoUrl}/git/commits`, { message, parents: [`<${branch} sha>`] })
+      preview.request('PATCH', `${repoUrl}/git/refs/heads/${branch}`, { sha: '<new commit sha>' })
+      preview.creates(`Commit "${message}" on ${owner}/${repo} ${branch} with ${files.length} file(s)`)
+      return preview.toResult()
+    }
+
+    // Get the branch head, starting the branch from the default branch if needed
+    const headSha = (await this.findBranchHead(owner, repo, branch))
+      ?? (await this.startBranch(owner, repo, branch)).sha
+
+    // Get the commit that the ref points to
+    const { data: commitData } = await this.octokit.git.getCommit({
+      owner,
+      repo,
+      commit_sha: headSha
+    })
+
+    // Create blobs for each file
+    const blobs = await Promise.all(
+      files.map(async file => {
+        const { data } = await this.octokit.git.createBlob({
+          owner,
+          repo,
+          content: Buffer.from(file.content).toString('base64'),
+          encoding: 'base64'
+        })
+        return {
+          path: file.path,
+          mode: '100644' as const,
+          type: 'blob' as const,
+          sha: data.sha
+        }
+      })
+    )
+
+    // Create a tree
+    const { data: treeData } = await this.octokit.git.createTree({
+      owner,
+      repo,
+      tree: blobs,
+      base_tree: commitData.tree.sha
+    })
+
+    // Create a commit
+    const { data: newCommit } = await this.octokit.git.createCommit({
+      owner,
+      repo,
+      message,
+      tree: treeData.sha,
+      parents: [headSha]
+    })
+
+    // Update the ref to point to the new commit
+    await this.octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha: newCommit.sha
+    })
+
+    this.resources.updated(`github://${owner}/${repo}/tree`)
+
+    const result: PushFilesResult = {
+      success: true,
+      commit_sha: newCommit.sha,
+      files_pushed: files.length,
+      branch,
+      message: `Pushed ${files.length} file(s) to ${owner}/${repo} ${branch}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async createBranch(args: CreateBranchInput, dryRun: boolean) {
+    const { owner, repo, branch, from } = args
+
+    if (dryRun) {
+      const preview = new DryRunPreview('create_branch', 'github')
+      let head: string | undefined
+      await preview.check(`Branch ${branch} of ${owner}/${repo}`, async () => {
+        head = await this.findBranchHead(owner, repo, branch)
+        return head ? `exists at ${head}, would be left as it is` : 'does not exist yet'
+      })
+      if (!head) {
+        preview.request('POST', `${this.apiUrl}/repos/${owner}/${repo}/git/refs`, {
+          ref: `refs/heads/${branch}`,
+          sha: `<${from || 'default branch'} sha>`
+        })
+        preview.creates(`Branch ${branch} of ${owner}/${repo} from ${from || 'the default branch'}`)
+      }
+      return preview.toResult()
+    }
+
+    const head = await this.findBranchHead(owner, repo, branch)
+    const started = head ? undefined : await this.startBranch(owner, repo, branch, from)
+
+    const result: CreateBranchResult = {
+      success: true,
+      branch,
+      sha: head || started!.sha,
+      created: !head,
+      ...(started ? { from: started.from } : {}),
+      message: head ? `Branch ${branch} already exists` : `Created branch ${branch} from ${started!.from}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Commit a branch points at; undefined when it does not exist
+   */
+  private async findBranchHead(owner: string, repo: string, branch: string): Promise<string | undefined> {
+    try {
+      const { data } = await this.octokit.git.getRef({ owner, repo, ref: `heads/${branch}` })
+      return data.object.sha
+    } catch (error) {
+      if (toProviderError(error, 'github').kind === 'not_found') return undefined
+      throw error
+    }
+  }
+
+  /**
+   * Create a branch at the head of `from` (defaults to the repository's default branch)
+   */
+  private async startBranch(owner: string, repo: string, branch: string, from?: string) {
+    const source = from || (await this.octokit.repos.get({ owner, repo })).data.default_branch
+    const { data: sourceRef } = await this.octokit.git.getRef({ owner, repo, ref: `heads/${source}` })
+    await this.octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: sourceRef.object.sha })
+    logger.info('Created branch', { owner, repo, branch, from: source })
+    return { sha: sourceRef.object.sha, from: source }
+  }
+
+  /**
+   * Dry run of create_repository: the token must resolve to a user, the name
+   * must be free under that user, and the template (if any) must be a template
+   */
+  private async previewCreateRepository(args: CreateRepositoryInput) {
+    const { name, private: isPrivate, template_owner, template_repo, ensure = false } = args
+    const preview = new DryRunPreview('create_repository', 'github')
+    let login = '<authenticated user>'
+
+    const authenticated = await preview.check('Token is authenticated', async () => {
+      const { data: user } = await this.octokit.users.getAuthenticated()
+      login = user.login
+      return login
+    })
+    let existing: { full_name: string } | undefined
+    if (authenticated) {
+      await preview.check(
+        ensure ? `Repository "${name}" can be created or adopted` : `Repository name "${name}" is free`,
+        async () => {
+          existing = await this.findRepository(login, name)
+          if (existing && !ensure) {
+            throw new ConflictError(`Repository ${login}/${name} already exists`, { provider: 'github' })
+          }
+          return existing ? `${existing.full_name} exists, would be adopted` : undefined
+        }
+      )
+    }
+    if (existing) {
+      return preview.toResult()
+    }
+
+    if (template_owner && template_repo) {
+      await preview.check(`${template_owner}/${template_repo} is a template repository`, async () => {
+        const { data } = await this.octokit.repos.get({ owner: template_owner, repo: template_repo })
+        if (!data.is_template) {
+          throw new ValidationError(`${template_owner}/${template_repo} is not a template repository`)
+        }
+      })
+      preview.request('POST', `${this.apiUrl}/repos/${template_owner}/${template_repo}/generate`, {
+        name,
+        private: isPrivate ?? false
+      })
+    } else {
+      preview.request('POST', `${this.apiUrl}/user/repos`, {
+        name,
+        private: isPrivate ?? false,
+        auto_init: true,
+        gitignore_template: 'Node'
+      })
+    }
+    preview.creates(`GitHub repository ${login}/${name} (${isPrivate ? 'private' : 'public'})`)
+    return preview.toResult()
+  }
+
+  private async listSecrets(args: ListSecretsInput) {
+    const { owner, repo } = args
+
+    const secrets = await this.octokit.paginate(this.octokit.actions.listRepoSecrets, {
+      owner,
+      repo,
+      per_page: 100
+    })
+
+    const result: ListSecretsResult = {
+      success: true,
+      secrets: secrets.map(secret => ({
+        name: secret.name,
+        created_at: secret.created_at,
+        updated_at: secret.updated_at
+      }))
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async deleteSecret(args: DeleteSecretInput, dryRun: boolean) {
+    const { owner, repo, secret_name, confirm } = args
+    requireConfirmation(confirm, secret_name, `delete secret ${secret_name} from ${owner}/${repo}`)
+
+    if (dryRun) {
+      const preview = new DryRunPreview('delete_secret', 'github')
+      await preview.check(`Secret ${secret_name} exists in ${owner}/${repo}`, async () => {
+        const { data } = await this.octokit.actions.getRepoSecret({ owner, repo, secret_name })
+        return `updated ${data.updated_at}`
+      })
+      preview.request('DELETE', `${this.apiUrl}/repos/${owner}/${repo}/actions/secrets/${secret_name}`)
+      return preview.toResult()
+    }
+
+    // GitHub answers 204 whether or not the secret existed
+    await this.octokit.actions.deleteRepoSecret({ owner, repo, secret_name })
+
+    const result: DeleteSecretResult = {
+      success: true,
+      secret_name,
+      message: `Secret '${secret_name}' removed from ${owner}/${repo}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async deleteRepository(args: DeleteRepositoryInput, dryRun: boolean) {
+    const { owner, repo, confirm } = args
+    requireConfirmation(confirm, `${owner}/${repo}`, `delete repository ${owner}/${repo}`)
+
+    if (dryRun) {
+      const preview = new DryRunPreview('delete_repository', 'github')
+      await preview.check(`Repository ${owner}/${repo} exists`, async () => {
+        const existing = await this.findRepository(owner, repo)
+        if (!existing) {
+          throw new ValidationError(`Repository ${owner}/${repo} does not exist`)
+        }
+        return existing.private ? 'private' : 'public'
+      })
+      preview.request('DELETE', `${this.apiUrl}/repos/${owner}/${repo}`)
+      return preview.toResult()
+    }
+
+    let deleted = true
+    try {
+      await this.octokit.repos.delete({ owner, repo })
+    } catch (error) {
+      // Already gone: deleting is idempotent
+      if (toProviderError(error, 'github').kind !== 'not_found') throw error
+      deleted = false
+    }
+
+    if (deleted) this.resources.updated(`github://${owner}/${repo}/tree`)
+
+    const result: DeleteRepositoryResult = {
+      success: true,
+      repository: `${owner}/${repo}`,
+      deleted,
+      message: deleted ? `Repository ${owner}/${repo} deleted` : `Repository ${owner}/${repo} does not exist`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async findRepository(owner: string, repo: string) {
+    try {
+      const { data } = await this.octokit.repos.get({ owner, repo })
+      return data
+    } catch (error) {
+      if (toProviderError(error, 'github').kind === 'not_found') return undefined
+      throw error
+    }
+  }
+
+  /**
+   * Files on the default branch. GitHub truncates very large trees, which
+   * the result reports.
+   */
+  private async fetchTree(owner: string, repo: string) {
+    const { data: repository } = await this.octokit.repos.get({ owner, repo })
+    const branch = repository.default_branch
+    const { data: tree } = await this.octokit.git.getTree({ owner, repo, tree_sha: branch, recursive: 'true' })
+
+    return {
+      repository: `${owner}/${repo}`,
+      branch,
+      sha: tree.sha,
+      truncated: tree.truncated,
+      files: tree.tree
+        .filter(entry => entry.type === 'blob')
+        .map(entry => ({ path: entry.path, size: entry.size }))
+    }
+  }
+
+  private async getProviderStatus() {
+    const result = getProviderStatus(this.apiUrl)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Serve the tools over the transport SHIPME_TRANSPORT selects (stdio by default)
+   */
+  async run(transport: TransportOptions = transportFromEnv()) {
+    const where = await serve(this, SERVER_INFO, transport)
+    logger.info(`GitHub MCP Server running on ${where}`)
+  }
+}
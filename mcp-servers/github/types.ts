@@ -1,15 +1,35 @@
 /**
  * Type definitions for GitHub MCP Server
+ *
+ * Tool inputs are derived from the input schemas in schemas.ts.
  */
 
-export interface CreateRepositoryInput {
-  name: string
-  description: string
-  private?: boolean
-  template_owner?: string
-  template_repo?: string
+import type { SecretVault } from '../shared/secret-vault.js'
+import type { Infer } from '../shared/schema.js'
+import type {
+  createRepositoryInput,
+  createSecretInput,
+  pushFilesInput,
+  createBranchInput,
+  listSecretsInput,
+  deleteSecretInput,
+  deleteRepositoryInput
+} from './schemas.js'
+
+export interface GitHubMCPConfig {
+  token: string
+  /** REST API base URL, e.g. https://ghe.example.com/api/v3 for GitHub Enterprise Server */
+  apiUrl?: string
+  /** HTTP client used by Octokit for every request (defaults to global fetch) */
+  fetch?: typeof fetch
+  /** Vault used to resolve {{secrets.*}} references in tool arguments */
+  vault?: SecretVault
+  /** Preview mutating tools instead of running them (a per-call dry_run argument overrides) */
+  dryRun?: boolean
 }
 
+export type CreateRepositoryInput = Infer<typeof createRepositoryInput>
+
 export interface CreateRepositoryResult {
   success: boolean
   repo_url?: string
@@ -17,15 +37,12 @@ export interface CreateRepositoryResult {
   ssh_url?: string
   owner?: string
   repo_name?: string
+  /** True when an existing repository was adopted instead of created */
+  adopted?: boolean
   error?: string
 }
 
-export interface CreateSecretInput {
-  owner: string
-  repo: string
-  secret_name: string
-  secret_value: string
-}
+export type CreateSecretInput = Infer<typeof createSecretInput>
 
 export interface CreateSecretResult {
   success: boolean
@@ -34,20 +51,59 @@ export interface CreateSecretResult {
   error?: string
 }
 
-export interface PushFilesInput {
-  owner: string
-  repo: string
-  files: Array<{
-    path: string
-    content: string
-  }>
-  message?: string
-}
+export type PushFilesInput = Infer<typeof pushFilesInput>
 
 export interface PushFilesResult {
   success: boolean
   commit_sha?: string
   files_pushed?: number
+  branch?: string
+  message?: string
+  error?: string
+}
+
+export type CreateBranchInput = Infer<typeof createBranchInput>
+
+export interface CreateBranchResult {
+  success: boolean
+  branch?: string
+  /** Commit the branch points at */
+  sha?: string
+  /** False when the branch already existed */
+  created?: boolean
+  from?: string
+  message?: string
+  error?: string
+}
+
+export type ListSecretsInput = Infer<typeof listSecretsInput>
+
+export interface ListSecretsResult {
+  success: boolean
+  secrets?: Array<{
+    name: string
+    created_at: string
+    updated_at: string
+  }>
+  error?: string
+}
+
+export type DeleteSecretInput = Infer<typeof deleteSecretInput>
+
+export interface DeleteSecretResult {
+  success: boolean
+  secret_name?: string
+  message?: string
+  error?: string
+}
+
+export type DeleteRepositoryInput = Infer<typeof deleteRepositoryInput>
+
+export interface DeleteRepositoryResult {
+  success: boolean
+  repository?: string
+  /** False when the repository did not exist */
+  deleted?: boolean
   message?: string
   error?: string
 }
@@ -0,0 +1,31 @@
+/**
+ * ShipMe Netlify MCP Server - Prompts
+ */
+
+import type { PromptDefinition } from '../shared/prompts.js'
+
+export const wireEnvVarsPrompt: PromptDefinition = {
+  name: 'wire_env_vars',
+  description: 'Set the Supabase URL and anon key on a Netlify site and redeploy it',
+  arguments: [
+    { name: 'site_id', description: 'Netlify site ID', required: true },
+    { name: 'supabase_url', description: 'Project URL, e.g. https://<ref>.supabase.co', required: true },
+    { name: 'supabase_anon_key', description: 'Anon key, or the {{secrets.*}} reference create_project returned', required: true },
+    { name: 'branch', description: 'Branch environment (e.g. staging) to set the values for; omit for every deploy context' }
+  ],
+  render: ({ site_id, supabase_url, supabase_anon_key, branch }, tool) => [
+    `Wire Netlify site ${site_id} to its Supabase project.`,
+    '',
+    `1. Call ${tool('configure_env_vars')} with site_id "${site_id}"${branch ? `, context "branch" and branch "${branch}"` : ''} and env_vars:`,
+    `   NEXT_PUBLIC_SUPABASE_URL = ${supabase_url}`,
+    `   NEXT_PUBLIC_SUPABASE_ANON_KEY = ${supabase_anon_key}`,
+    '   Pass the values exactly as given. {{secrets.*}} references are resolved by the server; never replace them with the secret values.',
+    '   Use the variable names the application reads if they differ (e.g. VITE_SUPABASE_URL for Vite).',
+    branch
+      ? `2. Call ${tool('get_site_info')} with site_id "${site_id}", include_env_vars: true, context "branch" and branch "${branch}" and check both variables are listed with a fingerprint.`
+      : `2. Read netlify://sites/${site_id} and check both variables are listed with a fingerprint.`,
+    branch
+      ? `3. The values apply from the next deploy of ${branch}, which Netlify builds when the branch is pushed (${tool('deploy_site')} only builds production). Ask the user to push to ${branch}, then follow the branch deploy in netlify://sites/${site_id}/deploys until it is ready or fails.`
+      : `3. Call ${tool('deploy_site')} with site_id "${site_id}" so a build picks up the values, then follow it in netlify://sites/${site_id}/deploys until it is ready or fails.`
+  ].join('\n')
+}
@@ -0,0 +1,67 @@
+/**
+ * ShipMe Netlify MCP Server - Tool Input Schemas
+ */
+
+import { array, boolean, object, optional, record, string } from '../shared/schema.js'
+import { dryRunArgument } from '../shared/dry-run.js'
+
+export const NETLIFY_ENV_CONTEXTS = ['all', 'production', 'deploy-preview', 'branch-deploy', 'dev', 'branch'] as const
+
+const siteId = string({ description: 'Netlify site ID', minLength: 1 })
+const branch = optional(string({ description: 'Branch name, required with context "branch"' }))
+
+export const createSiteInput = object({
+  name: string({ description: 'Site name (must be unique, will be slugified)', minLength: 1 }),
+  repo: optional(string({ description: 'Optional GitHub repository in format "owner/repo" for continuous deployment' })),
+  ensure: optional(boolean({ description: 'Adopt an existing site with the same name instead of failing', default: false })),
+  dry_run: dryRunArgument
+})
+
+export const configureEnvVarsInput = object({
+  site_id: siteId,
+  env_vars: record(string(), { description: 'Object with environment variable key-value pairs' }),
+  context: optional(string({
+    enum: NETLIFY_ENV_CONTEXTS,
+    description: 'Deploy context the values apply to; use branch with a branch name for a branch environment such as staging',
+    default: 'all'
+  })),
+  branch,
+  dry_run: dryRunArgument
+})
+
+export const deploySiteInput = object({
+  site_id: siteId,
+  dry_run: dryRunArgument
+})
+
+export const getSiteInfoInput = object({
+  site_id: siteId,
+  include_env_vars: optional(boolean({
+    description: 'Also list the site\'s environment variables, with value fingerprints instead of values'
+  })),
+  context: optional(string({
+    enum: ['production', 'deploy-preview', 'branch-deploy', 'dev', 'branch'],
+    description: 'Deploy context whose values are fingerprinted (defaults to production)'
+  })),
+  branch
+})
+
+export const unsetEnvVarsInput = object({
+  site_id: siteId,
+  keys: array(string({ minLength: 1 }), { description: 'Names of the environment variables to remove' }),
+  context: optional(string({
+    enum: NETLIFY_ENV_CONTEXTS,
+    description: 'Only remove the values of this deploy context, keeping the others (defaults to removing the whole variable)'
+  })),
+  branch,
+  confirm: string({ description: 'Must repeat site_id to confirm the removal' }),
+  dry_run: dryRunArgument
+})
+
+export const deleteSiteInput = object({
+  site_id: siteId,
+  confirm: string({ description: 'Must repeat site_id to confirm the deletion' }),
+  dry_run: dryRunArgument
+})
+
+export const getProviderStatusInput = object({})
@@ -0,0 +1,905 @@
+import type {
+  NetlifyMCPConfig,
+  CreateSiteParams,
+  CreateSiteResult,
+  ConfigureEnvVarsParams,
+  ConfigureEnvVarsResult,
+  DeploySiteParams,
+  DeploySiteResult,
+  GetSiteInfoParams,
+  GetSiteInfoResult,
+  DeleteSiteParams,
+  DeleteSiteResult,
+  UnsetEnvVarsParams,
+  UnsetEnvVarsResult,
+  NetlifyEnvContext
+} from './types.js'
+import { withRetry, fetchWithRetrySupport } from '../shared/retry.js'
+import { getProviderStatus } from '../shared/circuit-breaker.js'
+import {
+  ConflictError,
+  ProviderError,
+  ValidationError,
+  errorFromResponse,
+  toProviderError,
+  toolErrorResult
+} from '../shared/errors.js'
+import { createLogger, createLoggedFetch, withLogContext } from '../shared/logger.js'
+import { SecretVault, maskSecret } from '../shared/secret-vault.js'
+import { hashSecret } from '../shared/secret-output.js'
+import { DryRunPreview, isDryRun } from '../shared/dry-run.js'
+import { requireConfirmation } from '../shared/confirm.js'
+import { ToolRegistry, defineTool } from '../shared/tool-registry.js'
+import { ResourceRegistry } from '../shared/resources.js'
+import { PromptRegistry } from '../shared/prompts.js'
+import { serve, transportFromEnv } from '../shared/mcp-server.js'
+import type { ServerInfo, TransportOptions } from '../shared/mcp-server.js'
+import {
+  createSiteInput,
+  configureEnvVarsInput,
+  deploySiteInput,
+  getSiteInfoInput,
+  unsetEnvVarsInput,
+  deleteSiteInput,
+  getProviderStatusInput
+} from './schemas.js'
+import { wireEnvVarsPrompt } from './prompts.js'
+
+/**
+ * ShipMe Netlify MCP Server
+ *
+ * Provides tools for Netlify site creation, configuration, and deployment.
+ * Enables automated hosting and continuous deployment setup.
+ */
+
+const DEFAULT_NETLIFY_API_URL = 'https://api.netlify.com/api/v1'
+
+const logger = createLogger('netlify')
+
+const SERVER_INFO: ServerInfo = { name: 'shipme-netlify-mcp', version: '1.0.0' }
+
+/** Deploys listed by the netlify://sites/{id}/deploys resource */
+const RECENT_DEPLOYS = 10
+
+/**
+ * One value of an environment variable as returned by the env API
+ */
+interface EnvVarValue {
+  id?: string
+  value: string
+  context: NetlifyEnvContext
+  context_parameter?: string
+}
+
+/**
+ * Check a context/branch argument pair: a branch goes with context 'branch'
+ * and nothing else
+ */
+function envContext<C extends NetlifyEnvContext>(
+  context: C | undefined,
+  branch: string | undefined,
+  fallback: C
+): { context: C; branch?: string } {
+  const resolved = context ?? fallback
+  if (resolved === 'branch' && !branch) {
+    throw new ValidationError('branch is required with context "branch"')
+  }
+  if (resolved !== 'branch' && branch) {
+    throw new ValidationError(`branch only applies to context "branch", not "${resolved}"`)
+  }
+  return { context: resolved, ...(branch ? { branch } : {}) }
+}
+
+function inContext(value: EnvVarValue, context: NetlifyEnvContext, branch?: string): boolean {
+  return value.context === context && (context !== 'branch' || value.context_parameter === branch)
+}
+
+interface NetlifySite {
+  id: string
+  name: string
+  url?: string
+  admin_url: string
+  deploy_url: string
+  build_settings?: Record<string, unknown>
+}
+
+export class NetlifyMCPServer {
+  private tools: ToolRegistry
+  readonly resources: ResourceRegistry
+  readonly prompts = new PromptRegistry([wireEnvVarsPrompt])
+  private vault: SecretVault
+  private accessToken: string
+  private apiUrl: string
+  private fetch: typeof fetch
+  private dryRun: boolean
+
+  constructor(config: NetlifyMCPConfig) {
+    this.vault = config.vault || new SecretVault()
+    this.accessToken = config.accessToken
+    this.apiUrl = (config.apiUrl || DEFAULT_NETLIFY_API_URL).replace(/\/+$/, '')
+    this.fetch = createLoggedFetch(config.fetch || fetch, logger)
+    this.dryRun = config.dryRun ?? false
+
+    this.tools = this.defineTools()
+    this.resources = this.defineResources()
+  }
+
+  /**
+   * Tools with their input schemas; arguments are checked before a handler runs
+   */
+  private defineTools(): ToolRegistry {
+    return new ToolRegistry([
+      defineTool({
+        name: 'create_site',
+        description: 'Create a new Netlify site, optionally linked to a GitHub repository',
+        input: createSiteInput,
+        handler: (args, dryRun) => this.createSite(args, dryRun)
+      }),
+      defineTool({
+        name: 'configure_env_vars',
+        description: 'Configure environment variables for a Netlify site',
+        input: configureEnvVarsInput,
+        handler: (args, dryRun) => this.configureEnvVars(args, dryRun)
+      }),
+      defineTool({
+        name: 'deploy_site',
+        description: 'Trigger a production build and deploy of a Netlify site from its linked repository; other branches deploy when pushed',
+        input: deploySiteInput,
+        handler: (args, dryRun) => this.deploySite(args, dryRun)
+      }),
+      defineTool({
+        name: 'get_site_info',
+        description: 'Get information about a Netlify site (status, URL, build settings)',
+        input: getSiteInfoInput,
+        handler: args => this.getSiteInfo(args)
+      }),
+      defineTool({
+        name: 'unset_env_vars',
+        description: 'Remove environment variables from a Netlify site',
+        input: unsetEnvVarsInput,
+        handler: (args, dryRun) => this.unsetEnvVars(args, dryRun)
+      }),
+      defineTool({
+        name: 'delete_site',
+        description: 'Permanently delete a Netlify site and its deploys',
+        input: deleteSiteInput,
+        handler: (args, dryRun) => this.deleteSite(args, dryRun)
+      }),
+      defineTool({
+        name: 'get_provider_status',
+        description: 'Report whether the Netlify API is reachable (circuit breaker and rate limit state)',
+        input: getProviderStatusInput,
+        handler: () => this.getProviderStatus()
+      })
+    ])
+  }
+
+  /**
+   * Sites readable as resources; tools that change them report it
+   */
+  private defineResources(): ResourceRegistry {
+    return new ResourceRegistry([
+      {
+        uriTemplate: 'netlify://sites/{id}',
+        name: 'Netlify site',
+        description: 'URL, state, build settings and production env vars (as value fingerprints) of a site',
+        list: async () => (await this.listSites()).map(site => ({
+          uri: `netlify://sites/${site.id}`,
+          name: site.name
+        })),
+        read: async ({ id }) => ({
+          ...await this.fetchSiteInfo(id),
+          env_vars: await this.getEnvVarHashes(id, 'production')
+        })
+      },
+      {
+        uriTemplate: 'netlify://sites/{id}/deploys',
+        name: 'Netlify deploys',
+        description: `The ${RECENT_DEPLOYS} most recent deploys of a site, newest first, with their state and errors`,
+        list: async () => (await this.listSites()).map(site => ({
+          uri: `netlify://sites/${site.id}/deploys`,
+          name: `${site.name} deploys`
+        })),
+        read: ({ id }) => this.fetchDeploys(id)
+      }
+    ])
+  }
+
+  /**
+   * tools/list entries
+   */
+  listTools() {
+    return this.tools.list()
+  }
+
+  /**
+   * Run a tool by name and return its MCP result. Backs tools/call on every
+   * transport and lets tools be driven in-process. {{secrets.*}} references
+   * anywhere in the arguments are resolved from the vault first.
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}) {
+    return withLogContext({ server: 'netlify', tool: name }, async () => {
+      const startedAt = Date.now()
+      logger.info('tool call started')
+
+      const result = await this.dispatchTool(name, args)
+
+      logger.info('tool call finished', {
+        success: !('isError' in result && result.isError),
+        durationMs: Date.now() - startedAt
+      })
+      return result
+    })
+  }
+
+  private async dispatchTool(name: string, args: Record<string, unknown>) {
+    try {
+      // Secrets travel between tools as {{secrets.name}} references, resolved
+      // once the arguments are valid
+      const dryRun = isDryRun(args, this.dryRun)
+      return await this.tools.call(name, args, dryRun, parsed => this.vault.resolveDeep(parsed))
+    } catch (error: unknown) {
+      return toolErrorResult(error, 'netlify')
+    }
+  }
+
+  private async createSite(params: CreateSiteParams, dryRun: boolean) {
+    const { name, repo, ensure = false } = params
+
+    const body: any = {
+      name: name.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+    }
+
+    // If repo provided, configure GitHub integration
+    if (repo) {
+      const [owner, repoName] = repo.split('/')
+      if (!owner || !repoName) {
+        throw new ValidationError('Repository must be in format "owner/repo"')
+      }
+
+      body.repo = {
+        provider: 'github',
+        repo: repo,
+        private: false,
+        branch: 'main',
+        cmd: 'npm run build',
+        dir: '.next' // Default for Next.js
+      }
+    }
+
+    if (dryRun) {
+      const preview = new DryRunPreview('create_site', 'netlify')
+      let existing: NetlifySite | undefined
+      await preview.check(
+        ensure ? `Site "${body.name}" can be created or adopted` : `Site name "${body.name}" is free`,
+        async () => {
+          existing = await this.findSiteByName(body.name)
+          if (existing && !ensure) {
+            throw new ConflictError(`Site "${body.name}" already exists`, { provider: 'netlify' })
+          }
+          return existing ? `exists (${existing.id}), would be adopted` : undefined
+        }
+      )
+      if (existing) {
+        return preview.toResult()
+      }
+      preview.request('POST', `${this.apiUrl}/sites`, body)
+      preview.creates(`Netlify site "${body.name}" (https://${body.name}.netlify.app)`)
+      if (repo) {
+        preview.creates(`Continuous deployment from ${repo} (main)`)
+      }
+      return preview.toResult()
+    }
+
+    // Adopt a site left behind by an earlier, interrupted run
+    const existing = ensure ? await this.findSiteByName(body.name) : undefined
+    if (existing) {
+      logger.info('Adopting existing site', { siteId: existing.id, name: existing.name })
+      return this.siteResult(existing, true)
+    }
+
+    const response = await withRetry(
+      () => fetchWithRetrySupport(`${this.apiUrl}/sites`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      }, this.fetch),
+      { label: 'Netlify site creation' }
+    )
+
+    const site = await response.json() as NetlifySite
+    this.resources.listChanged()
+    return this.siteResult(site, false)
+  }
+
+  private siteResult(site: NetlifySite, adopted: boolean) {
+    const result: CreateSiteResult = {
+      success: true,
+      site_id: site.id,
+      site_name: site.name,
+      url: site.url || `https://${site.name}.netlify.app`,
+      admin_url: site.admin_url,
+      deploy_url: site.deploy_url,
+      build_settings: site.build_settings,
+      adopted
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async configureEnvVars(params: ConfigureEnvVarsParams, dryRun: boolean) {
+    const { site_id, env_vars } = params
+    const { context, branch } = envContext(params.context, params.branch, 'all')
+    const where = context === 'all' ? '' : ` (${branch ? `branch ${branch}` : context})`
+
+    if (dryRun) {
+      const preview = new DryRunPreview('configure_env_vars', 'netlify')
+      await this.checkSiteExists(preview, site_id)
+      for (const [key, value] of Object.entries(env_vars)) {
+        if (context === 'all') {
+          preview.request('POST', `${this.apiUrl}/accounts/-/env/${key}`, {
+            context: 'production',
+            scope: 'builds',
+            values: [{ value: maskSecret(value), context: 'all' }]
+          })
+        } else {
+          preview.request('PATCH', `${this.apiUrl}/accounts/-/env/${key}?site_id=${site_id}`, {
+            context,
+            ...(branch ? { context_parameter: branch } : {}),
+            value: maskSecret(value)
+          })
+        }
+        preview.creates(`Environment variable ${key}${where}`)
+      }
+      return preview.toResult()
+    }
+
+    let setCount = 0
+    const errors: string[] = []
+    let lastFailure: ProviderError | undefined
+
+    // Set each environment variable
+    for (const [key, value] of Object.entries(env_vars)) {
+      if (context !== 'all') {
+        try {
+          const response = await this.setContextValue(site_id, key, { value, context, context_parameter: branch })
+          if (response.ok) {
+            setCount++
+          } else {
+            lastFailure = await errorFromResponse(response, `Failed to set ${key}`, 'netlify')
+            errors.push(`Failed to set ${key}: ${lastFailure.message}`)
+          }
+        } catch (error: unknown) {
+          lastFailure = toProviderError(error, 'netlify')
+          errors.push(`Error setting ${key}: ${lastFailure.message}`)
+        }
+        continue
+      }
+
+      try {
+        const response = await this.fetch(
+          `${this.apiUrl}/accounts/-/env/${key}`,
+          {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${this.accessToken}`,
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+              context: 'production',
+              scope: 'builds',
+              values: [
+                {
+                  value: value,
+                  context: 'all'
+                }
+              ]
+            })
+          }
+        )
+
+        if (response.ok) {
+          setCount++
+        } else {
+          // Try alternative method (site-specific env vars)
+          const altResponse = await this.fetch(
+            `${this.apiUrl}/sites/${site_id}/env`,
+            {
+              method: 'PATCH',
+              headers: {
+                'Authorization': `Bearer ${this.accessToken}`,
+                'Content-Type': 'application/json'
+              },
+              body: JSON.stringify({
+                [key]: value
+              })
+            }
+          )
+
+          if (altResponse.ok) {
+            setCount++
+          } else {
+            lastFailure = await errorFromResponse(altResponse, `Failed to set ${key}`, 'netlify')
+            errors.push(`Failed to set ${key}: ${lastFailure.message}`)
+          }
+        }
+      } catch (error: unknown) {
+        lastFailure = toProviderError(error, 'netlify')
+        errors.push(`Error setting ${key}: ${lastFailure.message}`)
+      }
+    }
+
+    if (lastFailure && setCount === 0) {
+      throw new ProviderError(lastFailure.kind, `Failed to set environment variables: ${errors.join(', ')}`, {
+        provider: 'netlify',
+        status: lastFailure.status,
+        code: lastFailure.code,
+        retryable: lastFailure.retryable
+      })
+    }
+
+    this.resources.updated(`netlify://sites/${site_id}`)
+
+    const result: ConfigureEnvVarsResult = {
+      success: true,
+      vars_set: setCount,
+      context,
+      ...(branch ? { branch } : {}),
+      message: `Set ${setCount} environment variable(s)${where}${errors.length > 0 ? ` (${errors.length} failed)` : ''}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async deploySite(params: DeploySiteParams, dryRun: boolean) {
+    const { site_id } = params
+
+    if (dryRun) {
+      const preview = new DryRunPreview('deploy_site', 'netlify')
+      await this.checkSiteExists(preview, site_id)
+      preview.request('POST', `${this.apiUrl}/sites/${site_id}/builds`, { clear_cache: false })
+      preview.creates(`Production build and deploy of site ${site_id}`)
+      return preview.toResult()
+    }
+
+    // Trigger a production build (with retry for transient errors). The builds
+    // API takes no branch: Netlify builds other branches when they are pushed
+    const response = await withRetry(
+      () => fetchWithRetrySupport(
+        `${this.apiUrl}/sites/${site_id}/builds`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            clear_cache: false
+          })
+        },
+        this.fetch
+      ),
+      { label: 'Netlify deploy trigger' }
+    )
+
+    const build = await response.json() as {
+      id: string
+      deploy_id: string
+      deploy_url: string
+      state: string
+    }
+    this.resources.updated(`netlify://sites/${site_id}/deploys`)
+
+    const result: DeploySiteResult = {
+      success: true,
+      deploy_id: build.deploy_id,
+      build_id: build.id,
+      deploy_url: build.deploy_url,
+      state: build.state,
+      message: `Deployment triggered successfully. State: ${build.state}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async getSiteInfo(params: GetSiteInfoParams) {
+    const { site_id, include_env_vars = false } = params
+    const { context, branch } = envContext(params.context, params.branch, 'production')
+
+    const result = await this.fetchSiteInfo(site_id)
+    if (include_env_vars) {
+      result.env_vars = await this.getEnvVarHashes(site_id, context, branch)
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async fetchSiteInfo(site_id: string): Promise<GetSiteInfoResult> {
+    const response = await this.fetch(
+      `${this.apiUrl}/sites/${site_id}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    )
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to get site info', 'netlify')
+    }
+
+    const site = await response.json() as {
+      id: string
+      name: string
+      url?: string
+      admin_url: string
+      state: string
+      created_at: string
+      updated_at: string
+      build_settings?: unknown
+    }
+
+    const result: GetSiteInfoResult = {
+      success: true,
+      site_id: site.id,
+      site_name: site.name,
+      url: site.url || `https://${site.name}.netlify.app`,
+      admin_url: site.admin_url,
+      state: site.state,
+      created_at: site.created_at,
+      updated_at: site.updated_at,
+      build_settings: site.build_settings
+    }
+    return result
+  }
+
+  /**
+   * Recent deploys of a site, newest first
+   */
+  private async fetchDeploys(site_id: string) {
+    const response = await this.fetch(`${this.apiUrl}/sites/${site_id}/deploys?per_page=${RECENT_DEPLOYS}`, {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to list deploys', 'netlify')
+    }
+
+    const deploys = await response.json() as Array<{
+      id: string
+      state: string
+      branch?: string
+      commit_ref?: string | null
+      context?: string
+      deploy_ssl_url?: string
+      error_message?: string | null
+      created_at: string
+      published_at?: string | null
+    }>
+
+    return {
+      site_id,
+      deploys: deploys.map(deploy => ({
+        id: deploy.id,
+        state: deploy.state,
+        context: deploy.context,
+        branch: deploy.branch,
+        commit_ref: deploy.commit_ref ?? undefined,
+        url: deploy.deploy_ssl_url,
+        error_message: deploy.error_message ?? undefined,
+        created_at: deploy.created_at,
+        published_at: deploy.published_at ?? undefined
+      }))
+    }
+  }
+
+  private async unsetEnvVars(params: UnsetEnvVarsParams, dryRun: boolean) {
+    const { site_id, keys, confirm } = params
+    requireConfirmation(confirm, site_id, `remove environment variables from site ${site_id}`)
+    if (!Array.isArray(keys) || keys.length === 0) {
+      throw new ValidationError('keys must be a non-empty array')
+    }
+    // Without a context the whole variable goes, with one only its values there
+    const scoped = params.context || params.branch ? envContext(params.context, params.branch, 'all') : undefined
+
+    if (dryRun) {
+      const preview = new DryRunPreview('unset_env_vars', 'netlify')
+      await this.checkSiteExists(preview, site_id)
+      for (const key of keys) {
+        if (scoped) {
+          preview.request('GET', `${this.apiUrl}/accounts/-/env/${key}?site_id=${site_id}`)
+          preview.request('DELETE', `${this.apiUrl}/accounts/-/env/${key}/value/<${scoped.branch ?? scoped.context} value id>?site_id=${site_id}`)
+        } else {
+          preview.request('DELETE', `${this.apiUrl}/accounts/-/env/${key}?site_id=${site_id}`)
+        }
+      }
+      return preview.toResult()
+    }
+
+    const removed: string[] = []
+    const missing: string[] = []
+    const errors: string[] = []
+    let lastFailure: ProviderError | undefined
+
+    for (const key of keys) {
+      try {
+        const response = scoped
+          ? await this.deleteContextValues(site_id, key, scoped.context, scoped.branch)
+          : await this.fetch(`${this.apiUrl}/accounts/-/env/${key}?site_id=${site_id}`, {
+            method: 'DELETE',
+            headers: { 'Authorization': `Bearer ${this.accessToken}` }
+          })
+
+        if (response.ok) {
+          removed.push(key)
+        } else if (response.status === 404) {
+          missing.push(key)
+        } else {
+          lastFailure = await errorFromResponse(response, `Failed to remove ${key}`, 'netlify')
+          errors.push(lastFailure.message)
+        }
+      } catch (error: unknown) {
+        lastFailure = toProviderError(error, 'netlify')
+        errors.push(`Error removing ${key}: ${lastFailure.message}`)
+      }
+    }
+
+    if (lastFailure) {
+      throw new ProviderError(lastFailure.kind, `Failed to remove environment variables: ${errors.join(', ')}`, {
+        provider: 'netlify',
+        status: lastFailure.status,
+        code: lastFailure.code,
+        retryable: lastFailure.retryable
+      })
+    }
+
+    if (removed.length > 0) this.resources.updated(`netlify://sites/${site_id}`)
+
+    const result: UnsetEnvVarsResult = {
+      success: true,
+      removed,
+      not_found: missing,
+      message: `Removed ${removed.length} environment variable(s)${scoped ? ` from ${scoped.branch ? `branch ${scoped.branch}` : scoped.context}` : ''}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async deleteSite(params: DeleteSiteParams, dryRun: boolean) {
+    const { site_id, confirm } = params
+    requireConfirmation(confirm, site_id, `delete site ${site_id}`)
+
+    if (dryRun) {
+      const preview = new DryRunPreview('delete_site', 'netlify')
+      await this.checkSiteExists(preview, site_id)
+      preview.request('DELETE', `${this.apiUrl}/sites/${site_id}`)
+      return preview.toResult()
+    }
+
+    const response = await withRetry(
+      () => fetchWithRetrySupport(`${this.apiUrl}/sites/${site_id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      }, this.fetch),
+      { label: 'Netlify site deletion' }
+    ).catch((error: unknown) => {
+      // Already gone: deleting is idempotent
+      if (toProviderError(error, 'netlify').kind === 'not_found') return undefined
+      throw error
+    })
+
+    if (response) {
+      this.resources.updated(`netlify://sites/${site_id}`)
+      this.resources.listChanged()
+    }
+
+    const result: DeleteSiteResult = {
+      success: true,
+      site_id,
+      deleted: !!response,
+      message: response ? `Site ${site_id} deleted` : `Site ${site_id} does not exist`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async listSites(): Promise<NetlifySite[]> {
+    const response = await this.fetch(`${this.apiUrl}/sites?filter=all&per_page=100`, {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to list sites', 'netlify')
+    }
+    return await response.json() as NetlifySite[]
+  }
+
+  /**
+   * Look a site up by name. Site lookups accept the default domain; only sites
+   * visible to this token can be found.
+   */
+  private async findSiteByName(name: string): Promise<NetlifySite | undefined> {
+    const response = await this.fetch(`${this.apiUrl}/sites/${name}.netlify.app`, {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+    if (response.status === 404) return undefined
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to look up site', 'netlify')
+    }
+    return await response.json() as NetlifySite
+  }
+
+  /**
+   * Environment variables of a site as key -> fingerprint of the value used in
+   * one deploy context, so they can be compared without entering the agent's
+   * context. Variables with no value there are left out.
+   */
+  private async getEnvVarHashes(
+    siteId: string,
+    context: Exclude<NetlifyEnvContext, 'all'>,
+    branch?: string
+  ): Promise<Record<string, string>> {
+    const response = await this.fetch(
+      `${this.apiUrl}/accounts/-/env?site_id=${siteId}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    )
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to list environment variables', 'netlify')
+    }
+
+    const envVars = await response.json() as Array<{
+      key: string
+      values: EnvVarValue[]
+    }>
+
+    const hashes: Record<string, string> = {}
+    for (const envVar of envVars) {
+      // A value for the exact context wins over one shared by all contexts
+      const value = envVar.values.find(v => inContext(v, context, branch)) ||
+        envVar.values.find(v => v.context === 'all')
+      if (value) hashes[envVar.key] = hashSecret(value.value)
+    }
+    return hashes
+  }
+
+  /**
+   * Set the value of a variable in one deploy context, leaving its other
+   * contexts alone; the variable is created if the site does not have it yet
+   */
+  private async setContextValue(siteId: string, key: string, value: EnvVarValue): Promise<Response> {
+    const headers = {
+      'Authorization': `Bearer ${this.accessToken}`,
+      'Content-Type': 'application/json'
+    }
+    const response = await this.fetch(`${this.apiUrl}/accounts/-/env/${key}?site_id=${siteId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(value)
+    })
+    if (response.status !== 404) return response
+
+    return this.fetch(`${this.apiUrl}/accounts/-/env?site_id=${siteId}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify([{ key, values: [value] }])
+    })
+  }
+
+  /**
+   * Remove the values of a variable in one deploy context. The variable goes
+   * entirely when nothing else is left; a 404 means it had no value there.
+   */
+  private async deleteContextValues(
+    siteId: string,
+    key: string,
+    context: NetlifyEnvContext,
+    branch?: string
+  ): Promise<Response> {
+    const headers = { 'Authorization': `Bearer ${this.accessToken}` }
+    const response = await this.fetch(`${this.apiUrl}/accounts/-/env/${key}?site_id=${siteId}`, { headers })
+    if (!response.ok) return response
+
+    const envVar = await response.json() as { values: EnvVarValue[] }
+    const matching = envVar.values.filter(value => inContext(value, context, branch))
+    if (matching.length === 0) {
+      return new Response(null, { status: 404 })
+    }
+    if (matching.length === envVar.values.length) {
+      return this.fetch(`${this.apiUrl}/accounts/-/env/${key}?site_id=${siteId}`, { method: 'DELETE', headers })
+    }
+
+    let last = response
+    for (const value of matching) {
+      last = await this.fetch(`${this.apiUrl}/accounts/-/env/${key}/value/${value.id}?site_id=${siteId}`, {
+        method: 'DELETE',
+        headers
+      })
+      if (!last.ok) return last
+    }
+    return last
+  }
+
+  private async checkSiteExists(preview: DryRunPreview, siteId: string): Promise<boolean> {
+    return preview.check(`Site ${siteId} exists`, async () => {
+      const response = await this.fetch(`${this.apiUrl}/sites/${siteId}`, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      })
+      if (!response.ok) {
+        throw await errorFromResponse(response, 'Failed to get site info', 'netlify')
+      }
+      const site = await response.json() as { name: string }
+      return site.name
+    })
+  }
+
+  private async getProviderStatus() {
+    const result = getProviderStatus(this.apiUrl)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Serve the tools over the transport SHIPME_TRANSPORT selects (stdio by default)
+   */
+  async run(transport: TransportOptions = transportFromEnv()) {
+    const where = await serve(this, SERVER_INFO, transport)
+    logger.info(`Netlify MCP Server running on ${where}`)
+  }
+}
@@ -1,15 +1,34 @@
 /**
  * ShipMe Netlify MCP Server - Type Definitions
+ *
+ * Tool parameters are derived from the input schemas in schemas.ts.
  */
 
+import type { SecretVault } from '../shared/secret-vault.js'
+import type { Infer } from '../shared/schema.js'
+import type {
+  NETLIFY_ENV_CONTEXTS,
+  createSiteInput,
+  configureEnvVarsInput,
+  deploySiteInput,
+  getSiteInfoInput,
+  unsetEnvVarsInput,
+  deleteSiteInput
+} from './schemas.js'
+
 export interface NetlifyMCPConfig {
   accessToken: string
+  /** API base URL (defaults to https://api.netlify.com/api/v1) */
+  apiUrl?: string
+  /** HTTP client used for every API request (defaults to global fetch) */
+  fetch?: typeof fetch
+  /** Vault used to resolve {{secrets.*}} references in tool arguments */
+  vault?: SecretVault
+  /** Preview mutating tools instead of running them (a per-call dry_run argument overrides) */
+  dryRun?: boolean
 }
 
-export interface CreateSiteParams {
-  name: string
-  repo?: string // Optional GitHub repo in format "owner/repo"
-}
+export type CreateSiteParams = Infer<typeof createSiteInput>
 
 export interface CreateSiteResult {
   success: boolean
@@ -18,26 +37,30 @@ export interface CreateSiteResult {
   url?: string
   admin_url?: string
   deploy_url?: string
+  build_settings?: Record<string, unknown>
+  /** True when an existing site was adopted instead of created */
+  adopted?: boolean
   error?: string
 }
 
-export interface ConfigureEnvVarsParams {
-  site_id: string
-  env_vars: Record<string, string>
-}
+/**
+ * Deploy context an environment variable value applies to. 'branch' is the
+ * deploy of one named branch (e.g. staging); 'all' is every context.
+ */
+export type NetlifyEnvContext = typeof NETLIFY_ENV_CONTEXTS[number]
+
+export type ConfigureEnvVarsParams = Infer<typeof configureEnvVarsInput>
 
 export interface ConfigureEnvVarsResult {
   success: boolean
   vars_set?: number
+  context?: NetlifyEnvContext
+  branch?: string
   message?: string
   error?: string
 }
 
-export interface DeploySiteParams {
-  site_id: string
-  directory?: string
-  branch?: string
-}
+export type DeploySiteParams = Infer<typeof deploySiteInput>
 
 export interface DeploySiteResult {
   success: boolean
@@ -49,9 +72,7 @@ export interface DeploySiteResult {
   error?: string
 }
 
-export interface GetSiteInfoParams {
-  site_id: string
-}
+export type GetSiteInfoParams = Infer<typeof getSiteInfoInput>
 
 export interface GetSiteInfoResult {
   success: boolean
@@ -63,6 +84,33 @@ export interface GetSiteInfoResult {
   created_at?: string
   updated_at?: string
   build_settings?: any
+  /**
+   * Key -> sha256 fingerprint of the value used in the requested context (with
+   * include_env_vars); variables without a value there are left out
+   */
+  env_vars?: Record<string, string>
+  error?: string
+}
+
+export type UnsetEnvVarsParams = Infer<typeof unsetEnvVarsInput>
+
+export interface UnsetEnvVarsResult {
+  success: boolean
+  removed?: string[]
+  /** Keys that were not set */
+  not_found?: string[]
+  message?: string
+  error?: string
+}
+
+export type DeleteSiteParams = Infer<typeof deleteSiteInput>
+
+export interface DeleteSiteResult {
+  success: boolean
+  site_id?: string
+  /** False when the site did not exist */
+  deleted?: boolean
+  message?: string
   error?: string
 }
 
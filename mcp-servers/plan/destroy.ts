@@ -0,0 +1,282 @@
+import type {
+  DestroyPlanOptions,
+  DestroyResult,
+  Plan,
+  PlanStep,
+  ProviderName,
+  TeardownResult,
+  ToolRunners
+} from './types.js'
+import type { ProvisioningState } from './state.js'
+import { validatePlan } from './plan.js'
+import { parseToolResult, resolveStepReferences } from './engine.js'
+import { toProviderError } from '../shared/errors.js'
+import { createLogger } from '../shared/logger.js'
+
+/**
+ * Ordered teardown
+ *
+ * Removes what a plan provisioned, using the outputs recorded in the state
+ * file, in reverse dependency order: env vars before the site, secrets and
+ * migrations before the project. Steps run one at a time. When a step cannot
+ * be torn down, the steps it depends on are left alone so nothing is deleted
+ * out from under a resource that still exists. Removed steps are forgotten in
+ * the state file, so a re-run continues with what is left.
+ *
+ * With an environment, only that environment's steps are torn down. Shared
+ * resources (the hosting site) and anything another environment still
+ * depends on (the production project under a database branch) stay.
+ */
+
+const logger = createLogger('plan')
+
+interface TeardownCall {
+  tool: string
+  args: Record<string, unknown>
+}
+
+/**
+ * How each creating tool is undone, from its outputs and resolved arguments.
+ * Tools missing here (execute_sql, deploy_site, deploy) leave nothing of their own to
+ * remove: their effects go away with the resources they ran against.
+ */
+const TEARDOWNS: Record<string, (outputs: Record<string, unknown>, args: Record<string, unknown>) => TeardownCall> = {
+  'supabase.create_project': outputs => ({
+    tool: 'delete_project',
+    args: { project_ref: outputs.project_ref, confirm: outputs.project_ref }
+  }),
+  'supabase.create_branch': outputs => ({
+    tool: 'delete_branch',
+    args: { branch_id: outputs.branch_id, confirm: outputs.branch_id }
+  }),
+  'netlify.create_site': outputs => ({
+    tool: 'delete_site',
+    args: { site_id: outputs.site_id, confirm: outputs.site_id }
+  }),
+  'netlify.configure_env_vars': (_outputs, args) => ({
+    tool: 'unset_env_vars',
+    args: {
+      site_id: args.site_id,
+      keys: Object.keys((args.env_vars as Record<string, unknown>) || {}),
+      // Only the values of the deploy context the step set
+      ...(args.context ? { context: args.context } : {}),
+      ...(args.branch ? { branch: args.branch } : {}),
+      confirm: args.site_id
+    }
+  }),
+  'vercel.create_project': outputs => ({
+    tool: 'delete_project',
+    args: { project_id: outputs.project_id, confirm: outputs.project_id }
+  }),
+  'vercel.configure_env_vars': (_outputs, args) => ({
+    tool: 'unset_env_vars',
+    args: {
+      project_id: args.project_id,
+      keys: Object.keys((args.env_vars as Record<string, unknown>) || {}),
+      ...(args.target ? { target: args.target } : {}),
+      ...(args.git_branch ? { git_branch: args.git_branch } : {}),
+      confirm: args.project_id
+    }
+  }),
+  'github.create_secret': (_outputs, args) => ({
+    tool: 'delete_secret',
+    args: { owner: args.owner, repo: args.repo, secret_name: args.secret_name, confirm: args.secret_name }
+  }),
+  'github.create_repository': outputs => ({
+    tool: 'delete_repository',
+    args: {
+      owner: outputs.owner,
+      repo: outputs.repo_name,
+      confirm: `${outputs.owner}/${outputs.repo_name}`
+    }
+  })
+}
+
+/**
+ * Plan steps ordered so every step comes after its dependencies
+ */
+function topologicalOrder(plan: Plan): PlanStep[] {
+  const steps = new Map(plan.steps.map(step => [step.id, step]))
+  const ordered: PlanStep[] = []
+  const visited = new Set<string>()
+  const visit = (step: PlanStep): void => {
+    if (visited.has(step.id)) return
+    visited.add(step.id)
+    step.dependsOn.forEach(id => visit(steps.get(id)!))
+    ordered.push(step)
+  }
+  plan.steps.forEach(visit)
+  return ordered
+}
+
+/**
+ * Tool result that deleted nothing because the resource was already gone
+ */
+function nothingRemoved(outputs: Record<string, unknown>): boolean {
+  if (outputs.deleted === false) return true
+  return Array.isArray(outputs.removed) && outputs.removed.length === 0
+}
+
+/**
+ * Tear down the recorded steps of a plan. Never throws for step failures;
+ * inspect the step results and `remaining`.
+ */
+export async function destroyPlan(
+  plan: Plan,
+  state: ProvisioningState,
+  runners: ToolRunners,
+  options: DestroyPlanOptions = {}
+): Promise<DestroyResult> {
+  validatePlan(plan)
+
+  const recorded = state.getSteps()
+  const outputs = new Map(Object.entries(recorded).map(([id, record]) => [id, record.outputs]))
+  const results = new Map<string, TeardownResult>()
+  const downProviders = new Set<ProviderName>()
+
+  const finish = (result: TeardownResult): void => {
+    results.set(result.id, result)
+    options.onStepFinish?.(result)
+    logger.info('teardown step finished', {
+      step: result.id,
+      status: result.status,
+      durationMs: result.durationMs,
+      ...(result.error ? { error: result.error } : {}),
+      ...(result.reason ? { reason: result.reason } : {})
+    })
+  }
+
+  // Dependents first: reverse of the order they were provisioned in
+  const order = topologicalOrder(plan).reverse().filter(step =>
+    recorded[step.id] && (!options.environment || step.environment === options.environment)
+  )
+  const selected = new Set(order.map(step => step.id))
+
+  for (const step of order) {
+    const startedAt = Date.now()
+    const teardown = TEARDOWNS[`${step.provider}.${step.tool}`]
+    const base = { id: step.id, provider: step.provider }
+
+    const blocked = plan.steps.find(dependent =>
+      dependent.dependsOn.includes(step.id) &&
+      ['failed', 'skipped'].includes(results.get(dependent.id)?.status || '')
+    )
+    if (blocked) {
+      finish({ ...base, status: 'skipped', reason: `dependent '${blocked.id}' could not be removed`, durationMs: 0 })
+      continue
+    }
+
+    const kept = plan.steps.find(dependent =>
+      dependent.dependsOn.includes(step.id) && recorded[dependent.id] && !selected.has(dependent.id)
+    )
+    if (kept) {
+      const owner = kept.environment ? `the ${kept.environment} environment` : 'a shared resource'
+      finish({ ...base, status: 'skipped', reason: `'${kept.id}' of ${owner} still depends on it`, durationMs: 0 })
+      continue
+    }
+
+    if (!teardown) {
+      finish({ ...base, status: 'nothing_to_remove', durationMs: 0 })
+      continue
+    }
+
+    let call: TeardownCall | undefined
+    try {
+      call = teardown(recorded[step.id].outputs, resolveStepReferences(step.args, outputs))
+      const runner = runners[step.provider]
+      if (!runner) {
+        finish({ ...base, tool: call.tool, status: 'skipped', reason: `no ${step.provider} server configured`, durationMs: 0 })
+        continue
+      }
+      if (downProviders.has(step.provider)) {
+        finish({ ...base, tool: call.tool, status: 'skipped', reason: `${step.provider} is unavailable`, durationMs: 0 })
+        continue
+      }
+
+      logger.info('teardown step started', { step: step.id, provider: step.provider, tool: call.tool })
+      const result = await runner.callTool(call.tool, { ...call.args, ...(options.dryRun ? { dry_run: true } : {}) })
+      const parsed = parseToolResult(result)
+
+      if (result.isError) {
+        const error = parsed.error as TeardownResult['error']
+        if (error?.kind === 'provider_down') {
+          downProviders.add(step.provider)
+        }
+        finish({
+          ...base,
+          tool: call.tool,
+          status: 'failed',
+          error: error || { kind: 'internal', message: 'Tool call failed' },
+          durationMs: Date.now() - startedAt
+        })
+        continue
+      }
+
+      if (!options.dryRun) {
+        state.forget(step.id)
+      }
+      finish({
+        ...base,
+        tool: call.tool,
+        status: options.dryRun ? 'planned' : nothingRemoved(parsed) ? 'nothing_to_remove' : 'removed',
+        outputs: parsed,
+        durationMs: Date.now() - startedAt
+      })
+    } catch (err) {
+      const error = toProviderError(err, step.provider)
+      finish({
+        ...base,
+        tool: call?.tool,
+        status: 'failed',
+        error: { kind: error.kind, message: error.message, retryable: error.retryable },
+        durationMs: Date.now() - startedAt
+      })
+    }
+  }
+
+  // Steps without resources of their own (migrations, deploys) are forgotten
+  // only once everything they ran against is gone, so re-provisioning a
+  // surviving project does not run its migrations twice
+  if (!options.dryRun) {
+    const steps = new Map(plan.steps.map(step => [step.id, step]))
+    const ancestors = (step: PlanStep, seen = new Set<string>()): Set<string> => {
+      for (const id of step.dependsOn) {
+        if (!seen.has(id)) {
+          seen.add(id)
+          ancestors(steps.get(id)!, seen)
+        }
+      }
+      return seen
+    }
+    // Provisioning order, so a migration is forgotten before the deploy after it
+    for (const step of [...order].reverse()) {
+      if (results.get(step.id)?.status !== 'nothing_to_remove' || TEARDOWNS[`${step.provider}.${step.tool}`]) continue
+      // Ancestors outside the environment being torn down are meant to stay
+      const remaining = state.getSteps()
+      if (Array.from(ancestors(step)).every(id => !selected.has(id) || !remaining[id])) {
+        state.forget(step.id)
+      }
+    }
+  }
+
+  // Recorded steps the current plan no longer has cannot be ordered safely
+  const planned = new Set(plan.steps.map(step => step.id))
+  for (const id of Object.keys(recorded)) {
+    if (!planned.has(id)) {
+      finish({
+        id,
+        provider: recorded[id].provider,
+        status: 'skipped',
+        reason: 'step is not in the current plan',
+        durationMs: 0
+      })
+    }
+  }
+
+  const steps = Array.from(results.values())
+  return {
+    success: steps.every(step => ['removed', 'nothing_to_remove', 'planned'].includes(step.status)),
+    steps,
+    remaining: Object.keys(state.getSteps())
+  }
+}
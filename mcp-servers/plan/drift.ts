@@ -0,0 +1,350 @@
+import type {
+  DetectDriftOptions,
+  DriftItem,
+  DriftReport,
+  Plan,
+  PlanStep,
+  ProviderName,
+  ToolRunners
+} from './types.js'
+import type { ProvisioningState } from './state.js'
+import { validatePlan } from './plan.js'
+import { parseToolResult, resolveStepReferences } from './engine.js'
+import { hashSecret } from '../shared/secret-output.js'
+import { toProviderError } from '../shared/errors.js'
+import { createLogger } from '../shared/logger.js'
+
+/**
+ * Drift detection
+ *
+ * Compares what the state file says was provisioned with what the providers
+ * report now: project (or database branch) status and auth providers, site
+ * (Netlify) or project (Vercel) build settings and env vars per deploy
+ * context, and repository secrets. Env values are compared as sha256
+ * fingerprints, and only secret names and timestamps are read from GitHub, so
+ * no credential is returned. Read-only: nothing is changed, each drift item
+ * carries a suggested fix instead.
+ */
+
+const logger = createLogger('plan')
+
+interface HostingInspection {
+  /** Read-only tool reporting the site, its build settings and env var fingerprints */
+  infoTool: string
+  /** Argument and output field holding the site's ID */
+  idField: string
+  /** Build settings fields compared with the recorded ones */
+  buildSettings: string[]
+  noun: string
+  /**
+   * infoTool arguments selecting the deploy context a configure_env_vars step
+   * wrote to; {} for the default (production)
+   */
+  envScope: (args: Record<string, any>) => Record<string, unknown>
+}
+
+/**
+ * How the site created by each hosting tool is inspected
+ */
+const HOSTING: Record<string, HostingInspection> = {
+  'netlify.create_site': {
+    infoTool: 'get_site_info',
+    idField: 'site_id',
+    buildSettings: ['cmd', 'dir', 'base', 'repo_url', 'repo_branch'],
+    noun: 'site',
+    envScope: ({ context, branch }) => context && context !== 'all' ? { context, ...(branch ? { branch } : {}) } : {}
+  },
+  'vercel.create_project': {
+    infoTool: 'get_project_info',
+    idField: 'project_id',
+    buildSettings: ['framework', 'buildCommand', 'outputDirectory', 'rootDirectory', 'installCommand'],
+    noun: 'project',
+    envScope: ({ target, git_branch }) => git_branch
+      ? { target: 'preview', git_branch }
+      : Array.isArray(target) && target.length === 1 ? { target: target[0] } : {}
+  }
+}
+
+const HEALTHY_PROJECT_STATUS = 'ACTIVE_HEALTHY'
+
+/**
+ * Compare the recorded provisioning of a plan with the live resources
+ */
+export async function detectDrift(
+  plan: Plan,
+  state: ProvisioningState,
+  runners: ToolRunners,
+  options: DetectDriftOptions = {}
+): Promise<DriftReport> {
+  validatePlan(plan)
+
+  const recorded = state.getSteps()
+  const outputs = new Map(Object.entries(recorded).map(([id, record]) => [id, record.outputs]))
+  const resolveSecrets = options.resolveSecrets ?? (async <T>(value: T) => value)
+  const items: DriftItem[] = []
+  const unchecked: DriftReport['unchecked'] = []
+
+  const recordedSteps = (tool: string, provider?: ProviderName): PlanStep[] =>
+    plan.steps.filter(step => step.tool === tool && (!provider || step.provider === provider) && recorded[step.id])
+
+  // Arguments a step was run with; undefined when an upstream output is gone
+  const argsOf = (step: PlanStep): Record<string, any> | undefined => {
+    try {
+      return resolveStepReferences(step.args, outputs)
+    } catch (error) {
+      unchecked.push({ resource: `step ${step.id}`, reason: toProviderError(error, step.provider).message })
+      return undefined
+    }
+  }
+
+  // Live state from a read-only tool: null when the resource does not exist,
+  // undefined when it could not be inspected
+  const inspect = async (
+    provider: ProviderName,
+    tool: string,
+    args: Record<string, unknown>,
+    resource: string
+  ): Promise<Record<string, any> | null | undefined> => {
+    const runner = runners[provider]
+    if (!runner) {
+      unchecked.push({ resource, reason: `no ${provider} server configured` })
+      return undefined
+    }
+    try {
+      const result = await runner.callTool(tool, args)
+      const parsed = parseToolResult(result)
+      if (!result.isError) return parsed
+
+      const error = parsed.error as { kind?: string; message?: string } | undefined
+      if (error?.kind === 'not_found') return null
+      unchecked.push({ resource, reason: error?.message || 'Tool call failed' })
+    } catch (err) {
+      unchecked.push({ resource, reason: toProviderError(err, provider).message })
+    }
+    return undefined
+  }
+
+  // Database branches have a project of their own, inspected the same way
+  for (const step of [...recordedSteps('create_project', 'supabase'), ...recordedSteps('create_branch', 'supabase')]) {
+    const projectRef = String(recorded[step.id].outputs.project_ref)
+    const resource = step.tool === 'create_branch'
+      ? `Supabase branch ${recorded[step.id].outputs.branch_name ?? step.environment} (${projectRef})`
+      : `Supabase project ${projectRef}`
+    const environment = step.environment ? { environment: step.environment } : {}
+
+    const expectedProviders = new Map<string, string | undefined>(
+      (options.authProviders || []).map(provider => [provider, undefined])
+    )
+    for (const authStep of recordedSteps('configure_auth_provider', 'supabase')) {
+      const args = argsOf(authStep)
+      if (args?.project_ref === projectRef) {
+        expectedProviders.set(String(args.provider), authStep.id)
+      }
+    }
+
+    const project = await inspect(
+      'supabase',
+      'get_project_info',
+      { project_ref: projectRef, include_auth_providers: expectedProviders.size > 0 },
+      resource
+    )
+    if (project === null) {
+      items.push({
+        category: 'project',
+        kind: 'missing',
+        resource,
+        step: step.id,
+        ...environment,
+        remediation: step.tool === 'create_branch'
+          ? 'The branch was deleted. Forget it with shipme destroy --env, then provision the environment again'
+          : 'The project was deleted. Run the plan with --fresh to create it again, then redeploy'
+      })
+      continue
+    }
+    if (!project) continue
+
+    if (project.status !== HEALTHY_PROJECT_STATUS) {
+      items.push({
+        category: 'project',
+        kind: 'changed',
+        resource: `${resource} status`,
+        expected: HEALTHY_PROJECT_STATUS,
+        actual: project.status,
+        step: step.id,
+        ...environment,
+        remediation: project.status === 'INACTIVE'
+          ? 'The project is paused. Restore it from the Supabase dashboard'
+          : 'Check the project in the Supabase dashboard'
+      })
+    }
+
+    const enabled = new Set<string>(project.auth_providers || [])
+    for (const [provider, stepId] of expectedProviders) {
+      if (!enabled.has(provider)) {
+        items.push({
+          category: 'auth_provider',
+          kind: 'missing',
+          resource: `${resource} auth provider ${provider}`,
+          expected: 'enabled',
+          actual: 'disabled',
+          step: stepId,
+          ...environment,
+          remediation: `Enable it again with supabase.configure_auth_provider (provider: "${provider}")`
+        })
+      }
+    }
+  }
+
+  for (const step of plan.steps.filter(candidate => recorded[candidate.id])) {
+    const hosting = HOSTING[`${step.provider}.${step.tool}`]
+    if (!hosting) continue
+
+    const siteId = String(recorded[step.id].outputs[hosting.idField])
+    const resource = `${step.provider} ${hosting.noun} ${siteId}`
+
+    const site = await inspect(
+      step.provider,
+      hosting.infoTool,
+      { [hosting.idField]: siteId, include_env_vars: true },
+      resource
+    )
+    if (site === null) {
+      items.push({
+        category: 'site',
+        kind: 'missing',
+        resource,
+        step: step.id,
+        remediation: `The ${hosting.noun} was deleted. Run the plan with --fresh to create it again and redeploy`
+      })
+      continue
+    }
+    if (!site) continue
+
+    const expectedBuild = (recorded[step.id].outputs.build_settings || {}) as Record<string, unknown>
+    const liveBuild = (site.build_settings || {}) as Record<string, unknown>
+    for (const field of hosting.buildSettings) {
+      if (field in expectedBuild && expectedBuild[field] !== liveBuild[field]) {
+        items.push({
+          category: 'build_settings',
+          kind: 'changed',
+          resource: `${resource} build setting ${field}`,
+          expected: expectedBuild[field],
+          actual: liveBuild[field],
+          step: step.id,
+          remediation: `Restore it in the ${hosting.noun}'s build settings if the change was not intended`
+        })
+      }
+    }
+
+    // Env vars as seen by each deploy context, fetched once per context
+    const liveEnvByScope = new Map<string, Record<string, string> | undefined>([
+      ['{}', (site.env_vars || {}) as Record<string, string>]
+    ])
+    for (const envStep of recordedSteps('configure_env_vars', step.provider)) {
+      const args = argsOf(envStep)
+      if (!args || args[hosting.idField] !== siteId) continue
+
+      const scope = hosting.envScope(args)
+      const where = Object.values(scope).join(' ')
+      const scopeKey = JSON.stringify(scope)
+      if (!liveEnvByScope.has(scopeKey)) {
+        const scopedSite = await inspect(
+          step.provider,
+          hosting.infoTool,
+          { [hosting.idField]: siteId, include_env_vars: true, ...scope },
+          `${resource} env (${where})`
+        )
+        liveEnvByScope.set(scopeKey, scopedSite ? (scopedSite.env_vars || {}) as Record<string, string> : undefined)
+      }
+      const liveEnv = liveEnvByScope.get(scopeKey)
+      if (!liveEnv) continue
+
+      for (const [key, value] of Object.entries((args.env_vars || {}) as Record<string, unknown>)) {
+        const envResource = `${resource} env ${key}${where ? ` (${where})` : ''}`
+        let expected: string
+        try {
+          expected = hashSecret(String(await resolveSecrets(value)))
+        } catch (error) {
+          unchecked.push({ resource: envResource, reason: toProviderError(error, step.provider).message })
+          continue
+        }
+
+        const actual = liveEnv[key]
+        if (actual === expected) continue
+        items.push({
+          category: 'env_var',
+          kind: actual === undefined ? 'missing' : 'changed',
+          resource: envResource,
+          expected,
+          ...(actual === undefined ? {} : { actual }),
+          step: envStep.id,
+          ...(envStep.environment ? { environment: envStep.environment } : {}),
+          remediation: `Set it again with ${step.provider}.configure_env_vars (${hosting.idField}: "${siteId}", as in step ${envStep.id}), then redeploy`
+        })
+      }
+    }
+  }
+
+  // One list_secrets call per repository
+  const secretsByRepo = new Map<string, Array<{ step: PlanStep; name: string }>>()
+  for (const step of recordedSteps('create_secret', 'github')) {
+    const args = argsOf(step)
+    if (!args) continue
+    const repository = `${args.owner}/${args.repo}`
+    secretsByRepo.set(repository, [...(secretsByRepo.get(repository) || []), { step, name: String(args.secret_name) }])
+  }
+
+  for (const [repository, expectedSecrets] of secretsByRepo) {
+    const [owner, repo] = repository.split('/')
+    const listed = await inspect('github', 'list_secrets', { owner, repo }, `repository ${repository}`)
+    if (listed === null) {
+      items.push({
+        category: 'repo_secret',
+        kind: 'missing',
+        resource: `repository ${repository}`,
+        step: expectedSecrets[0].step.id,
+        remediation: 'The repository is gone or the token can no longer access it'
+      })
+      continue
+    }
+    if (!listed) continue
+
+    const live = new Map<string, { updated_at: string }>(
+      (listed.secrets || []).map((secret: { name: string; updated_at: string }) => [secret.name, secret])
+    )
+    for (const { step, name } of expectedSecrets) {
+      const secret = live.get(name)
+      const completedAt = recorded[step.id].completedAt
+      if (!secret) {
+        items.push({
+          category: 'repo_secret',
+          kind: 'missing',
+          resource: `${repository} secret ${name}`,
+          step: step.id,
+          ...(step.environment ? { environment: step.environment } : {}),
+          remediation: `Add it again with github.create_secret (as in step ${step.id})`
+        })
+      } else if (Date.parse(secret.updated_at) > Date.parse(completedAt)) {
+        items.push({
+          category: 'repo_secret',
+          kind: 'changed',
+          resource: `${repository} secret ${name}`,
+          expected: `set at ${completedAt}`,
+          actual: `updated at ${secret.updated_at}`,
+          step: step.id,
+          ...(step.environment ? { environment: step.environment } : {}),
+          remediation: `It was overwritten after provisioning. If that was not intended, set it again with github.create_secret (as in step ${step.id})`
+        })
+      }
+    }
+  }
+
+  logger.info('drift check finished', { drifted: items.length, unchecked: unchecked.length })
+
+  return {
+    drifted: items.length > 0,
+    checkedAt: new Date().toISOString(),
+    items,
+    unchecked
+  }
+}
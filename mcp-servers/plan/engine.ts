@@ -0,0 +1,226 @@
+import type {
+  ExecutePlanOptions,
+  Plan,
+  PlanRunResult,
+  PlanStep,
+  ProviderName,
+  StepResult,
+  ToolCallResult,
+  ToolRunners
+} from './types.js'
+import { STEP_REFERENCE_PATTERN, validatePlan } from './plan.js'
+import { ValidationError, toProviderError } from '../shared/errors.js'
+import { createLogger } from '../shared/logger.js'
+
+/**
+ * Plan executor
+ *
+ * Runs plan steps against the servers' in-process callTool as soon as their
+ * dependencies have succeeded, so independent steps run in parallel. A failed
+ * step skips its dependents but not unrelated steps; a provider reporting
+ * provider_down skips that provider's remaining steps. With a state store,
+ * steps that succeeded in an earlier run with the same inputs are not repeated.
+ */
+
+const logger = createLogger('plan')
+
+function outputAt(outputs: Record<string, unknown>, field: string): unknown {
+  return field.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    outputs
+  )
+}
+
+/**
+ * Replace {{steps.<id>.outputs.<field>}} references with step outputs. A string
+ * that is exactly one reference takes the output's value as is.
+ */
+export function resolveStepReferences<T>(value: T, outputs: Map<string, Record<string, unknown>>): T {
+  const lookup = (stepId: string, field: string): unknown => {
+    const resolved = outputAt(outputs.get(stepId) || {}, field)
+    if (resolved === undefined || resolved === null || resolved === '') {
+      throw new ValidationError(`Step '${stepId}' has no output '${field}'`)
+    }
+    return resolved
+  }
+
+  if (typeof value === 'string') {
+    const whole = new RegExp(`^${STEP_REFERENCE_PATTERN.source}$`).exec(value)
+    if (whole) {
+      return lookup(whole[1], whole[2]) as T
+    }
+    return value.replace(STEP_REFERENCE_PATTERN, (_match, stepId: string, field: string) =>
+      String(lookup(stepId, field))
+    ) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveStepReferences(item, outputs)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveStepReferences(item, outputs)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * The JSON object a tool returned as text
+ */
+export function parseToolResult(result: ToolCallResult): Record<string, unknown> {
+  const text = result.content.find(item => item.type === 'text')?.text
+  if (!text) return {}
+  try {
+    return JSON.parse(text) as Record<string, unknown>
+  } catch {
+    return { text }
+  }
+}
+
+/**
+ * Execute a plan. Never throws for step failures; inspect the step results.
+ */
+export async function executePlan(
+  plan: Plan,
+  runners: ToolRunners,
+  options: ExecutePlanOptions = {}
+): Promise<PlanRunResult> {
+  validatePlan(plan)
+
+  const concurrency = options.concurrency ?? Infinity
+  const outputs = new Map<string, Record<string, unknown>>()
+  const results = new Map<string, StepResult>()
+  const downProviders = new Set<ProviderName>()
+  const pending = new Set(plan.steps.map(step => step.id))
+  const running = new Map<string, Promise<void>>()
+
+  const finish = (result: StepResult): void => {
+    results.set(result.id, result)
+    options.onStepFinish?.(result)
+    logger.info('plan step finished', {
+      step: result.id,
+      status: result.status,
+      durationMs: result.durationMs,
+      ...(result.reused ? { reused: true } : {}),
+      ...(result.error ? { error: result.error } : {}),
+      ...(result.reason ? { reason: result.reason } : {})
+    })
+  }
+
+  const skip = (step: PlanStep, reason: string): void => {
+    pending.delete(step.id)
+    finish({ id: step.id, provider: step.provider, tool: step.tool, status: 'skipped', reason, durationMs: 0 })
+  }
+
+  const run = async (step: PlanStep): Promise<void> => {
+    const startedAt = Date.now()
+    options.onStepStart?.(step)
+    logger.info('plan step started', { step: step.id, provider: step.provider, tool: step.tool })
+
+    try {
+      const args = resolveStepReferences(step.args, outputs)
+
+      const recorded = options.state?.get(step, args)
+      if (recorded && (options.reuseOutputs?.(step, recorded.outputs) ?? true)) {
+        outputs.set(step.id, recorded.outputs)
+        finish({
+          id: step.id,
+          provider: step.provider,
+          tool: step.tool,
+          status: 'succeeded',
+          outputs: recorded.outputs,
+          reused: true,
+          durationMs: Date.now() - startedAt
+        })
+        return
+      }
+
+      const result = await runners[step.provider]!.callTool(step.tool, args)
+      const parsed = parseToolResult(result)
+
+      if (result.isError) {
+        const error = parsed.error as StepResult['error']
+        if (error?.kind === 'provider_down') {
+          downProviders.add(step.provider)
+        }
+        finish({
+          id: step.id,
+          provider: step.provider,
+          tool: step.tool,
+          status: 'failed',
+          error: error || { kind: 'internal', message: 'Tool call failed' },
+          durationMs: Date.now() - startedAt
+        })
+        return
+      }
+
+      outputs.set(step.id, parsed)
+      options.state?.record(step, args, parsed)
+      finish({
+        id: step.id,
+        provider: step.provider,
+        tool: step.tool,
+        status: 'succeeded',
+        outputs: parsed,
+        durationMs: Date.now() - startedAt
+      })
+    } catch (err) {
+      const error = toProviderError(err, step.provider)
+      finish({
+        id: step.id,
+        provider: step.provider,
+        tool: step.tool,
+        status: 'failed',
+        error: { kind: error.kind, message: error.message, retryable: error.retryable },
+        durationMs: Date.now() - startedAt
+      })
+    }
+  }
+
+  const schedule = (): void => {
+    // Repeat until no more steps can be skipped, as skips cascade to dependents
+    let changed = true
+    while (changed) {
+      changed = false
+      for (const step of plan.steps) {
+        if (!pending.has(step.id)) continue
+
+        const blocked = step.dependsOn.find(id => {
+          const status = results.get(id)?.status
+          return status === 'failed' || status === 'skipped'
+        })
+        if (blocked) {
+          skip(step, `dependency '${blocked}' did not succeed`)
+          changed = true
+        } else if (!runners[step.provider]) {
+          skip(step, `no ${step.provider} server configured`)
+          changed = true
+        } else if (downProviders.has(step.provider)) {
+          skip(step, `${step.provider} is unavailable`)
+          changed = true
+        }
+      }
+    }
+
+    for (const step of plan.steps) {
+      if (running.size >= concurrency) return
+      if (!pending.has(step.id)) continue
+      if (!step.dependsOn.every(id => results.get(id)?.status === 'succeeded')) continue
+
+      pending.delete(step.id)
+      running.set(step.id, run(step).finally(() => running.delete(step.id)))
+    }
+  }
+
+  schedule()
+  while (running.size > 0) {
+    await Promise.race(running.values())
+    schedule()
+  }
+
+  const steps = plan.steps.map(step => results.get(step.id)!)
+  return {
+    success: steps.every(step => step.status === 'succeeded'),
+    steps
+  }
+}
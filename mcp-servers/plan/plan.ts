@@ -0,0 +1,386 @@
+import type { BuildPlanOptions, Plan, PlanStep, ProjectConfig, ProviderName } from './types.js'
+import { ValidationError } from '../shared/errors.js'
+import { PRODUCTION_ENVIRONMENT, projectEnvironments } from '../shared/project-config.js'
+import type { ProjectEnvironment, SupportedHosting } from '../shared/project-config.js'
+
+/**
+ * Plan builder
+ *
+ * Turns .shipme/project.json into the provisioning steps that
+ * .shipme/claude-instructions.md describes in prose: Supabase project,
+ * migrations, hosting site, environment variables, GitHub secrets, deploy.
+ *
+ * Each environment in project.json gets its own database (a branch of the
+ * production project or a project of its own), migrations and hosting env
+ * vars scoped to its deploys; the hosting site is shared. Production steps
+ * keep their plain IDs, the others get the environment as a suffix
+ * (hosting_env_vars_staging).
+ */
+
+export const STEP_REFERENCE_PATTERN = /\{\{\s*steps\.([\w-]+)\.outputs\.([\w.-]+)\s*\}\}/g
+
+interface HostingPlatform {
+  provider: ProviderName
+  /** Tool creating the site/project, and the output field holding its ID */
+  createTool: string
+  idField: string
+  deployTool: string
+  /** Deploys build from the linked repository, so there is no deploy without one */
+  deploysFromGit: boolean
+  /** configure_env_vars arguments limiting the values to one environment's deploys */
+  envScope: (environment: ProjectEnvironment) => Record<string, unknown>
+}
+
+/**
+ * Netlify deploy contexts of the environments with a fixed meaning; the others
+ * are branch deploys
+ */
+const NETLIFY_CONTEXTS: Record<string, string> = {
+  production: 'production',
+  preview: 'deploy-preview',
+  development: 'dev'
+}
+
+/**
+ * Vercel has exactly these environments; the others are previews of a branch
+ */
+const VERCEL_ENVIRONMENTS = ['production', 'preview', 'development']
+
+/**
+ * Hosting platforms the project.json schema accepts, mapped to the server that
+ * provisions them
+ */
+const HOSTING_PLATFORMS: Record<SupportedHosting, HostingPlatform> = {
+  Netlify: {
+    provider: 'netlify',
+    createTool: 'create_site',
+    idField: 'site_id',
+    deployTool: 'deploy_site',
+    deploysFromGit: false,
+    envScope: environment => NETLIFY_CONTEXTS[environment.name]
+      ? { context: NETLIFY_CONTEXTS[environment.name] }
+      : { context: 'branch', branch: environment.branch }
+  },
+  Vercel: {
+    provider: 'vercel',
+    createTool: 'create_project',
+    idField: 'project_id',
+    deployTool: 'deploy',
+    deploysFromGit: true,
+    envScope: environment => VERCEL_ENVIRONMENTS.includes(environment.name)
+      ? { target: [environment.name] }
+      : { target: ['preview'], git_branch: environment.branch }
+  }
+}
+
+export function stepOutput(stepId: string, field: string): string {
+  return `{{steps.${stepId}.outputs.${field}}}`
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/**
+ * ID of a step for an environment: production keeps the plain ID
+ */
+export function environmentStepId(id: string, environment: string): string {
+  return environment === PRODUCTION_ENVIRONMENT ? id : `${id}_${environment.replace(/-/g, '_')}`
+}
+
+function hostingPlatform(config: ProjectConfig): HostingPlatform {
+  const hosting = config.stack?.hosting
+  const platform = HOSTING_PLATFORMS[hosting || 'Netlify']
+  if (!platform) {
+    throw new ValidationError(`stack.hosting: "${hosting}" has no provisioning server`)
+  }
+  return platform
+}
+
+/**
+ * Build the provisioning plan for a project
+ */
+export function buildPlan(config: ProjectConfig, options: BuildPlanOptions = {}): Plan {
+  if (!config.name) {
+    throw new ValidationError('project.json must have a name')
+  }
+
+  const slug = slugify(config.name)
+  const hosting = hostingPlatform(config)
+  const siteId = stepOutput('hosting_site', hosting.idField)
+  const environments = projectEnvironments(config)
+  // With production alone, env values apply to every deploy as they always did
+  const scoped = environments.length > 1
+  const steps: PlanStep[] = []
+
+  let owner: string | undefined
+  let repo: string | undefined
+  if (options.repository) {
+    [owner, repo] = options.repository.split('/')
+    if (!owner || !repo) {
+      throw new ValidationError(`Repository must be "owner/repo", got "${options.repository}"`)
+    }
+  }
+
+  // Database and migrations of each environment; returns the last migration
+  const addDatabase = (environment: ProjectEnvironment): string | undefined => {
+    const name = environment.name
+    const database = environmentStepId('supabase_project', name)
+    if (name === PRODUCTION_ENVIRONMENT) {
+      steps.push({
+        id: database,
+        provider: 'supabase',
+        tool: 'create_project',
+        description: 'Create the Supabase project',
+        dependsOn: [],
+        environment: name,
+        args: { name: `${slug}-db`, region: options.region || 'us-east-1', ensure: true }
+      })
+    } else if (environment.database === 'branch') {
+      steps.push({
+        id: database,
+        provider: 'supabase',
+        tool: 'create_branch',
+        description: `Create the ${name} database branch`,
+        dependsOn: ['supabase_project'],
+        environment: name,
+        args: {
+          project_ref: stepOutput('supabase_project', 'project_ref'),
+          branch_name: name,
+          ...(environment.branch ? { git_branch: environment.branch } : {}),
+          ensure: true
+        }
+      })
+    } else {
+      steps.push({
+        id: database,
+        provider: 'supabase',
+        tool: 'create_project',
+        description: `Create the ${name} Supabase project`,
+        dependsOn: [],
+        environment: name,
+        args: { name: `${slug}-db-${name}`, region: options.region || 'us-east-1', environment: name, ensure: true }
+      })
+    }
+
+    // Migrations run one after another, in file order
+    let lastMigration: string | undefined
+    for (const migration of options.migrations || []) {
+      const id = environmentStepId(`migration_${slugify(migration.name).replace(/-/g, '_')}`, name)
+      steps.push({
+        id,
+        provider: 'supabase',
+        tool: 'execute_sql',
+        description: name === PRODUCTION_ENVIRONMENT
+          ? `Run migration ${migration.name}`
+          : `Run migration ${migration.name} on ${name}`,
+        dependsOn: lastMigration ? [database, lastMigration] : [database],
+        environment: name,
+        args: { project_ref: stepOutput(database, 'project_ref'), sql: migration.sql }
+      })
+      lastMigration = id
+    }
+    return lastMigration
+  }
+
+  const addEnvVars = (environment: ProjectEnvironment): void => {
+    const name = environment.name
+    const database = environmentStepId('supabase_project', name)
+    steps.push({
+      id: environmentStepId('hosting_env_vars', name),
+      provider: hosting.provider,
+      tool: 'configure_env_vars',
+      description: name === PRODUCTION_ENVIRONMENT
+        ? 'Configure Supabase environment variables on the hosting site'
+        : `Configure the ${name} Supabase environment variables on the hosting site`,
+      dependsOn: [database, 'hosting_site'],
+      environment: name,
+      args: {
+        [hosting.idField]: siteId,
+        ...(scoped ? hosting.envScope(environment) : {}),
+        env_vars: {
+          NEXT_PUBLIC_SUPABASE_URL: stepOutput(database, 'url'),
+          NEXT_PUBLIC_SUPABASE_ANON_KEY: stepOutput(database, 'anon_key'),
+          SUPABASE_SERVICE_ROLE_KEY: stepOutput(database, 'service_role_key')
+        }
+      }
+    })
+  }
+
+  const [production, ...others] = environments
+  const lastMigration = addDatabase(production)
+
+  steps.push({
+    id: 'hosting_site',
+    provider: hosting.provider,
+    tool: hosting.createTool,
+    description: 'Create the hosting site',
+    dependsOn: [],
+    args: {
+      name: slug,
+      ...(hosting.deploysFromGit && options.repository ? { repo: options.repository } : {}),
+      ensure: true
+    }
+  })
+
+  addEnvVars(production)
+
+  for (const environment of others) {
+    addDatabase(environment)
+    if (owner && repo && environment.branch) {
+      steps.push({
+        id: environmentStepId('git_branch', environment.name),
+        provider: 'github',
+        tool: 'create_branch',
+        description: `Create the ${environment.branch} branch ${environment.name} deploys from`,
+        dependsOn: [],
+        environment: environment.name,
+        args: { owner, repo, branch: environment.branch }
+      })
+    }
+    addEnvVars(environment)
+  }
+
+  // Actions secrets and the deploy are production's
+  if (owner && repo) {
+    const secrets: Record<string, string> = {
+      SUPABASE_URL: 'url',
+      SUPABASE_ANON_KEY: 'anon_key',
+      SUPABASE_SERVICE_ROLE_KEY: 'service_role_key'
+    }
+    for (const [secretName, field] of Object.entries(secrets)) {
+      steps.push({
+        id: `github_secret_${secretName.toLowerCase()}`,
+        provider: 'github',
+        tool: 'create_secret',
+        description: `Add ${secretName} to ${options.repository}`,
+        dependsOn: ['supabase_project'],
+        environment: PRODUCTION_ENVIRONMENT,
+        args: { owner, repo, secret_name: secretName, secret_value: stepOutput('supabase_project', field) }
+      })
+    }
+  }
+
+  if (!hosting.deploysFromGit || options.repository) {
+    steps.push({
+      id: 'deploy',
+      provider: hosting.provider,
+      tool: hosting.deployTool,
+      description: 'Deploy the site',
+      dependsOn: lastMigration ? ['hosting_env_vars', lastMigration] : ['hosting_env_vars'],
+      environment: PRODUCTION_ENVIRONMENT,
+      args: { [hosting.idField]: siteId }
+    })
+  }
+
+  const plan = { project: config.name, steps }
+  validatePlan(plan)
+  return plan
+}
+
+/**
+ * Names of the environments a plan provisions, production first
+ */
+export function planEnvironments(plan: Plan): string[] {
+  return Array.from(new Set(plan.steps.flatMap(step => (step.environment ? [step.environment] : []))))
+}
+
+/**
+ * The part of a plan one environment needs: its own steps and the shared or
+ * production steps they depend on (the hosting site, the parent project)
+ */
+export function selectEnvironment(plan: Plan, environment: string): Plan {
+  const steps = new Map(plan.steps.map(step => [step.id, step]))
+  const selected = new Set<string>()
+  const select = (id: string): void => {
+    if (selected.has(id)) return
+    selected.add(id)
+    steps.get(id)?.dependsOn.forEach(select)
+  }
+  plan.steps.filter(step => step.environment === environment).forEach(step => select(step.id))
+
+  if (selected.size === 0) {
+    throw new ValidationError(`No environment named "${environment}" (project.json has ${planEnvironments(plan).join(', ')})`)
+  }
+  return { project: plan.project, steps: plan.steps.filter(step => selected.has(step.id)) }
+}
+
+function collectStepReferences(value: unknown, found: Set<string>): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(STEP_REFERENCE_PATTERN)) {
+      found.add(match[1])
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStepReferences(item, found))
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectStepReferences(item, found))
+  }
+}
+
+/**
+ * Check that step IDs are unique, dependencies exist and are acyclic, and every
+ * step reference points at a direct or transitive dependency. Reports all
+ * problems at once.
+ */
+export function validatePlan(plan: Plan): void {
+  const problems: string[] = []
+  const steps = new Map<string, PlanStep>()
+
+  for (const step of plan.steps) {
+    if (steps.has(step.id)) {
+      problems.push(`duplicate step id '${step.id}'`)
+    }
+    steps.set(step.id, step)
+  }
+
+  for (const step of plan.steps) {
+    for (const dependency of step.dependsOn) {
+      if (!steps.has(dependency)) {
+        problems.push(`step '${step.id}' depends on unknown step '${dependency}'`)
+      }
+    }
+  }
+
+  // Every referenced step must finish first: a direct or transitive dependency
+  const ancestors = (id: string, seen = new Set<string>()): Set<string> => {
+    for (const dependency of steps.get(id)?.dependsOn || []) {
+      if (!seen.has(dependency)) {
+        seen.add(dependency)
+        ancestors(dependency, seen)
+      }
+    }
+    return seen
+  }
+  for (const step of plan.steps) {
+    const referenced = new Set<string>()
+    collectStepReferences(step.args, referenced)
+    const dependencies = ancestors(step.id)
+    for (const id of referenced) {
+      if (!dependencies.has(id)) {
+        problems.push(`step '${step.id}' references outputs of '${id}' without depending on it`)
+      }
+    }
+  }
+
+  // Depth-first search for dependency cycles
+  const visiting = new Set<string>()
+  const done = new Set<string>()
+  const visit = (id: string, trail: string[]): void => {
+    if (done.has(id) || !steps.has(id)) return
+    if (visiting.has(id)) {
+      problems.push(`dependency cycle: ${[...trail.slice(trail.indexOf(id)), id].join(' -> ')}`)
+      return
+    }
+    visiting.add(id)
+    for (const dependency of steps.get(id)!.dependsOn) {
+      visit(dependency, [...trail, id])
+    }
+    visiting.delete(id)
+    done.add(id)
+  }
+  plan.steps.forEach(step => visit(step.id, []))
+
+  if (problems.length > 0) {
+    throw new ValidationError(`Invalid plan: ${problems.join('; ')}`)
+  }
+}
@@ -0,0 +1,115 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import type { PlanStep, ProviderName } from './types.js'
+
+/**
+ * Provisioning state store
+ *
+ * Records the outputs of every step that succeeded (IDs, URLs, {{secrets.*}}
+ * references) in a JSON file, by default .shipme/state.json, so a failed run
+ * can continue where it stopped instead of creating duplicates. A step is only
+ * reused while its provider, tool and resolved arguments are unchanged, so a
+ * step whose inputs came from a re-created resource runs again.
+ */
+
+export interface StepRecord {
+  provider: ProviderName
+  tool: string
+  /** Hash of provider, tool and resolved arguments the outputs were produced with */
+  fingerprint: string
+  outputs: Record<string, unknown>
+  completedAt: string
+}
+
+export interface ProvisioningStateFile {
+  version: 1
+  project: string
+  updatedAt: string
+  steps: Record<string, StepRecord>
+}
+
+export const DEFAULT_STATE_FILE = '.shipme/state.json'
+
+export function stepFingerprint(step: PlanStep, args: Record<string, unknown>): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([step.provider, step.tool, args]))
+    .digest('hex')
+}
+
+export class ProvisioningState {
+  private constructor(private filePath: string, private data: ProvisioningStateFile) {}
+
+  /**
+   * Load the state file, or start empty when it does not exist or belongs to
+   * another project
+   */
+  static load(filePath: string, project: string): ProvisioningState {
+    let data: ProvisioningStateFile | undefined
+    if (fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ProvisioningStateFile
+      if (parsed.version === 1 && parsed.project === project) {
+        data = parsed
+      }
+    }
+    return data ? new ProvisioningState(filePath, data) : ProvisioningState.empty(filePath, project)
+  }
+
+  /**
+   * Start over, replacing the state file on the first recorded step
+   */
+  static empty(filePath: string, project: string): ProvisioningState {
+    return new ProvisioningState(filePath, {
+      version: 1,
+      project,
+      updatedAt: new Date().toISOString(),
+      steps: {}
+    })
+  }
+
+  /**
+   * Recorded outputs for a step, if it succeeded earlier with the same arguments
+   */
+  get(step: PlanStep, args: Record<string, unknown>): StepRecord | undefined {
+    const record = this.data.steps[step.id]
+    return record && record.fingerprint === stepFingerprint(step, args) ? record : undefined
+  }
+
+  /**
+   * Record a succeeded step and write the file (atomically)
+   */
+  record(step: PlanStep, args: Record<string, unknown>, outputs: Record<string, unknown>): void {
+    this.data.steps[step.id] = {
+      provider: step.provider,
+      tool: step.tool,
+      fingerprint: stepFingerprint(step, args),
+      outputs,
+      completedAt: new Date().toISOString()
+    }
+    this.save()
+  }
+
+  /**
+   * Forget a step, e.g. after its resource was deleted
+   */
+  forget(stepId: string): void {
+    if (stepId in this.data.steps) {
+      delete this.data.steps[stepId]
+      this.save()
+    }
+  }
+
+  getSteps(): Record<string, StepRecord> {
+    return { ...this.data.steps }
+  }
+
+  private save(): void {
+    this.data.updatedAt = new Date().toISOString()
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`
+    // Owner-only, like the sealed vault: outputs can hold plaintext credentials
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2) + '\n', { mode: 0o600 })
+    fs.renameSync(tmpPath, this.filePath)
+  }
+}
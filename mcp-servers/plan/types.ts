@@ -0,0 +1,170 @@
+/**
+ * ShipMe Plan Engine - Type Definitions
+ */
+
+import type { ProvisioningState } from './state.js'
+import type { ProjectConfig } from '../shared/project-config.js'
+
+export type { ProjectConfig }
+
+export type ProviderName = 'supabase' | 'netlify' | 'vercel' | 'github'
+
+export interface Migration {
+  /** File name without extension, e.g. 001_init */
+  name: string
+  sql: string
+}
+
+export interface BuildPlanOptions {
+  /** Supabase region (defaults to us-east-1) */
+  region?: string
+  /** SQL migrations, run in order after the Supabase project is created */
+  migrations?: Migration[]
+  /** "owner/repo" to receive the Supabase credentials as Actions secrets */
+  repository?: string
+}
+
+/**
+ * One tool call in a plan. String arguments may contain
+ * {{steps.<id>.outputs.<field>}} references to the outputs of steps listed in
+ * dependsOn, and {{secrets.<name>}} references resolved by the server's vault.
+ */
+export interface PlanStep {
+  id: string
+  provider: ProviderName
+  tool: string
+  description: string
+  dependsOn: string[]
+  /** Environment the step provisions for; unset for resources all environments share */
+  environment?: string
+  args: Record<string, unknown>
+}
+
+export interface Plan {
+  project: string
+  steps: PlanStep[]
+}
+
+/**
+ * MCP tool result as returned by the servers' callTool
+ */
+export interface ToolCallResult {
+  isError?: boolean
+  content: Array<{ type: string; text: string }>
+}
+
+export interface ToolRunner {
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolCallResult>
+}
+
+export type ToolRunners = Partial<Record<ProviderName, ToolRunner>>
+
+export type StepStatus = 'succeeded' | 'failed' | 'skipped'
+
+export interface StepResult {
+  id: string
+  provider: ProviderName
+  tool: string
+  status: StepStatus
+  /** Parsed tool result (succeeded steps) */
+  outputs?: Record<string, unknown>
+  /** True when the outputs were taken from the state file of an earlier run */
+  reused?: boolean
+  /** Tool error (failed steps) */
+  error?: {
+    kind: string
+    message: string
+    retryable?: boolean
+  }
+  /** Why the step did not run (skipped steps) */
+  reason?: string
+  durationMs: number
+}
+
+export interface ExecutePlanOptions {
+  /** Maximum number of steps running at once (defaults to unlimited) */
+  concurrency?: number
+  /** State of earlier runs: unchanged succeeded steps are reused, new successes recorded */
+  state?: ProvisioningState
+  /** Whether recorded outputs are still usable, e.g. their secrets are in the vault (defaults to yes) */
+  reuseOutputs?: (step: PlanStep, outputs: Record<string, unknown>) => boolean
+  onStepStart?: (step: PlanStep) => void
+  onStepFinish?: (result: StepResult) => void
+}
+
+export interface PlanRunResult {
+  success: boolean
+  steps: StepResult[]
+}
+
+export type TeardownStatus = 'removed' | 'nothing_to_remove' | 'planned' | 'failed' | 'skipped'
+
+export interface TeardownResult {
+  /** ID of the plan step whose resources are removed */
+  id: string
+  provider: ProviderName
+  /** Teardown tool called, if the step created anything */
+  tool?: string
+  status: TeardownStatus
+  /** Parsed tool result (removed steps, or the preview in a dry run) */
+  outputs?: Record<string, unknown>
+  error?: StepResult['error']
+  /** Why the step was not torn down (skipped steps) */
+  reason?: string
+  durationMs: number
+}
+
+export interface DestroyPlanOptions {
+  /** Preview the teardown calls without deleting anything or changing the state */
+  dryRun?: boolean
+  /** Only tear down the steps of this environment */
+  environment?: string
+  onStepFinish?: (result: TeardownResult) => void
+}
+
+export interface DestroyResult {
+  success: boolean
+  steps: TeardownResult[]
+  /** Steps still recorded in the state afterwards, i.e. resources that may still exist */
+  remaining: string[]
+}
+
+export type DriftCategory = 'project' | 'auth_provider' | 'site' | 'build_settings' | 'env_var' | 'repo_secret'
+
+/**
+ * missing: recorded resource or setting is gone; changed: it differs from what
+ * was provisioned
+ */
+export type DriftKind = 'missing' | 'changed'
+
+export interface DriftItem {
+  category: DriftCategory
+  kind: DriftKind
+  /** What drifted, e.g. "site abc123 env NEXT_PUBLIC_SUPABASE_URL" */
+  resource: string
+  /** Provisioned value; secrets and env values as sha256 fingerprints */
+  expected?: unknown
+  /** Live value, in the same form as expected */
+  actual?: unknown
+  /** Plan step that provisioned it */
+  step?: string
+  /** Environment the resource belongs to; unset for shared resources */
+  environment?: string
+  /** Suggested fix */
+  remediation: string
+}
+
+export interface DriftReport {
+  drifted: boolean
+  checkedAt: string
+  items: DriftItem[]
+  /** Resources that could not be inspected, e.g. no server configured or an API error */
+  unchecked: Array<{ resource: string; reason: string }>
+}
+
+export interface DetectDriftOptions {
+  /** Auth providers expected to be enabled besides those configured by plan steps */
+  authProviders?: string[]
+  /** Resolves {{secrets.*}} references in expected values before they are fingerprinted */
+  resolveSecrets?: <T>(value: T) => Promise<T>
+}
@@ -0,0 +1,184 @@
+import fs from 'fs'
+import path from 'path'
+import { createLogger } from './logger.js'
+
+/**
+ * Cassette - record/replay harness for provider HTTP traffic
+ *
+ * Wraps a fetch implementation so every exchange made by fetchWithRetrySupport,
+ * raw fetch calls and Octokit is either captured into a redacted cassette file
+ * (record mode) or served back from one deterministically (replay mode).
+ * Servers pick it up through their injectable `fetch` config option.
+ */
+
+export type CassetteMode = 'record' | 'replay'
+
+export interface CassetteInteraction {
+  request: {
+    method: string
+    url: string
+    body?: string
+  }
+  response: {
+    status: number
+    headers: Record<string, string>
+    body: string
+  }
+}
+
+export interface Cassette {
+  version: 1
+  recordedAt: string
+  interactions: CassetteInteraction[]
+}
+
+export class CassetteMismatchError extends Error {
+  constructor(method: string, url: string, cassettePath: string) {
+    super(`No unplayed interaction for ${method} ${url} in cassette ${cassettePath}`)
+    this.name = 'CassetteMismatchError'
+  }
+}
+
+type FetchInput = Parameters<typeof fetch>[0]
+
+const REDACTED = '[REDACTED]'
+
+/**
+ * JSON fields whose values never belong in a cassette (api_key covers the
+ * Supabase anon/service_role keys returned as [{ name, api_key }])
+ */
+const SECRET_FIELD_PATTERN = /pass|secret|token|api_key|apikey|private_key|authorization|encrypted_value/i
+
+/**
+ * Response headers that are dropped: volatile, sensitive, or describing the wire
+ * encoding of a body that is stored decoded (and possibly redacted)
+ */
+const DROPPED_HEADERS = new Set([
+  'set-cookie', 'date', 'x-request-id', 'x-github-request-id', 'cf-ray',
+  'content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive'
+])
+
+/**
+ * Replace secret-looking fields in a JSON body; non-JSON bodies pass through
+ */
+export function redactBody(body: string): string {
+  try {
+    return JSON.stringify(redactValue(JSON.parse(body)))
+  } catch {
+    return body
+  }
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue)
+  }
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>
+    return Object.fromEntries(
+      Object.entries(obj).map(([k, v]) => [
+        k,
+        SECRET_FIELD_PATTERN.test(k) && typeof v === 'string' ? REDACTED : redactValue(v)
+      ])
+    )
+  }
+  return value
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url)
+  for (const key of Array.from(parsed.searchParams.keys())) {
+    if (SECRET_FIELD_PATTERN.test(key)) {
+      parsed.searchParams.set(key, REDACTED)
+    }
+  }
+  return parsed.toString()
+}
+
+function describeRequest(input: FetchInput, init?: RequestInit): { method: string; url: string; body?: string } {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url
+  const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase()
+  const body = typeof init?.body === 'string' ? redactBody(init.body) : init?.body ? '[binary]' : undefined
+  return { method, url: redactUrl(url), body }
+}
+
+/**
+ * Create a fetch implementation that records to or replays from a cassette file.
+ * Replay matches on method and URL, serving interactions in recorded order.
+ */
+export function createCassetteFetch(options: {
+  mode: CassetteMode
+  cassettePath: string
+  fetch?: typeof fetch
+}): typeof fetch {
+  const { mode, cassettePath } = options
+  const baseFetch = options.fetch || fetch
+
+  if (mode === 'replay') {
+    const cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf8')) as Cassette
+    const played = new Set<number>()
+
+    return async (input: FetchInput, init?: RequestInit) => {
+      const request = describeRequest(input, init)
+      const index = cassette.interactions.findIndex((interaction, i) =>
+        !played.has(i) &&
+        interaction.request.method === request.method &&
+        interaction.request.url === request.url
+      )
+      if (index === -1) {
+        throw new CassetteMismatchError(request.method, request.url, cassettePath)
+      }
+      played.add(index)
+
+      const { status, headers, body } = cassette.interactions[index].response
+      const emptyBody = status === 204 || status === 304
+      return new Response(emptyBody ? null : body, { status, headers })
+    }
+  }
+
+  const cassette: Cassette = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    interactions: []
+  }
+
+  return async (input: FetchInput, init?: RequestInit) => {
+    const response = await baseFetch(input, init)
+    const body = await response.clone().text()
+
+    const headers: Record<string, string> = {}
+    response.headers.forEach((value, key) => {
+      if (!DROPPED_HEADERS.has(key)) headers[key] = value
+    })
+
+    cassette.interactions.push({
+      request: describeRequest(input, init),
+      response: { status: response.status, headers, body: redactBody(body) }
+    })
+
+    // Write after every exchange so a crashed run still leaves a usable cassette
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true })
+    fs.writeFileSync(cassettePath, JSON.stringify(cassette, null, 2) + '\n')
+
+    return response
+  }
+}
+
+/**
+ * Build a cassette fetch from SHIPME_CASSETTE_MODE / SHIPME_CASSETTE_DIR, or
+ * undefined when no cassette is configured. One cassette file per server.
+ */
+export function cassetteFetchFromEnv(serverName: string): typeof fetch | undefined {
+  const mode = process.env.SHIPME_CASSETTE_MODE
+  if (!mode) return undefined
+
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`SHIPME_CASSETTE_MODE must be "record" or "replay", got "${mode}"`)
+  }
+
+  const dir = process.env.SHIPME_CASSETTE_DIR || 'cassettes'
+  const cassettePath = path.join(dir, `${serverName}.json`)
+  createLogger('cassette').info(mode === 'record' ? 'recording provider traffic' : 'replaying provider traffic', { cassettePath })
+
+  return createCassetteFetch({ mode, cassettePath })
+}
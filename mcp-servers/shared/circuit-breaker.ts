@@ -0,0 +1,188 @@
+/**
+ * Per-provider circuit breaker for upstream API calls.
+ *
+ * Opens after repeated 5xx or network failures so tool calls fail fast during a
+ * provider outage instead of burning through retries. After a cool-down the
+ * breaker goes half-open and lets a single probe request through; a successful
+ * probe closes it again, a failed one re-opens it.
+ */
+
+import { getRateLimiter } from './rate-limiter.js'
+import { ProviderDownError } from './errors.js'
+import { createLogger } from './logger.js'
+
+const logger = createLogger('circuit-breaker')
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold?: number
+  /** How long the circuit stays open before allowing a probe */
+  resetTimeoutMs?: number
+}
+
+export interface CircuitBreakerStatus {
+  provider: string
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt?: string
+  nextProbeAt?: string
+  lastError?: string
+}
+
+export class ProviderUnavailableError extends ProviderDownError {
+  retryAfterMs: number
+
+  constructor(provider: string, retryAfterMs: number, lastError?: string) {
+    super(
+      `Provider ${provider} is unavailable (circuit open)` +
+      `${lastError ? `: last error: ${lastError}` : ''}. Retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+      { provider }
+    )
+    this.name = 'ProviderUnavailableError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Whether an error indicates the provider itself is unhealthy (5xx or no HTTP
+ * response at all), as opposed to a problem with the request
+ */
+export function isOutageError(err: any): boolean {
+  const status = err?.status || err?.statusCode
+  return !status || status >= 500
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt = 0
+  private probeInFlight = false
+  private lastError?: string
+  private failureThreshold: number
+  private resetTimeoutMs: number
+
+  constructor(private provider: string, options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const isProbe = this.admit()
+
+    try {
+      const result = await fn()
+      this.onSuccess()
+      return result
+    } catch (err: any) {
+      if (isOutageError(err)) {
+        this.onFailure(err)
+      } else {
+        // The provider answered (e.g. 404, 422): it is up, even if the request was bad
+        this.onSuccess()
+      }
+      throw err
+    } finally {
+      if (isProbe) this.probeInFlight = false
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      nextProbeAt: this.state === 'open'
+        ? new Date(this.openedAt + this.resetTimeoutMs).toISOString()
+        : undefined,
+      lastError: this.lastError
+    }
+  }
+
+  /**
+   * Decide whether a request may proceed. Returns true when it is the half-open probe.
+   */
+  private admit(): boolean {
+    if (this.state === 'closed') return false
+
+    const elapsed = Date.now() - this.openedAt
+    if (this.state === 'open' && elapsed >= this.resetTimeoutMs) {
+      this.state = 'half_open'
+    }
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true
+      return true
+    }
+
+    throw new ProviderUnavailableError(
+      this.provider,
+      Math.max(0, this.resetTimeoutMs - elapsed),
+      this.lastError
+    )
+  }
+
+  private onSuccess(): void {
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = 0
+    this.lastError = undefined
+  }
+
+  private onFailure(err: Error): void {
+    this.consecutiveFailures++
+    this.lastError = err.message
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn('circuit opened', {
+          provider: this.provider,
+          consecutiveFailures: this.consecutiveFailures,
+          lastError: this.lastError
+        })
+      }
+      this.state = 'open'
+      this.openedAt = Date.now()
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Get the shared breaker for a provider host (accepts a full URL or a bare host)
+ */
+export function getCircuitBreaker(urlOrHost: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  let host: string
+  try {
+    host = new URL(urlOrHost).host
+  } catch {
+    host = urlOrHost
+  }
+
+  let breaker = breakers.get(host)
+  if (!breaker) {
+    breaker = new CircuitBreaker(host, options)
+    breakers.set(host, breaker)
+  }
+  return breaker
+}
+
+export interface ProviderStatusResult {
+  success: boolean
+  circuit: CircuitBreakerStatus
+  rate_limit: { availableTokens: number; pausedUntil?: string; capacity: number; refillPerSecond: number }
+}
+
+/**
+ * Snapshot of a provider's breaker and rate limiter, returned by each server's status tool
+ */
+export function getProviderStatus(urlOrHost: string): ProviderStatusResult {
+  return {
+    success: true,
+    circuit: getCircuitBreaker(urlOrHost).getStatus(),
+    rate_limit: getRateLimiter(urlOrHost).getState()
+  }
+}
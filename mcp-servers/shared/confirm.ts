@@ -0,0 +1,12 @@
+import { ValidationError } from './errors.js'
+
+/**
+ * Destructive tools take a `confirm` argument that must repeat the identifier
+ * of the resource being removed, so a wrong or hallucinated ID cannot delete
+ * something else
+ */
+export function requireConfirmation(confirm: unknown, expected: string, action: string): void {
+  if (confirm !== expected) {
+    throw new ValidationError(`Refusing to ${action}: pass confirm: "${expected}" to confirm`)
+  }
+}
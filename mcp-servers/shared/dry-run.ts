@@ -0,0 +1,113 @@
+import { redact } from './logger.js'
+import { toProviderError } from './errors.js'
+import { boolean, optional } from './schema.js'
+
+/**
+ * Dry-run previews for mutating tools
+ *
+ * In dry-run mode a tool validates its inputs, checks its preconditions with
+ * read-only requests, and returns the API calls it would make and the resources
+ * it would create instead of making them. Enabled server-wide with
+ * SHIPME_DRY_RUN=true, or per call with a `dry_run` argument.
+ */
+
+export interface PlannedRequest {
+  method: string
+  url: string
+  body?: unknown
+}
+
+export interface PreconditionCheck {
+  check: string
+  passed: boolean
+  detail?: string
+}
+
+export interface DryRunResult {
+  /** True when every precondition passed, i.e. the real call is expected to succeed */
+  success: boolean
+  dry_run: true
+  tool: string
+  preconditions: PreconditionCheck[]
+  requests: PlannedRequest[]
+  resources: string[]
+}
+
+/**
+ * The dry_run argument of every mutating tool
+ */
+export const dryRunArgument = optional(boolean({
+  description: 'Check preconditions and preview the API calls without making changes'
+}))
+
+/**
+ * SHIPME_DRY_RUN=true (or 1) puts every mutating tool in dry-run mode
+ */
+export function dryRunFromEnv(): boolean {
+  const value = (process.env.SHIPME_DRY_RUN || '').toLowerCase()
+  return value === 'true' || value === '1'
+}
+
+/**
+ * A per-call `dry_run` argument overrides the server default
+ */
+export function isDryRun(args: Record<string, unknown>, serverDefault: boolean): boolean {
+  return typeof args.dry_run === 'boolean' ? args.dry_run : serverDefault
+}
+
+/**
+ * Collects the checks, requests and resources of one tool's dry run
+ */
+export class DryRunPreview {
+  private preconditions: PreconditionCheck[] = []
+  private requests: PlannedRequest[] = []
+  private resources: string[] = []
+
+  constructor(private tool: string, private provider: string) {}
+
+  /**
+   * Run a read-only check. It passes when fn resolves (its return value is the
+   * detail) and fails with the error message when fn throws.
+   */
+  async check(description: string, fn: () => Promise<string | void>): Promise<boolean> {
+    try {
+      const detail = await fn()
+      this.preconditions.push({ check: description, passed: true, ...(detail ? { detail } : {}) })
+      return true
+    } catch (error) {
+      this.preconditions.push({ check: description, passed: false, detail: toProviderError(error, this.provider).message })
+      return false
+    }
+  }
+
+  request(method: string, url: string, body?: unknown): void {
+    this.requests.push({ method, url, ...(body !== undefined ? { body } : {}) })
+  }
+
+  creates(resource: string): void {
+    this.resources.push(resource)
+  }
+
+  /**
+   * MCP tool result. Request bodies are redacted like log output.
+   */
+  toResult() {
+    const result: DryRunResult = {
+      success: this.preconditions.every(check => check.passed),
+      dry_run: true,
+      tool: this.tool,
+      preconditions: this.preconditions,
+      requests: redact(this.requests) as PlannedRequest[],
+      resources: this.resources
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Typed provider error taxonomy shared by all MCP servers.
+ *
+ * Supabase, Netlify, Vercel, Stripe and Octokit failures are mapped onto a small set of error
+ * kinds so the agent driving provisioning can react to the kind (re-authenticate,
+ * adopt an existing resource, back off) instead of parsing English messages.
+ */
+
+export type ProviderErrorKind =
+  | 'auth'
+  | 'permission'
+  | 'not_found'
+  | 'conflict'
+  | 'validation'
+  | 'rate_limited'
+  | 'transient'
+  | 'provider_down'
+  | 'internal'
+
+export interface ProviderErrorOptions {
+  provider?: string
+  status?: number
+  code?: string
+  headers?: Headers
+  retryable?: boolean
+}
+
+/**
+ * Error carrying the HTTP status and response headers of a failed provider call,
+ * enabling withRetry to make status-based retry decisions
+ */
+export class RetryableError extends Error {
+  status?: number
+  headers?: Headers
+  constructor(message: string, status?: number, headers?: Headers) {
+    super(message)
+    this.status = status
+    this.headers = headers
+  }
+}
+
+export class ProviderError extends RetryableError {
+  kind: ProviderErrorKind
+  provider?: string
+  code?: string
+  retryable: boolean
+
+  constructor(kind: ProviderErrorKind, message: string, options: ProviderErrorOptions = {}) {
+    super(message, options.status, options.headers)
+    this.name = 'ProviderError'
+    this.kind = kind
+    this.provider = options.provider
+    this.code = options.code
+    this.retryable = options.retryable ?? false
+  }
+}
+
+export class AuthError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('auth', message, options)
+    this.name = 'AuthError'
+  }
+}
+
+export class PermissionError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('permission', message, options)
+    this.name = 'PermissionError'
+  }
+}
+
+export class NotFoundError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('not_found', message, options)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class ConflictError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('conflict', message, options)
+    this.name = 'ConflictError'
+  }
+}
+
+export class ValidationError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('validation', message, options)
+    this.name = 'ValidationError'
+  }
+}
+
+export class RateLimitedError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('rate_limited', message, { retryable: true, ...options })
+    this.name = 'RateLimitedError'
+  }
+}
+
+export class TransientError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('transient', message, { retryable: true, ...options })
+    this.name = 'TransientError'
+  }
+}
+
+export class ProviderDownError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super('provider_down', message, options)
+    this.name = 'ProviderDownError'
+  }
+}
+
+/**
+ * Map an HTTP status (plus the provider's message) onto the error taxonomy
+ */
+export function errorFromStatus(status: number, message: string, options: ProviderErrorOptions = {}): ProviderError {
+  const opts = { ...options, status }
+
+  switch (true) {
+    case status === 401:
+      return new AuthError(message, opts)
+    case status === 403:
+      // GitHub reports primary and secondary rate limits as 403
+      if (options.headers?.get('retry-after') || options.headers?.get('x-ratelimit-remaining') === '0') {
+        return new RateLimitedError(message, opts)
+      }
+      return new PermissionError(message, opts)
+    case status === 404:
+      return new NotFoundError(message, opts)
+    case status === 409:
+      return new ConflictError(message, opts)
+    case status === 400 || status === 422:
+      if (/already (exists|taken|in use)/i.test(message)) {
+        return new ConflictError(message, opts)
+      }
+      return new ValidationError(message, opts)
+    case status === 429:
+      return new RateLimitedError(message, opts)
+    case status >= 500:
+      return new TransientError(message, opts)
+    default:
+      return new ProviderError('internal', message, opts)
+  }
+}
+
+/**
+ * Build a typed error from a failed fetch Response, extracting the provider's
+ * message and error code from a JSON body when there is one
+ */
+export async function errorFromResponse(
+  response: Response,
+  fallbackMessage: string,
+  provider?: string
+): Promise<ProviderError> {
+  const body = await response.text().catch(() => '')
+  let message = body || fallbackMessage
+  let code: string | undefined
+
+  try {
+    const json = JSON.parse(body)
+    // Vercel and Stripe nest the details: { error: { code, message } }
+    const nested = typeof json.error === 'object' && json.error !== null ? json.error : undefined
+    message = json.message || json.msg || json.error_description || nested?.message || json.error || fallbackMessage
+    code = json.code ?? json.error_code ?? nested?.code
+    if (typeof message !== 'string') message = JSON.stringify(message)
+    if (code !== undefined) code = String(code)
+  } catch {
+    // Non-JSON body: keep the raw text
+  }
+
+  return errorFromStatus(response.status, message, { provider, code, headers: response.headers })
+}
+
+/**
+ * Normalize anything thrown by a tool implementation into a ProviderError.
+ * Understands our own errors, Octokit RequestErrors and fetch network failures.
+ */
+export function toProviderError(err: unknown, provider?: string): ProviderError {
+  if (err instanceof ProviderError) {
+    err.provider ??= provider
+    return err
+  }
+
+  const anyErr = err as any
+  const status: number | undefined = typeof anyErr?.status === 'number' ? anyErr.status : undefined
+
+  if (status) {
+    // Octokit RequestError: details live on err.response
+    const data = anyErr.response?.data
+    const firstError = Array.isArray(data?.errors) ? data.errors[0] : undefined
+    const message = firstError?.message
+      ? `${String(data?.message ?? anyErr.message).replace(/\.$/, '')}: ${firstError.message}`
+      : data?.message ?? anyErr.message
+    const headers = anyErr.headers instanceof Headers
+      ? anyErr.headers
+      : new Headers(anyErr.response?.headers ?? {})
+    return errorFromStatus(status, message, {
+      provider,
+      code: firstError?.code ?? data?.code,
+      headers
+    })
+  }
+
+  if (err instanceof TypeError && /fetch failed|network/i.test(err.message)) {
+    return new TransientError(`Network error: ${(err.cause as Error | undefined)?.message ?? err.message}`, { provider })
+  }
+
+  const message = err instanceof Error ? err.message : 'Unknown error'
+  return new ProviderError('internal', message, { provider })
+}
+
+/**
+ * Uniform MCP error envelope returned by every server's CallToolRequestSchema handler
+ */
+export function toolErrorResult(err: unknown, provider?: string) {
+  const error = toProviderError(err, provider)
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          error: {
+            kind: error.kind,
+            message: error.message,
+            provider: error.provider,
+            status: error.status,
+            code: error.code,
+            retryable: error.retryable
+          }
+        }, null, 2)
+      }
+    ]
+  }
+}
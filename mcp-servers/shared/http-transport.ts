@@ -0,0 +1,260 @@
+import crypto from 'crypto'
+import http from 'http'
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js'
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import { createLogger } from './logger.js'
+
+/**
+ * MCP over HTTP
+ *
+ * Two transports share one port, both behind a bearer token:
+ * - POST /mcp is streamable HTTP in its stateless form with JSON responses.
+ *   A request carries one JSON-RPC message or a batch and the responses come
+ *   back in the body, so a plain HTTP client can list and call tools. There
+ *   are no sessions and no server-initiated stream (GET /mcp answers 405).
+ * - GET /sse opens an HTTP+SSE session whose messages are posted to
+ *   /messages?sessionId=..., for clients that keep a stream open.
+ * GET /health answers without a token, for load balancers and readiness checks.
+ */
+
+export interface HttpTransportOptions {
+  host: string
+  port: number
+  /** Bearer token every request except /health must carry */
+  token: string
+}
+
+export interface HttpServerHandle {
+  /** Base URL, e.g. http://127.0.0.1:8787 */
+  url: string
+  close(): Promise<void>
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+const logger = createLogger('http')
+
+/** JSON-RPC error codes */
+const PARSE_ERROR = -32700
+const INVALID_REQUEST = -32600
+
+type MessageId = string | number
+
+/**
+ * Transport for one POST /mcp request: messages are handed to the server and
+ * its responses matched to them by id
+ */
+class ExchangeTransport implements Transport {
+  onclose?: () => void
+  onerror?: (error: Error) => void
+  onmessage?: (message: JSONRPCMessage) => void
+  private pending = new Map<MessageId, (response: JSONRPCMessage) => void>()
+
+  async start(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.onclose?.()
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    // Server-initiated requests and notifications need a stream, which
+    // stateless requests do not have; they are dropped
+    const { id, method } = message as { id?: MessageId; method?: string }
+    if (id === undefined || method !== undefined) return
+
+    this.pending.get(id)?.(message)
+    this.pending.delete(id)
+  }
+
+  /**
+   * Deliver a message. Resolves with the response to a request, or undefined
+   * for a notification or response.
+   */
+  exchange(message: JSONRPCMessage): Promise<JSONRPCMessage | undefined> {
+    const { id, method } = message as { id?: MessageId; method?: string }
+    if (id === undefined || method === undefined) {
+      this.onmessage?.(message)
+      return Promise.resolve(undefined)
+    }
+
+    return new Promise(resolve => {
+      this.pending.set(id, resolve)
+      this.onmessage?.(message)
+    })
+  }
+}
+
+class BodyTooLargeError extends Error {}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new BodyTooLargeError()
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body))
+}
+
+function rpcError(code: number, message: string) {
+  return { jsonrpc: '2.0', id: null, error: { code, message } }
+}
+
+/**
+ * Compare digests so neither the token nor its length leaks through timing
+ */
+function authorized(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')
+  if (!match) return false
+
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest()
+  return crypto.timingSafeEqual(digest(match[1]), digest(token))
+}
+
+/**
+ * POST /mcp: run the posted message(s) through a fresh server and answer with
+ * the responses (202 when there are none, i.e. only notifications)
+ */
+async function handleExchange(req: http.IncomingMessage, res: http.ServerResponse, createServer: () => Server) {
+  const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase()
+  if (contentType !== 'application/json') {
+    sendJson(res, 415, rpcError(INVALID_REQUEST, 'Content-Type must be application/json'))
+    return
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(await readBody(req))
+  } catch (error) {
+    if (error instanceof BodyTooLargeError) {
+      sendJson(res, 413, rpcError(INVALID_REQUEST, `Request body exceeds ${MAX_BODY_BYTES} bytes`))
+    } else {
+      sendJson(res, 400, rpcError(PARSE_ERROR, 'Parse error'))
+    }
+    return
+  }
+
+  const batch = Array.isArray(body)
+  const parsed = (batch ? body as unknown[] : [body]).map(message => JSONRPCMessageSchema.safeParse(message))
+  if (parsed.length === 0 || parsed.some(result => !result.success)) {
+    sendJson(res, 400, rpcError(INVALID_REQUEST, 'Invalid Request'))
+    return
+  }
+
+  // Responses are matched to requests by id, so an id used twice in a batch
+  // would leave one request waiting for a response that never comes
+  const ids = new Set<MessageId>()
+  for (const { data } of parsed) {
+    const { id, method } = data as { id?: MessageId; method?: string }
+    if (id === undefined || method === undefined) continue
+    if (ids.has(id)) {
+      sendJson(res, 400, rpcError(INVALID_REQUEST, `Duplicate request id ${JSON.stringify(id)} in batch`))
+      return
+    }
+    ids.add(id)
+  }
+
+  const server = createServer()
+  const transport = new ExchangeTransport()
+  await server.connect(transport)
+  try {
+    const responses = await Promise.all(parsed.map(result => transport.exchange(result.data!)))
+    const answered = responses.filter((response): response is JSONRPCMessage => response !== undefined)
+    if (answered.length === 0) {
+      res.writeHead(202).end()
+    } else {
+      sendJson(res, 200, batch ? answered : answered[0])
+    }
+  } finally {
+    await server.close()
+  }
+}
+
+/**
+ * Serve MCP over HTTP. createServer is called for every SSE session and every
+ * POST /mcp request, so each gets its own protocol state.
+ */
+export async function serveHttp(createServer: () => Server, options: HttpTransportOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, SSEServerTransport>()
+
+  const route = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok' })
+      return
+    }
+    if (!authorized(req, options.token)) {
+      sendJson(res, 401, { error: 'A valid bearer token is required' }, { 'WWW-Authenticate': 'Bearer realm="shipme"' })
+      return
+    }
+
+    if (url.pathname === '/mcp') {
+      if (req.method === 'POST') {
+        await handleExchange(req, res, createServer)
+      } else {
+        sendJson(res, 405, { error: 'Use POST; this server does not open streams on /mcp' }, { Allow: 'POST' })
+      }
+      return
+    }
+
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const transport = new SSEServerTransport('/messages', res)
+      sessions.set(transport.sessionId, transport)
+      // connect() takes over the transport's onclose, so clean up on the socket
+      res.on('close', () => {
+        sessions.delete(transport.sessionId)
+        logger.debug('SSE session closed', { sessionId: transport.sessionId })
+      })
+      await createServer().connect(transport)
+      logger.debug('SSE session opened', { sessionId: transport.sessionId })
+      return
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const transport = sessions.get(url.searchParams.get('sessionId') || '')
+      if (!transport) {
+        sendJson(res, 404, { error: 'Unknown or closed SSE session' })
+        return
+      }
+      await transport.handlePostMessage(req, res)
+      return
+    }
+
+    sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}` })
+  }
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch(error => {
+      logger.error('HTTP request failed', { method: req.method, url: req.url, error })
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' })
+      else res.end()
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+
+  const address = server.address() as { port: number }
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      await Promise.all([...sessions.values()].map(transport => transport.close()))
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import crypto from 'crypto'
+import { maskSecret } from './secret-vault.js'
+
+/**
+ * Structured logger for MCP servers
+ *
+ * Writes one JSON object per line to stderr (stdout carries the MCP protocol).
+ * Every line emitted while a tool call is running carries that call's
+ * correlation ID. Known secret fields, and any value stored in a SecretVault,
+ * are masked with maskSecret before anything is written.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogContext {
+  correlationId: string
+  server?: string
+  tool?: string
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+/**
+ * Field names whose values are always masked
+ */
+const SECRET_KEY_PATTERN = /pass|secret|token|api_?key|authorization|private_key|service_role|connection_string/i
+
+const contextStorage = new AsyncLocalStorage<LogContext>()
+const secretValues = new Set<string>()
+
+function configuredLevel(): number {
+  const level = (process.env.SHIPME_LOG_LEVEL || 'info').toLowerCase() as LogLevel
+  return LEVELS[level] ?? LEVELS.info
+}
+
+/**
+ * Register a secret value so it is masked wherever it appears in log output.
+ * SecretVault registers every value it stores.
+ */
+export function registerSecretValue(value: string): void {
+  // Very short values would mask unrelated text
+  if (value.length >= 6) {
+    secretValues.add(value)
+  }
+}
+
+export function unregisterSecretValue(value: string): void {
+  secretValues.delete(value)
+}
+
+/**
+ * Deep-copy a value with secret fields and registered secret values masked
+ */
+export function redact(value: unknown, key?: string): unknown {
+  if (typeof value === 'string') {
+    if (key && SECRET_KEY_PATTERN.test(key)) {
+      return maskSecret(value)
+    }
+    // Secret fields inside serialized JSON (e.g. a request body echoed in an error)
+    let result = value.replace(
+      /"([^"]+)"(\s*:\s*)"((?:[^"\\]|\\.)*)"/g,
+      (match, field: string, separator: string, fieldValue: string) =>
+        SECRET_KEY_PATTERN.test(field) ? `"${field}"${separator}"${maskSecret(fieldValue)}"` : match
+    )
+    for (const secret of secretValues) {
+      if (result.includes(secret)) {
+        result = result.split(secret).join(maskSecret(secret))
+      }
+    }
+    return result
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message) }
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item))
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redact(v, k)])
+    )
+  }
+
+  return value
+}
+
+/**
+ * Run fn with a fresh correlation ID; every log line written inside it
+ * (including from nested async work) is tagged with it
+ */
+export function withLogContext<T>(context: Omit<LogContext, 'correlationId'>, fn: () => Promise<T>): Promise<T> {
+  return contextStorage.run({ ...context, correlationId: crypto.randomUUID() }, fn)
+}
+
+export function getLogContext(): LogContext | undefined {
+  return contextStorage.getStore()
+}
+
+export class Logger {
+  constructor(private component: string) {}
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.write('debug', message, fields)
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write('info', message, fields)
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.write('warn', message, fields)
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.write('error', message, fields)
+  }
+
+  private write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (LEVELS[level] < configuredLevel()) return
+
+    const entry = {
+      ts: new Date().toISOString(),
+      level,
+      component: this.component,
+      ...getLogContext(),
+      msg: redact(message),
+      ...(redact(fields) as Record<string, unknown>)
+    }
+    process.stderr.write(JSON.stringify(entry) + '\n')
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component)
+}
+
+/**
+ * Wrap a fetch implementation so every upstream request is logged with its
+ * method, URL (query string dropped), status and duration
+ */
+export function createLoggedFetch(baseFetch: typeof fetch, logger: Logger): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url
+    const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase()
+    const startedAt = Date.now()
+
+    try {
+      const response = await baseFetch(input, init)
+      logger.info('upstream request', {
+        method,
+        url: url.split('?')[0],
+        status: response.status,
+        durationMs: Date.now() - startedAt
+      })
+      return response
+    } catch (error) {
+      logger.warn('upstream request failed', {
+        method,
+        url: url.split('?')[0],
+        durationMs: Date.now() - startedAt,
+        error
+      })
+      throw error
+    }
+  }
+}
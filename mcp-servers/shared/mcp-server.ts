@@ -0,0 +1,167 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import { ValidationError } from './errors.js'
+import { serveHttp } from './http-transport.js'
+import type { HttpTransportOptions } from './http-transport.js'
+import { createLogger } from './logger.js'
+import type { PromptHost } from './prompts.js'
+import type { ResourceHost } from './resources.js'
+import type { ToolListing, ToolResult } from './tool-registry.js'
+
+/**
+ * Serving tool sets over MCP
+ *
+ * A tool host (one provider's server, or the gateway combining several) only
+ * lists and runs tools. The SDK server speaking the protocol is created here,
+ * once for stdio or once per HTTP connection, so one host can serve many
+ * clients.
+ */
+
+export interface ToolHost {
+  listTools(): ToolListing[]
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolResult>
+  /** Readable resources, advertised with the resources capability when present */
+  resources?: ResourceHost
+  /** Guided prompts, advertised with the prompts capability when present */
+  prompts?: PromptHost
+}
+
+// A type alias so it is assignable to the SDK's implementation info
+export type ServerInfo = {
+  name: string
+  version: string
+}
+
+export type TransportOptions = { kind: 'stdio' } | ({ kind: 'http' } & HttpTransportOptions)
+
+export const DEFAULT_HTTP_PORT = 8787
+
+const logger = createLogger('mcp')
+
+/**
+ * SHIPME_TRANSPORT=http serves over HTTP on SHIPME_HTTP_HOST (defaults to
+ * 127.0.0.1) and SHIPME_HTTP_PORT (defaults to 8787), with SHIPME_HTTP_TOKEN as
+ * the bearer token every request must carry; stdio otherwise
+ */
+export function transportFromEnv(): TransportOptions {
+  const kind = process.env.SHIPME_TRANSPORT || 'stdio'
+  if (kind === 'stdio') return { kind }
+  if (kind !== 'http') {
+    throw new ValidationError(`SHIPME_TRANSPORT must be "stdio" or "http", got "${kind}"`)
+  }
+
+  const token = process.env.SHIPME_HTTP_TOKEN
+  if (!token) {
+    throw new ValidationError('SHIPME_HTTP_TOKEN is required with SHIPME_TRANSPORT=http')
+  }
+  const port = Number(process.env.SHIPME_HTTP_PORT || DEFAULT_HTTP_PORT)
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ValidationError(`SHIPME_HTTP_PORT must be a port number, got "${process.env.SHIPME_HTTP_PORT}"`)
+  }
+  return { kind, host: process.env.SHIPME_HTTP_HOST || '127.0.0.1', port, token }
+}
+
+/**
+ * Bad arguments (an unknown resource URI, a missing prompt argument) are the
+ * client's fault; report them as invalid params rather than internal errors
+ */
+async function invalidParamsOnValidationError<T>(handler: () => Promise<T> | T): Promise<T> {
+  try {
+    return await handler()
+  } catch (error) {
+    if (error instanceof ValidationError) throw new McpError(ErrorCode.InvalidParams, error.message)
+    throw error
+  }
+}
+
+/**
+ * SDK server answering tools/*, and resources/* and prompts/* when the host
+ * has them. Resource subscriptions belong to this server (one client), which
+ * is notified of changes the host reports until it closes.
+ */
+export function createMcpServer(host: ToolHost, info: ServerInfo): Server {
+  const { resources, prompts } = host
+  const server = new Server(info, {
+    capabilities: {
+      tools: {},
+      ...(resources ? { resources: { subscribe: true, listChanged: true } } : {}),
+      ...(prompts ? { prompts: {} } : {})
+    }
+  })
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: host.listTools()
+  }))
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params
+    return host.callTool(name, args)
+  })
+
+  if (resources) {
+    const subscriptions = new Set<string>()
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await resources.list()
+    }))
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: resources.listTemplates()
+    }))
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      invalidParamsOnValidationError(() => resources.read(request.params.uri))
+    )
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri)
+      return {}
+    })
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri)
+      return {}
+    })
+
+    const stopListening = resources.onChange(change => {
+      const sent = change.kind === 'list_changed'
+        ? server.sendResourceListChanged()
+        : subscriptions.has(change.uri) ? server.sendResourceUpdated({ uri: change.uri }) : undefined
+      sent?.catch(error => logger.warn('Resource change notification failed', { change, error }))
+    })
+    server.onclose = stopListening
+  }
+
+  if (prompts) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: prompts.list()
+    }))
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      invalidParamsOnValidationError(() => prompts.get(request.params.name, request.params.arguments))
+    )
+  }
+
+  return server
+}
+
+/**
+ * Serve a host until the process exits. Resolves once it accepts requests,
+ * with where it listens (for the startup log line).
+ */
+export async function serve(host: ToolHost, info: ServerInfo, transport: TransportOptions): Promise<string> {
+  if (transport.kind === 'http') {
+    const { url } = await serveHttp(() => createMcpServer(host, info), transport)
+    return url
+  }
+
+  await createMcpServer(host, info).connect(new StdioServerTransport())
+  return 'stdio'
+}
@@ -0,0 +1,158 @@
+import crypto from 'crypto'
+import { ValidationError } from './errors.js'
+
+/**
+ * Credential generation
+ *
+ * Passwords are drawn with rejection sampling (no modulo bias) from an alphabet
+ * built from a policy, and regenerated until every required character class is
+ * present. The default policy is URL-safe so generated passwords can be embedded
+ * in connection strings.
+ */
+
+export interface PasswordPolicy {
+  /** Total length (defaults to 32) */
+  length?: number
+  /** Character classes to include; each included class appears at least once */
+  lowercase?: boolean
+  uppercase?: boolean
+  digits?: boolean
+  symbols?: boolean
+  /** Restrict symbols to URL-unreserved characters (defaults to true) */
+  urlSafe?: boolean
+  /** Drop look-alike characters such as 0/O and 1/l/I (defaults to false) */
+  excludeAmbiguous?: boolean
+}
+
+export interface PassphraseOptions {
+  /** Number of words (defaults to 8) */
+  words?: number
+  /** Separator between words (defaults to '-') */
+  separator?: string
+  /** Custom word list; duplicates are ignored */
+  wordlist?: string[]
+}
+
+const CHARACTER_CLASSES = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+  symbols: '!@#$%^&*()-_=+[]{}:;,.?~'
+}
+
+const URL_SAFE_SYMBOLS = '-._~'
+const AMBIGUOUS_CHARACTERS = new Set('0O1lI|`\'"')
+
+/**
+ * Built-in passphrase words: 256 short, distinct, lowercase words (8 bits each)
+ */
+const DEFAULT_WORDLIST = [
+  'acid', 'acorn', 'actor', 'adobe', 'agent', 'alarm', 'album', 'alley',
+  'amber', 'angle', 'ankle', 'apple', 'apron', 'arena', 'armor', 'arrow',
+  'atlas', 'attic', 'audio', 'award', 'bacon', 'badge', 'bagel', 'baker',
+  'bamboo', 'banjo', 'barn', 'basil', 'basin', 'beach', 'beard', 'bench',
+  'berry', 'bison', 'blade', 'blank', 'blaze', 'bloom', 'board', 'bonus',
+  'boots', 'brain', 'brass', 'bread', 'brick', 'bride', 'brook', 'broom',
+  'brush', 'bugle', 'cabin', 'cable', 'cacao', 'camel', 'candy', 'canoe',
+  'cargo', 'carol', 'cedar', 'chalk', 'charm', 'chess', 'chili', 'cider',
+  'cinema', 'circus', 'civic', 'clam', 'cliff', 'clock', 'cloud', 'coach',
+  'cobra', 'comet', 'coral', 'cotton', 'couch', 'crane', 'crate', 'crown',
+  'cubic', 'curry', 'daisy', 'dance', 'delta', 'denim', 'depot', 'diary',
+  'dingo', 'disco', 'dock', 'dolphin', 'donut', 'dove', 'dragon', 'drift',
+  'drum', 'dune', 'eagle', 'easel', 'echo', 'elbow', 'elder', 'ember',
+  'empire', 'engine', 'fable', 'falcon', 'fancy', 'feast', 'fence', 'ferry',
+  'fiber', 'field', 'flame', 'flint', 'flute', 'focus', 'forge', 'fossil',
+  'frost', 'fudge', 'galaxy', 'garden', 'gecko', 'ghost', 'ginger', 'glacier',
+  'globe', 'glove', 'goose', 'grape', 'gravel', 'guitar', 'hammer', 'harbor',
+  'hazel', 'heron', 'hiker', 'honey', 'hotel', 'husky', 'igloo', 'index',
+  'iron', 'island', 'ivory', 'jacket', 'jaguar', 'jelly', 'jewel', 'jungle',
+  'kayak', 'kettle', 'kiosk', 'kite', 'koala', 'label', 'ladder', 'lagoon',
+  'lemon', 'lever', 'lilac', 'linen', 'lobster', 'lotus', 'lunar', 'magnet',
+  'mango', 'maple', 'marble', 'meadow', 'melon', 'metal', 'mint', 'mirror',
+  'mocha', 'motor', 'mural', 'nacho', 'nectar', 'needle', 'noble', 'nomad',
+  'novel', 'nutmeg', 'oasis', 'ocean', 'olive', 'onion', 'opera', 'orbit',
+  'otter', 'oxide', 'paddle', 'panda', 'paper', 'parade', 'pastel', 'peach',
+  'pebble', 'pepper', 'piano', 'pickle', 'pilot', 'pixel', 'planet', 'plaza',
+  'polar', 'pony', 'prism', 'pulse', 'quartz', 'quill', 'quiver', 'radar',
+  'radio', 'raven', 'relay', 'ribbon', 'ridge', 'river', 'robin', 'rocket',
+  'rodeo', 'saddle', 'salsa', 'sandal', 'scarf', 'shadow', 'shell', 'silver',
+  'sketch', 'sonic', 'spice', 'spoon', 'squid', 'stamp', 'storm', 'sugar',
+  'summit', 'tango', 'temple', 'thorn', 'tiger', 'timber', 'toast', 'topaz',
+  'torch', 'tulip', 'tundra', 'turtle', 'ultra', 'umbra', 'velvet', 'violet'
+]
+
+/**
+ * Uniform random integer in [0, max) by rejection sampling 32-bit values
+ */
+function randomIndex(max: number): number {
+  const limit = 2 ** 32 - (2 ** 32 % max)
+  let value: number
+  do {
+    value = crypto.randomBytes(4).readUInt32BE(0)
+  } while (value >= limit)
+  return value % max
+}
+
+/**
+ * Generate a password that satisfies a policy. A number is the length under
+ * the default policy, as in generatePassword(32).
+ */
+export function generatePassword(length?: number): string
+export function generatePassword(policy?: PasswordPolicy): string
+export function generatePassword(policyOrLength: PasswordPolicy | number = {}): string {
+  const policy = typeof policyOrLength === 'number' ? { length: policyOrLength } : policyOrLength
+  const {
+    length = 32,
+    lowercase = true,
+    uppercase = true,
+    digits = true,
+    symbols = true,
+    urlSafe = true,
+    excludeAmbiguous = false
+  } = policy
+
+  const classes = [
+    lowercase && CHARACTER_CLASSES.lowercase,
+    uppercase && CHARACTER_CLASSES.uppercase,
+    digits && CHARACTER_CLASSES.digits,
+    symbols && (urlSafe ? URL_SAFE_SYMBOLS : CHARACTER_CLASSES.symbols)
+  ]
+    .filter((chars): chars is string => !!chars)
+    .map(chars => excludeAmbiguous ? Array.from(chars).filter(c => !AMBIGUOUS_CHARACTERS.has(c)).join('') : chars)
+
+  if (classes.length === 0) {
+    throw new ValidationError('Password policy must enable at least one character class')
+  }
+  if (!Number.isInteger(length) || length < Math.max(classes.length, 8)) {
+    throw new ValidationError(`Password length must be an integer of at least ${Math.max(classes.length, 8)}`)
+  }
+
+  // Regenerate rather than patch in missing classes, so every compliant password is equally likely
+  const alphabet = classes.join('')
+  for (;;) {
+    let password = ''
+    for (let i = 0; i < length; i++) {
+      password += alphabet[randomIndex(alphabet.length)]
+    }
+    if (classes.every(chars => Array.from(password).some(c => chars.includes(c)))) {
+      return password
+    }
+  }
+}
+
+/**
+ * Generate a word-based passphrase, e.g. "otter-quartz-lemon-..."
+ */
+export function generatePassphrase(options: PassphraseOptions = {}): string {
+  const { words = 8, separator = '-' } = options
+  const wordlist = Array.from(new Set(options.wordlist ?? DEFAULT_WORDLIST))
+
+  if (wordlist.length < 2) {
+    throw new ValidationError('Passphrase word list must contain at least two distinct words')
+  }
+  if (!Number.isInteger(words) || words < 1) {
+    throw new ValidationError('Passphrase must have at least one word')
+  }
+
+  return Array.from({ length: words }, () => wordlist[randomIndex(wordlist.length)]).join(separator)
+}
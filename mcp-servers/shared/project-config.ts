@@ -0,0 +1,369 @@
+/**
+ * Schema for .shipme/project.json
+ *
+ * The one place that knows the shape of the project configuration. Used by
+ * the servers and CLI and by the Next.js app (src/lib/project-config.ts), so
+ * it has no imports and must compile under both projects' settings.
+ *
+ * Files from older schema versions are migrated step by step to the current
+ * one in memory before they are validated. Validation reports every problem at
+ * once, each with the path of the offending field (e.g. stack.additional[1]).
+ */
+
+export const PROJECT_CONFIG_VERSION = '2.1.0'
+
+/**
+ * Databases and hosting platforms ShipMe can provision, as written in
+ * project.json (matched case-insensitively)
+ */
+export const SUPPORTED_DATABASES = ['Supabase'] as const
+export const SUPPORTED_HOSTING = ['Netlify', 'Vercel'] as const
+
+export type SupportedDatabase = typeof SUPPORTED_DATABASES[number]
+export type SupportedHosting = typeof SUPPORTED_HOSTING[number]
+
+export interface ProjectStack {
+  /** App framework, e.g. Next.js; free-form, it is not provisioned */
+  framework?: string
+  database?: SupportedDatabase
+  hosting?: SupportedHosting
+  /** Extra libraries and services, e.g. Stripe, Tailwind CSS */
+  additional?: string[]
+}
+
+/**
+ * Environments with a fixed meaning on the hosting platforms. preview follows
+ * pull requests and development is local, so neither maps to a git branch;
+ * any other environment (e.g. staging) deploys from its own branch.
+ */
+export const PRODUCTION_ENVIRONMENT = 'production'
+export const BRANCHLESS_ENVIRONMENTS = ['preview', 'development'] as const
+export const DEFAULT_PRODUCTION_BRANCH = 'main'
+
+export interface EnvironmentConfig {
+  /** Git branch the environment deploys from (production defaults to main) */
+  branch?: string
+  /**
+   * How the environment's database is isolated: a Supabase branch of the
+   * production project (default) or a separate project. Production is always
+   * its own project.
+   */
+  database?: 'project' | 'branch'
+}
+
+/**
+ * An environment with its defaults filled in
+ */
+export interface ProjectEnvironment {
+  name: string
+  branch?: string
+  database: 'project' | 'branch'
+}
+
+export interface ProjectConfig {
+  /** Schema version the file was written with (semver) */
+  version: string
+  name: string
+  description?: string
+  stack?: ProjectStack
+  /** ISO 8601 timestamp */
+  createdAt?: string
+  createdBy?: string
+  /** One-time token redeemed for credentials on first Codespace start */
+  provisioningToken?: string
+  /** Isolated environments keyed by name; only production when absent */
+  environments?: Record<string, EnvironmentConfig>
+}
+
+export interface ProjectConfigIssue {
+  /** Dotted path of the field, or '' for the file itself */
+  path: string
+  message: string
+}
+
+export type ProjectConfigResult =
+  | { valid: true; config: ProjectConfig; migratedFrom?: string }
+  | { valid: false; errors: ProjectConfigIssue[] }
+
+type RawConfig = Record<string, unknown>
+
+/**
+ * Migrations from each schema major version to the next
+ */
+const MIGRATIONS: Record<number, (config: RawConfig) => RawConfig> = {
+  // 1.x kept the stack at the top level and called the extras "features"
+  1: ({ framework, database, hosting, features, ...rest }) => {
+    const stack: RawConfig = { ...(rest.stack as RawConfig | undefined) }
+    if (framework !== undefined) stack.framework = framework
+    if (database !== undefined) stack.database = database
+    if (hosting !== undefined) stack.hosting = hosting
+    if (features !== undefined) stack.additional = features
+    return { ...rest, ...(Object.keys(stack).length > 0 ? { stack } : {}), version: '2.0.0' }
+  }
+}
+
+const CURRENT_MAJOR = Number(PROJECT_CONFIG_VERSION.split('.')[0])
+
+/** Oldest major version there is a migration from */
+const OLDEST_MAJOR = Math.min(...Object.keys(MIGRATIONS).map(Number))
+
+const TOP_LEVEL_FIELDS = ['version', 'name', 'description', 'stack', 'createdAt', 'createdBy', 'provisioningToken', 'environments']
+const STACK_FIELDS = ['framework', 'database', 'hosting', 'additional']
+const ENVIRONMENT_FIELDS = ['branch', 'database']
+const DATABASE_ISOLATION = ['project', 'branch']
+
+function isObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  return typeof value === 'string' ? JSON.stringify(value) : `a ${typeof value}`
+}
+
+/**
+ * Case-insensitive lookup in a list of supported values
+ */
+function supported<T extends string>(value: string, allowed: readonly T[]): T | undefined {
+  return allowed.find(candidate => candidate.toLowerCase() === value.trim().toLowerCase())
+}
+
+/**
+ * Major version of a file; files without a version predate versioning (1.x)
+ */
+function majorVersion(version: unknown): number | undefined {
+  if (version === undefined) return 1
+  if (typeof version !== 'string') return undefined
+  const match = /^(\d+)\.\d+\.\d+$/.exec(version)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Bring a parsed project.json up to the current schema version. Returns the
+ * input unchanged when it is current, or its version cannot be read or is
+ * older than any migration; validation reports the latter two.
+ */
+export function migrateProjectConfig(raw: unknown): { config: unknown; migratedFrom?: string } {
+  if (!isObject(raw)) return { config: raw }
+
+  let major = majorVersion(raw.version)
+  if (major === undefined || major >= CURRENT_MAJOR) return { config: raw }
+
+  const migratedFrom = typeof raw.version === 'string' ? raw.version : '1.0.0'
+  let config = raw
+  while (major < CURRENT_MAJOR) {
+    const migrate = MIGRATIONS[major]
+    if (!migrate) return { config: raw }
+    config = migrate(config)
+    major++
+  }
+  return { config, migratedFrom }
+}
+
+/**
+ * Validate a project configuration in the current schema version
+ */
+export function validateProjectConfig(raw: unknown): ProjectConfigIssue[] {
+  const errors: ProjectConfigIssue[] = []
+  const fail = (path: string, message: string): void => {
+    errors.push({ path, message })
+  }
+
+  if (!isObject(raw)) {
+    fail('', `must be a JSON object, got ${describe(raw)}`)
+    return errors
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!TOP_LEVEL_FIELDS.includes(key)) fail(key, 'unknown field')
+  }
+
+  const major = majorVersion(raw.version)
+  if (major === undefined) {
+    fail('version', `must be a version like "${PROJECT_CONFIG_VERSION}", got ${describe(raw.version)}`)
+  } else if (major < OLDEST_MAJOR) {
+    fail('version', `${raw.version} is older than any supported schema (${OLDEST_MAJOR}.0.0 or later)`)
+  } else if (major > CURRENT_MAJOR) {
+    fail('version', `${raw.version} is newer than this ShipMe supports (${PROJECT_CONFIG_VERSION}); update the template`)
+  }
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    fail('name', raw.name === undefined ? 'is required' : `must be a non-empty string, got ${describe(raw.name)}`)
+  } else if (!/[a-z0-9]/i.test(raw.name)) {
+    fail('name', 'must contain at least one letter or digit (resource names are derived from it)')
+  }
+
+  for (const field of ['description', 'createdBy', 'provisioningToken']) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      fail(field, `must be a string, got ${describe(raw[field])}`)
+    }
+  }
+
+  if (raw.createdAt !== undefined) {
+    if (typeof raw.createdAt !== 'string' || Number.isNaN(Date.parse(raw.createdAt))) {
+      fail('createdAt', `must be an ISO 8601 timestamp, got ${describe(raw.createdAt)}`)
+    }
+  }
+
+  if (raw.stack !== undefined) {
+    if (!isObject(raw.stack)) {
+      fail('stack', `must be an object, got ${describe(raw.stack)}`)
+    } else {
+      validateStack(raw.stack, fail)
+    }
+  }
+
+  if (raw.environments !== undefined) {
+    if (!isObject(raw.environments)) {
+      fail('environments', `must be an object keyed by environment name, got ${describe(raw.environments)}`)
+    } else {
+      validateEnvironments(raw.environments, fail)
+    }
+  }
+
+  return errors
+}
+
+function validateEnvironments(environments: RawConfig, fail: (path: string, message: string) => void): void {
+  if (!(PRODUCTION_ENVIRONMENT in environments)) {
+    fail('environments', `must include ${PRODUCTION_ENVIRONMENT}`)
+  }
+
+  const branches = new Map<string, string>()
+  for (const [name, environment] of Object.entries(environments)) {
+    const path = `environments.${name}`
+    if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+      fail(path, 'name must be lowercase letters, digits and hyphens, starting with a letter')
+    }
+    if (!isObject(environment)) {
+      fail(path, `must be an object, got ${describe(environment)}`)
+      continue
+    }
+    for (const key of Object.keys(environment)) {
+      if (!ENVIRONMENT_FIELDS.includes(key)) fail(`${path}.${key}`, 'unknown field')
+    }
+
+    const branchless = (BRANCHLESS_ENVIRONMENTS as readonly string[]).includes(name)
+    const { branch, database } = environment
+    if (branch !== undefined) {
+      if (typeof branch !== 'string' || branch.trim() === '') {
+        fail(`${path}.branch`, `must be a non-empty string, got ${describe(branch)}`)
+      } else if (branchless) {
+        fail(`${path}.branch`, `${name} is not tied to a branch (it follows ${name === 'preview' ? 'pull requests' : 'local development'})`)
+      } else if (branches.has(branch)) {
+        fail(`${path}.branch`, `${JSON.stringify(branch)} is already used by ${branches.get(branch)}`)
+      } else {
+        branches.set(branch, name)
+      }
+    } else if (!branchless && name !== PRODUCTION_ENVIRONMENT) {
+      fail(`${path}.branch`, 'is required')
+    }
+
+    if (database !== undefined) {
+      if (typeof database !== 'string' || !DATABASE_ISOLATION.includes(database)) {
+        fail(`${path}.database`, `must be one of ${DATABASE_ISOLATION.join(', ')}, got ${describe(database)}`)
+      } else if (name === PRODUCTION_ENVIRONMENT && database !== 'project') {
+        fail(`${path}.database`, `${PRODUCTION_ENVIRONMENT} always has its own project`)
+      }
+    }
+  }
+
+  const productionBranch = isObject(environments[PRODUCTION_ENVIRONMENT])
+    ? (environments[PRODUCTION_ENVIRONMENT] as RawConfig).branch ?? DEFAULT_PRODUCTION_BRANCH
+    : undefined
+  const clash = typeof productionBranch === 'string' && branches.get(productionBranch)
+  if (clash && clash !== PRODUCTION_ENVIRONMENT) {
+    fail(`environments.${clash}.branch`, `${JSON.stringify(productionBranch)} is the ${PRODUCTION_ENVIRONMENT} branch`)
+  }
+}
+
+function validateStack(stack: RawConfig, fail: (path: string, message: string) => void): void {
+  for (const key of Object.keys(stack)) {
+    if (!STACK_FIELDS.includes(key)) fail(`stack.${key}`, 'unknown field')
+  }
+
+  if (stack.framework !== undefined && (typeof stack.framework !== 'string' || stack.framework.trim() === '')) {
+    fail('stack.framework', `must be a non-empty string, got ${describe(stack.framework)}`)
+  }
+
+  const choices: Array<[string, readonly string[], string]> = [
+    ['database', SUPPORTED_DATABASES, 'database'],
+    ['hosting', SUPPORTED_HOSTING, 'hosting platform']
+  ]
+  for (const [field, allowed, noun] of choices) {
+    const value = stack[field]
+    if (value === undefined) continue
+    if (typeof value !== 'string') {
+      fail(`stack.${field}`, `must be a string, got ${describe(value)}`)
+    } else if (!supported(value, allowed)) {
+      fail(`stack.${field}`, `${JSON.stringify(value)} is not a ${noun} ShipMe can provision (supported: ${allowed.join(', ')})`)
+    }
+  }
+
+  if (stack.additional !== undefined) {
+    if (!Array.isArray(stack.additional)) {
+      fail('stack.additional', `must be an array of strings, got ${describe(stack.additional)}`)
+    } else {
+      const seen = new Set<string>()
+      stack.additional.forEach((item: unknown, index: number) => {
+        if (typeof item !== 'string' || item.trim() === '') {
+          fail(`stack.additional[${index}]`, `must be a non-empty string, got ${describe(item)}`)
+        } else if (seen.has(item.toLowerCase())) {
+          fail(`stack.additional[${index}]`, `duplicate entry ${JSON.stringify(item)}`)
+        } else {
+          seen.add(item.toLowerCase())
+        }
+      })
+    }
+  }
+}
+
+/**
+ * Migrate and validate a parsed project.json. Supported values are returned in
+ * their canonical spelling (e.g. "netlify" -> "Netlify").
+ */
+export function parseProjectConfig(raw: unknown): ProjectConfigResult {
+  const { config, migratedFrom } = migrateProjectConfig(raw)
+  const errors = validateProjectConfig(config)
+  if (errors.length > 0) {
+    return { valid: false, errors }
+  }
+
+  const parsed = config as unknown as ProjectConfig
+  const stack = parsed.stack && {
+    ...parsed.stack,
+    ...(parsed.stack.database ? { database: supported(parsed.stack.database, SUPPORTED_DATABASES) } : {}),
+    ...(parsed.stack.hosting ? { hosting: supported(parsed.stack.hosting, SUPPORTED_HOSTING) } : {})
+  }
+  return {
+    valid: true,
+    config: { ...parsed, ...(stack ? { stack } : {}) },
+    ...(migratedFrom ? { migratedFrom } : {})
+  }
+}
+
+/**
+ * Environments of a validated configuration, production first, with defaults
+ * filled in. A configuration without environments has only production.
+ */
+export function projectEnvironments(config: ProjectConfig): ProjectEnvironment[] {
+  const environments = config.environments ?? { [PRODUCTION_ENVIRONMENT]: {} }
+  return Object.entries(environments)
+    .map(([name, environment]): ProjectEnvironment => {
+      const production = name === PRODUCTION_ENVIRONMENT
+      return {
+        name,
+        ...(production || environment.branch ? { branch: environment.branch ?? DEFAULT_PRODUCTION_BRANCH } : {}),
+        database: production ? 'project' : environment.database ?? 'branch'
+      }
+    })
+    .sort((a, b) => Number(b.name === PRODUCTION_ENVIRONMENT) - Number(a.name === PRODUCTION_ENVIRONMENT))
+}
+
+/**
+ * One line per problem, for error messages
+ */
+export function formatProjectConfigIssues(errors: ProjectConfigIssue[]): string {
+  return errors.map(error => (error.path ? `${error.path}: ${error.message}` : error.message)).join('\n')
+}
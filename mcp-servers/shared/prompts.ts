@@ -0,0 +1,87 @@
+/**
+ * Guided MCP prompts
+ *
+ * Prompts are templates for common flows (design a schema, wire env vars)
+ * that a client offers its user and that expand into instructions naming the
+ * server's own tools and resources.
+ */
+
+import { ValidationError } from './errors.js'
+
+export interface PromptArgument {
+  name: string
+  description: string
+  required?: boolean
+}
+
+// Type aliases rather than interfaces so they are assignable to the SDK's result types
+export type PromptListing = {
+  name: string
+  description: string
+  arguments: PromptArgument[]
+}
+
+export type PromptResult = {
+  description: string
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>
+}
+
+/**
+ * Name a tool as the client sees it (the gateway prefixes the provider)
+ */
+export type ToolNamer = (tool: string) => string
+
+export interface PromptDefinition {
+  name: string
+  description: string
+  arguments: PromptArgument[]
+  /** Text of the user message, from arguments whose required ones are present */
+  render: (args: Record<string, string | undefined>, tool: ToolNamer) => string
+}
+
+/**
+ * What an MCP server needs to answer prompts/* requests
+ */
+export interface PromptHost {
+  list(): PromptListing[]
+  get(name: string, args?: Record<string, string>, tool?: ToolNamer): PromptResult
+}
+
+export class PromptRegistry implements PromptHost {
+  private prompts = new Map<string, PromptDefinition>()
+
+  constructor(prompts: PromptDefinition[]) {
+    for (const prompt of prompts) {
+      if (this.prompts.has(prompt.name)) throw new Error(`Prompt ${prompt.name} is defined twice`)
+      this.prompts.set(prompt.name, prompt)
+    }
+  }
+
+  /**
+   * prompts/list entries, in definition order
+   */
+  list(): PromptListing[] {
+    return [...this.prompts.values()].map(({ name, description, arguments: args }) => ({
+      name,
+      description,
+      arguments: args
+    }))
+  }
+
+  get(name: string, args: Record<string, string> = {}, tool: ToolNamer = name => name): PromptResult {
+    const prompt = this.prompts.get(name)
+    if (!prompt) throw new ValidationError(`Unknown prompt: ${name}`)
+
+    const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim())
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Invalid arguments for prompt ${name}: ${missing.map(argument => `${argument.name} is required`).join('; ')}`
+      )
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args, tool) } }]
+    }
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Per-provider token-bucket rate limiter shared by every MCP server in the process.
+ * Concurrent tool calls acquire a token before each upstream request, so a burst of
+ * provisioning calls throttles itself instead of tripping the provider's 429s.
+ */
+
+export interface RateLimitBudget {
+  /** Maximum burst size (tokens held when idle) */
+  capacity: number
+  /** Sustained requests per second */
+  refillPerSecond: number
+}
+
+/**
+ * Default budgets, kept below each provider's published limits:
+ * GitHub 5000/h (plus secondary limits), Netlify 500/min, Supabase Management API 120/min,
+ * Vercel per endpoint (project and env var changes 120/min), Stripe 25/s in test mode.
+ */
+const DEFAULT_BUDGETS: Record<string, RateLimitBudget> = {
+  'api.github.com': { capacity: 10, refillPerSecond: 1 },
+  'api.netlify.com': { capacity: 10, refillPerSecond: 5 },
+  'api.supabase.com': { capacity: 5, refillPerSecond: 1.5 },
+  'api.vercel.com': { capacity: 10, refillPerSecond: 1.5 },
+  'api.stripe.com': { capacity: 10, refillPerSecond: 20 }
+}
+
+const FALLBACK_BUDGET: RateLimitBudget = { capacity: 10, refillPerSecond: 5 }
+
+export class TokenBucket {
+  private tokens: number
+  private lastRefill: number
+  private pausedUntil = 0
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(private budget: RateLimitBudget) {
+    this.tokens = budget.capacity
+    this.lastRefill = Date.now()
+  }
+
+  /**
+   * Wait until a token is available, then consume it.
+   * Waiters are served in arrival order.
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take())
+    this.queue = turn.catch(() => undefined)
+    return turn
+  }
+
+  /**
+   * Stop handing out tokens until the given time (e.g. a provider's rate limit reset)
+   */
+  pauseUntil(timestamp: number): void {
+    if (timestamp > this.pausedUntil) {
+      this.pausedUntil = timestamp
+      this.tokens = 0
+    }
+  }
+
+  getState(): { availableTokens: number; pausedUntil?: string } & RateLimitBudget {
+    this.refill()
+    return {
+      ...this.budget,
+      availableTokens: Math.floor(this.tokens),
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined
+    }
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now()
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now)
+        continue
+      }
+
+      this.refill()
+      if (this.tokens >= 1) {
+        this.tokens -= 1
+        return
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.budget.refillPerSecond) * 1000))
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    const elapsed = Math.max(0, now - Math.max(this.lastRefill, this.pausedUntil))
+    this.tokens = Math.min(this.budget.capacity, this.tokens + (elapsed / 1000) * this.budget.refillPerSecond)
+    this.lastRefill = now
+  }
+}
+
+const limiters = new Map<string, TokenBucket>()
+
+function hostOf(urlOrHost: string): string {
+  try {
+    return new URL(urlOrHost).host
+  } catch {
+    return urlOrHost
+  }
+}
+
+/**
+ * Get the shared limiter for a provider host (accepts a full URL or a bare host)
+ */
+export function getRateLimiter(urlOrHost: string): TokenBucket {
+  const host = hostOf(urlOrHost)
+  let limiter = limiters.get(host)
+  if (!limiter) {
+    limiter = new TokenBucket(DEFAULT_BUDGETS[host] || FALLBACK_BUDGET)
+    limiters.set(host, limiter)
+  }
+  return limiter
+}
+
+/**
+ * Override the budget for a provider host. Replaces any existing limiter for that host.
+ */
+export function configureRateLimit(urlOrHost: string, budget: RateLimitBudget): void {
+  limiters.set(hostOf(urlOrHost), new TokenBucket(budget))
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(r => setTimeout(r, ms))
+}
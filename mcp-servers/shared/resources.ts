@@ -0,0 +1,145 @@
+/**
+ * Declarative MCP resources
+ *
+ * Provisioned resources (a Supabase project, a site's deploys, a repository
+ * tree) are readable by URI, so an agent can pull context without issuing
+ * tool calls. Each resource is defined once by a URI template such as
+ * netlify://sites/{id}, which is what resources/templates/list advertises and
+ * what a read is matched against. Servers report the resources their tools
+ * change, and subscribed clients are notified.
+ */
+
+import { ValidationError } from './errors.js'
+
+const MIME_TYPE = 'application/json'
+
+// Type aliases rather than interfaces so they are assignable to the SDK's result types
+export type ResourceListing = {
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
+export type ResourceTemplateListing = {
+  uriTemplate: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
+export type ResourceContents = {
+  contents: Array<{ uri: string; mimeType: string; text: string }>
+}
+
+export type ResourceChange = { kind: 'updated'; uri: string } | { kind: 'list_changed' }
+
+export interface ResourceDefinition {
+  /** URI with {variable} placeholders, each matching one path segment */
+  uriTemplate: string
+  name: string
+  description: string
+  /** Resources of this template that exist now; left out when they cannot be enumerated */
+  list?: () => Promise<ResourceListing[]>
+  /** Contents for the template variables, served as JSON */
+  read: (params: Record<string, string>) => Promise<unknown>
+}
+
+/**
+ * What an MCP server needs to answer resources/* requests
+ */
+export interface ResourceHost {
+  listTemplates(): ResourceTemplateListing[]
+  list(): Promise<ResourceListing[]>
+  read(uri: string): Promise<ResourceContents>
+  /** Returns a function that removes the listener */
+  onChange(listener: (change: ResourceChange) => void): () => void
+}
+
+/**
+ * Variables of a URI matched against a template, or undefined if it does not
+ * match; a variable with a malformed %-escape is a ValidationError
+ */
+function matchTemplate(template: string, uri: string): Record<string, string> | undefined {
+  const names: string[] = []
+  const pattern = template
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const variable = /^\{(\w+)\}$/.exec(part)
+      if (!variable) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      names.push(variable[1])
+      return '([^/]+)'
+    })
+    .join('')
+
+  const match = new RegExp(`^${pattern}$`).exec(uri)
+  if (!match) return undefined
+  try {
+    return Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]))
+  } catch (error: unknown) {
+    if (error instanceof URIError) throw new ValidationError(`Malformed resource URI: ${uri}`)
+    throw error
+  }
+}
+
+export class ResourceRegistry implements ResourceHost {
+  private listeners = new Set<(change: ResourceChange) => void>()
+
+  constructor(private resources: ResourceDefinition[]) {}
+
+  /**
+   * resources/templates/list entries, in definition order
+   */
+  listTemplates(): ResourceTemplateListing[] {
+    return this.resources.map(resource => ({
+      uriTemplate: resource.uriTemplate,
+      name: resource.name,
+      description: resource.description,
+      mimeType: MIME_TYPE
+    }))
+  }
+
+  /**
+   * resources/list entries: every resource that can be enumerated
+   */
+  async list(): Promise<ResourceListing[]> {
+    const listed = await Promise.all(this.resources.map(resource => resource.list?.() ?? []))
+    return listed.flat().map(resource => ({ mimeType: MIME_TYPE, ...resource }))
+  }
+
+  async read(uri: string): Promise<ResourceContents> {
+    for (const resource of this.resources) {
+      const params = matchTemplate(resource.uriTemplate, uri)
+      if (!params) continue
+
+      const data = await resource.read(params)
+      return { contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }] }
+    }
+    throw new ValidationError(`Unknown resource: ${uri}`)
+  }
+
+  onChange(listener: (change: ResourceChange) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Report that a tool changed what a resource reads
+   */
+  updated(uri: string): void {
+    this.emit({ kind: 'updated', uri })
+  }
+
+  /**
+   * Report that a tool created or deleted resources
+   */
+  listChanged(): void {
+    this.emit({ kind: 'list_changed' })
+  }
+
+  private emit(change: ResourceChange): void {
+    for (const listener of this.listeners) listener(change)
+  }
+}
@@ -1,21 +1,77 @@
 /**
  * Retry utility with exponential backoff for MCP server API calls.
  * Retries on transient HTTP errors (429, 502, 503, 504) by default.
+ * Honors Retry-After / X-RateLimit-Reset hints and applies full jitter.
  */
 
-export class RetryableError extends Error {
-  status?: number
-  constructor(message: string, status?: number) {
-    super(message)
-    this.status = status
+import { getRateLimiter } from './rate-limiter.js'
+import { getCircuitBreaker } from './circuit-breaker.js'
+import { RateLimitedError, errorFromResponse } from './errors.js'
+import { createLogger } from './logger.js'
+
+export { RetryableError } from './errors.js'
+
+const logger = createLogger('retry')
+
+/**
+ * Read the server's retry hint from response headers, in milliseconds from now.
+ * Retry-After may be delta-seconds or an HTTP date; X-RateLimit-Reset is an epoch
+ * timestamp in seconds and only applies once the remaining budget is exhausted.
+ */
+export function getRetryAfterMs(headers: Headers | undefined, now: number = Date.now()): number | undefined {
+  if (!headers) return undefined
+
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000)
+    }
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now)
+    }
+  }
+
+  const reset = headers.get('x-ratelimit-reset')
+  if (reset && headers.get('x-ratelimit-remaining') === '0') {
+    const resetSeconds = Number(reset)
+    if (!Number.isNaN(resetSeconds)) {
+      return Math.max(0, resetSeconds * 1000 - now)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * How long to wait before retry number `attempt` (0-based). Without a hint this
+ * is full jitter: uniform in [0, backoff]. When the server says when to come
+ * back, wait that long and spread clients out past the hint.
+ */
+export function retryDelayMs(
+  attempt: number,
+  hint: number | undefined,
+  { initialDelayMs, maxDelayMs }: { initialDelayMs: number; maxDelayMs: number }
+): number {
+  if (hint !== undefined) {
+    return Math.round(hint + Math.random() * initialDelayMs)
   }
+  const backoff = Math.min(maxDelayMs, initialDelayMs * Math.pow(2, attempt))
+  return Math.round(Math.random() * backoff)
 }
 
+/**
+ * Retry fn on transient failures. A retry hint longer than maxDelayMs is not
+ * shortened (retrying before the reset only burns the remaining attempts);
+ * the call fails with a rate_limited error saying when to come back instead.
+ */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   options: {
     maxRetries?: number
     initialDelayMs?: number
+    maxDelayMs?: number
     retryOn?: number[]
     label?: string
   } = {}
@@ -23,6 +79,7 @@ export async function withRetry<T>(
   const {
     maxRetries = 3,
     initialDelayMs = 1000,
+    maxDelayMs = 60000,
     retryOn = [429, 502, 503, 504],
     label = 'API call'
   } = options
@@ -36,9 +93,28 @@ export async function withRetry<T>(
       lastError = err
       const status = err.status || err.statusCode
 
+      // Errors that know they are not worth retrying (e.g. an open circuit) fail fast
+      if (err.retryable === false) {
+        throw err
+      }
+
       if (attempt < maxRetries && (!status || retryOn.includes(status))) {
-        const delay = initialDelayMs * Math.pow(2, attempt)
-        console.error(`[Retry] ${label} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delay}ms...`)
+        const hint = getRetryAfterMs(err.headers)
+        if (hint !== undefined && hint > maxDelayMs) {
+          throw new RateLimitedError(
+            `${label} is rate limited for another ${Math.ceil(hint / 1000)}s, longer than the ${Math.round(maxDelayMs / 1000)}s retry limit: ${err.message}`,
+            { provider: err.provider, status, code: err.code, headers: err.headers }
+          )
+        }
+
+        const delay = retryDelayMs(attempt, hint, { initialDelayMs, maxDelayMs })
+        logger.warn(`${label} failed, retrying`, {
+          attempt: attempt + 1,
+          maxAttempts: maxRetries + 1,
+          status,
+          delayMs: delay,
+          error: err
+        })
         await new Promise(r => setTimeout(r, delay))
         continue
       }
@@ -51,24 +127,36 @@ export async function withRetry<T>(
 }
 
 /**
- * Wrapper for fetch that throws RetryableError with the HTTP status code,
- * enabling withRetry to make status-based retry decisions.
+ * Wrapper for fetch that throws a typed ProviderError (a RetryableError) with the
+ * HTTP status code and response headers, enabling withRetry to make status-based
+ * retry decisions.
+ * Each request first takes a token from the provider host's shared rate limiter;
+ * a 429 with a retry hint pauses that limiter for every caller. Requests go
+ * through the host's circuit breaker, which fails fast while the provider is down.
+ * Pass `fetchImpl` to route the request through an injected HTTP client.
  */
 export async function fetchWithRetrySupport(
   url: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  fetchImpl: typeof fetch = fetch
 ): Promise<Response> {
-  const response = await fetch(url, options)
+  return getCircuitBreaker(url).execute(() => rateLimitedFetch(url, options, fetchImpl))
+}
+
+async function rateLimitedFetch(url: string, options: RequestInit, fetchImpl: typeof fetch): Promise<Response> {
+  const limiter = getRateLimiter(url)
+  await limiter.acquire()
+
+  const response = await fetchImpl(url, options)
   if (!response.ok) {
-    const body = await response.text()
-    let message: string
-    try {
-      const json = JSON.parse(body)
-      message = json.message || json.error || body
-    } catch {
-      message = body
+    if (response.status === 429) {
+      const hint = getRetryAfterMs(response.headers)
+      if (hint !== undefined) {
+        limiter.pauseUntil(Date.now() + hint)
+      }
     }
-    throw new RetryableError(message, response.status)
+
+    throw await errorFromResponse(response, `Request failed with status ${response.status}`)
   }
   return response
 }
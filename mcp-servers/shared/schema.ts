@@ -0,0 +1,263 @@
+/**
+ * Tool input schemas
+ *
+ * A schema is written once per tool and gives three things: the JSON Schema
+ * advertised in tools/list, the TypeScript type of the arguments (Infer) and
+ * a runtime check. The check reports every problem at once, each with the path
+ * of the offending argument (e.g. files[1].path), and rejects unknown
+ * arguments so a typo does not silently fall back to a default.
+ *
+ * Defaults are advertised only; handlers apply them when destructuring.
+ */
+
+import { ValidationError } from './errors.js'
+
+export type JsonSchema = Record<string, unknown>
+
+export interface ObjectJsonSchema {
+  [keyword: string]: unknown
+  type: 'object'
+  properties: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties: boolean | JsonSchema
+  description?: string
+}
+
+export interface SchemaIssue {
+  /** Path of the argument, or '' for the arguments object itself */
+  path: string
+  message: string
+}
+
+export interface Schema<T, Optional extends boolean = false> {
+  readonly jsonSchema: JsonSchema
+  readonly optional: Optional
+  /** Record the problems of value, found at path */
+  check(value: unknown, path: string, issues: SchemaIssue[]): void
+  /** Carries T for Infer; never set */
+  readonly type?: T
+}
+
+type AnySchema = Schema<any, boolean>
+
+export type Infer<S> = S extends Schema<infer T, boolean> ? T : never
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type Properties = Record<string, AnySchema>
+
+type InferProperties<P extends Properties> = Simplify<
+  { [K in keyof P as P[K]['optional'] extends true ? never : K]: Infer<P[K]> } &
+  { [K in keyof P as P[K]['optional'] extends true ? K : never]?: Infer<P[K]> }
+>
+
+export interface ObjectSchema<P extends Properties> extends Schema<InferProperties<P>> {
+  readonly jsonSchema: ObjectJsonSchema
+  readonly properties: P
+}
+
+interface Annotations {
+  description?: string
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  return typeof value === 'string' ? JSON.stringify(value) : `a ${typeof value}`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function child(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * JSON Schema keywords with undefined ones left out
+ */
+function keywords(schema: Record<string, unknown>): JsonSchema {
+  return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined))
+}
+
+interface StringOptions extends Annotations {
+  default?: string
+  /** Minimum length; 1 rejects empty strings */
+  minLength?: number
+  pattern?: RegExp
+}
+
+export function string(options?: StringOptions): Schema<string>
+export function string<const E extends string>(options: StringOptions & { enum: readonly E[] }): Schema<E>
+export function string(options: StringOptions & { enum?: readonly string[] } = {}): Schema<string> {
+  const { description, default: defaultValue, minLength, pattern, enum: allowed } = options
+
+  return {
+    jsonSchema: keywords({
+      type: 'string',
+      description,
+      enum: allowed,
+      default: defaultValue,
+      minLength,
+      pattern: pattern?.source
+    }),
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `must be a string, got ${describe(value)}` })
+      } else if (allowed && !allowed.includes(value)) {
+        issues.push({ path, message: `must be one of ${allowed.join(', ')}, got ${describe(value)}` })
+      } else if (minLength !== undefined && value.length < minLength) {
+        issues.push({ path, message: minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters` })
+      } else if (pattern && !pattern.test(value)) {
+        issues.push({ path, message: `must match ${pattern.source}, got ${describe(value)}` })
+      }
+    }
+  }
+}
+
+interface NumberOptions extends Annotations {
+  default?: number
+  integer?: boolean
+  minimum?: number
+  maximum?: number
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  const { description, default: defaultValue, integer, minimum, maximum } = options
+
+  return {
+    jsonSchema: keywords({
+      type: integer ? 'integer' : 'number',
+      description,
+      default: defaultValue,
+      minimum,
+      maximum
+    }),
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path, message: `must be a number, got ${describe(value)}` })
+      } else if (integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `must be an integer, got ${value}` })
+      } else if (minimum !== undefined && value < minimum) {
+        issues.push({ path, message: `must be at least ${minimum}, got ${value}` })
+      } else if (maximum !== undefined && value > maximum) {
+        issues.push({ path, message: `must be at most ${maximum}, got ${value}` })
+      }
+    }
+  }
+}
+
+export function boolean(options: Annotations & { default?: boolean } = {}): Schema<boolean> {
+  const { description, default: defaultValue } = options
+
+  return {
+    jsonSchema: keywords({ type: 'boolean', description, default: defaultValue }),
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `must be true or false, got ${describe(value)}` })
+      }
+    }
+  }
+}
+
+export function array<T>(
+  items: Schema<T, boolean>,
+  options: Annotations & { default?: T[]; minItems?: number } = {}
+): Schema<T[]> {
+  const { description, default: defaultValue, minItems } = options
+
+  return {
+    jsonSchema: keywords({ type: 'array', description, items: items.jsonSchema, default: defaultValue, minItems }),
+    optional: false,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be an array, got ${describe(value)}` })
+        return
+      }
+      if (minItems !== undefined && value.length < minItems) {
+        issues.push({ path, message: minItems === 1 ? 'must not be empty' : `must have at least ${minItems} items` })
+      }
+      value.forEach((item, index) => items.check(item, `${path}[${index}]`, issues))
+    }
+  }
+}
+
+/**
+ * Object with known properties. Properties are required unless wrapped in
+ * optional(), and unknown properties are rejected.
+ */
+export function object<P extends Properties>(properties: P, options: Annotations = {}): ObjectSchema<P> {
+  const required = Object.keys(properties).filter(key => !properties[key].optional)
+
+  return {
+    jsonSchema: {
+      type: 'object',
+      ...(options.description ? { description: options.description } : {}),
+      properties: Object.fromEntries(Object.entries(properties).map(([key, schema]) => [key, schema.jsonSchema])),
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false
+    },
+    properties,
+    optional: false,
+    check(value, path, issues) {
+      if (!isObject(value)) {
+        issues.push({ path, message: `must be an object, got ${describe(value)}` })
+        return
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in properties)) issues.push({ path: child(path, key), message: 'is not a known field' })
+      }
+      for (const [key, schema] of Object.entries(properties)) {
+        if (value[key] === undefined) {
+          if (!schema.optional) issues.push({ path: child(path, key), message: 'is required' })
+        } else {
+          schema.check(value[key], child(path, key), issues)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Object with arbitrary keys, e.g. environment variables by name
+ */
+export function record<T>(values: Schema<T, boolean>, options: Annotations = {}): Schema<Record<string, T>> {
+  return {
+    jsonSchema: keywords({ type: 'object', description: options.description, additionalProperties: values.jsonSchema }),
+    optional: false,
+    check(value, path, issues) {
+      if (!isObject(value)) {
+        issues.push({ path, message: `must be an object, got ${describe(value)}` })
+        return
+      }
+      for (const [key, item] of Object.entries(value)) values.check(item, child(path, key), issues)
+    }
+  }
+}
+
+/**
+ * Property that may be left out
+ */
+export function optional<T>(schema: Schema<T, boolean>): Schema<T, true> {
+  return { ...schema, optional: true }
+}
+
+/**
+ * Check arguments against a schema, throwing a ValidationError that lists
+ * every problem
+ */
+export function parseInput<S extends AnySchema>(schema: S, value: unknown, label = 'arguments'): Infer<S> {
+  const issues: SchemaIssue[] = []
+  schema.check(value, '', issues)
+
+  if (issues.length > 0) {
+    const problems = issues.map(issue => (issue.path ? `${issue.path} ${issue.message}` : issue.message))
+    throw new ValidationError(`Invalid ${label}: ${problems.join('; ')}`)
+  }
+
+  return value as Infer<S>
+}
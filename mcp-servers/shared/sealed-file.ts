@@ -0,0 +1,186 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Sealed vault files
+ *
+ * A sealed file is the SecretVault's contents encrypted with AES-256-GCM under a
+ * key derived from a passphrase (scrypt) or supplied directly as a 32-byte key.
+ * It lets a crashed provisioning run recover generated credentials.
+ */
+
+export interface SealOptions {
+  /** Passphrase to derive the file key from with scrypt */
+  passphrase?: string
+  /** Raw 32-byte key, as a Buffer or a base64/hex string */
+  key?: Buffer | string
+}
+
+interface SealedFileHeader {
+  format: 'shipme-sealed-vault'
+  version: 1
+  kdf:
+    | { name: 'scrypt'; salt: string; N: number; r: number; p: number }
+    | { name: 'none' }
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+/**
+ * A derived file key plus the KDF parameters needed to derive it again
+ */
+export interface SealKey {
+  key: Buffer
+  kdf: SealedFileHeader['kdf']
+}
+
+export class SealedFileError extends Error {
+  constructor(filePath: string, reason: string) {
+    super(`Cannot open sealed vault ${filePath}: ${reason}`)
+    this.name = 'SealedFileError'
+  }
+}
+
+const AAD = Buffer.from('shipme-sealed-vault:v1', 'utf8')
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 }
+
+function parseRawKey(key: Buffer | string): Buffer {
+  const buffer = typeof key === 'string'
+    ? Buffer.from(key, /^[0-9a-f]{64}$/i.test(key) ? 'hex' : 'base64')
+    : Buffer.from(key)
+  if (buffer.length !== 32) {
+    throw new Error('Sealed vault key must be 32 bytes (base64 or hex encoded)')
+  }
+  return buffer
+}
+
+function scrypt(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, { ...params, maxmem: 128 * params.N * params.r * 2 })
+}
+
+/**
+ * Derive a fresh file key (new random salt for passphrases)
+ */
+export function deriveSealKey(options: SealOptions): SealKey {
+  if (options.key) {
+    return { key: parseRawKey(options.key), kdf: { name: 'none' } }
+  }
+  if (!options.passphrase) {
+    throw new Error('Sealing a vault requires a passphrase or a key')
+  }
+
+  const salt = crypto.randomBytes(16)
+  return {
+    key: scrypt(options.passphrase, salt, SCRYPT_PARAMS),
+    kdf: { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS }
+  }
+}
+
+/**
+ * Encrypt a payload and write it atomically with owner-only permissions
+ */
+export function writeSealedFile(filePath: string, payload: object, sealKey: SealKey): void {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', sealKey.key, iv)
+  cipher.setAAD(AAD)
+  const plaintext = Buffer.from(JSON.stringify(payload), 'utf8')
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  plaintext.fill(0)
+
+  const header: SealedFileHeader = {
+    format: 'shipme-sealed-vault',
+    version: 1,
+    kdf: sealKey.kdf,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(header, null, 2) + '\n', { mode: 0o600 })
+  fs.renameSync(tmpPath, filePath)
+}
+
+/**
+ * Read and decrypt a sealed file. Returns the payload and the key that opened
+ * it, so the caller can re-seal without running the KDF again.
+ */
+export function readSealedFile<T = unknown>(
+  filePath: string,
+  options: SealOptions
+): { payload: T; sealKey: SealKey } {
+  let header: SealedFileHeader
+  try {
+    header = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new SealedFileError(filePath, (error as Error).message)
+  }
+  if (header.format !== 'shipme-sealed-vault' || header.version !== 1) {
+    throw new SealedFileError(filePath, 'unsupported file format')
+  }
+
+  let key: Buffer
+  if (header.kdf.name === 'scrypt') {
+    if (!options.passphrase) {
+      throw new SealedFileError(filePath, 'file is sealed with a passphrase')
+    }
+    const { salt, N, r, p } = header.kdf
+    key = scrypt(options.passphrase, Buffer.from(salt, 'base64'), { N, r, p })
+  } else {
+    if (!options.key) {
+      throw new SealedFileError(filePath, 'file is sealed with a key')
+    }
+    key = parseRawKey(options.key)
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(header.iv, 'base64'))
+    decipher.setAAD(AAD)
+    decipher.setAuthTag(Buffer.from(header.tag, 'base64'))
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(header.ciphertext, 'base64')),
+      decipher.final()
+    ])
+    const payload = JSON.parse(plaintext.toString('utf8')) as T
+    plaintext.fill(0)
+    return { payload, sealKey: { key, kdf: header.kdf } }
+  } catch {
+    key.fill(0)
+    throw new SealedFileError(filePath, 'wrong passphrase/key, or the file was modified')
+  }
+}
+
+/**
+ * Overwrite a file with random bytes, flush it to disk, then remove it
+ */
+export function wipeFile(filePath: string): void {
+  let fd: number
+  try {
+    fd = fs.openSync(filePath, 'r+')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+    throw error
+  }
+
+  try {
+    const size = fs.fstatSync(fd).size
+    fs.writeSync(fd, crypto.randomBytes(size), 0, size, 0)
+    fs.fsyncSync(fd)
+  } finally {
+    fs.closeSync(fd)
+  }
+  fs.unlinkSync(filePath)
+}
+
+/**
+ * Sealing options from SHIPME_VAULT_KEY / SHIPME_VAULT_PASSPHRASE, if either is set
+ */
+export function sealOptionsFromEnv(): SealOptions | undefined {
+  const key = process.env.SHIPME_VAULT_KEY
+  const passphrase = process.env.SHIPME_VAULT_PASSPHRASE
+  if (!key && !passphrase) return undefined
+  return { key: key || undefined, passphrase: passphrase || undefined }
+}
@@ -0,0 +1,56 @@
+import crypto from 'crypto'
+import { SecretVault, maskSecret } from './secret-vault.js'
+
+/**
+ * Secret output handling for credential-returning tools
+ *
+ * In 'reference' mode, sensitive result fields are moved into the vault and the
+ * result carries {{secrets.<name>}} handles plus masked previews, so credentials
+ * never reach the agent's context. 'plaintext' returns values unchanged.
+ */
+
+export type SecretOutputMode = 'reference' | 'plaintext'
+
+/**
+ * SHIPME_SECRET_OUTPUT=reference enables vault references (default: plaintext)
+ */
+export function secretOutputModeFromEnv(): SecretOutputMode {
+  return process.env.SHIPME_SECRET_OUTPUT === 'reference' ? 'reference' : 'plaintext'
+}
+
+export function secretReference(name: string): string {
+  return `{{secrets.${name}}}`
+}
+
+/**
+ * Fingerprint of a value, for comparing configuration (e.g. env vars) without
+ * revealing it
+ */
+export function hashSecret(value: string): string {
+  return `sha256:${crypto.createHash('sha256').update(value).digest('hex').slice(0, 16)}`
+}
+
+/**
+ * Store the listed fields of a result in the vault and replace them with
+ * references. `fields` maps result field -> vault secret name. Empty fields are
+ * left as they are.
+ */
+export async function vaultSensitiveFields<T extends object>(
+  result: T,
+  fields: Partial<Record<keyof T & string, string>>,
+  vault: SecretVault
+): Promise<T & { secret_previews: Record<string, string> }> {
+  const output = { ...result } as Record<string, unknown>
+  const previews: Record<string, string> = {}
+
+  for (const [field, secretName] of Object.entries(fields) as Array<[string, string]>) {
+    const value = output[field]
+    if (typeof value !== 'string' || value === '') continue
+
+    await vault.store(secretName, value)
+    output[field] = secretReference(secretName)
+    previews[field] = maskSecret(value)
+  }
+
+  return { ...(output as T), secret_previews: previews }
+}
@@ -1,16 +1,132 @@
 import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { getLogContext, registerSecretValue, unregisterSecretValue } from './logger.js'
+import {
+  deriveSealKey,
+  readSealedFile,
+  sealOptionsFromEnv,
+  wipeFile,
+  writeSealedFile
+} from './sealed-file.js'
+import type { SealKey, SealOptions } from './sealed-file.js'
+import { PermissionError, ValidationError } from './errors.js'
+
+export { generatePassphrase, generatePassword } from './password.js'
+
+/**
+ * Current storage format version. Entries are stored as
+ * `v1:<iv>:<auth tag>:<ciphertext>` (base64 fields).
+ */
+const STORAGE_VERSION = 'v1'
+
+/**
+ * A {{secrets.name}} reference; whitespace inside the braces is allowed
+ */
+export const SECRET_REFERENCE_PATTERN = /\{\{\s*secrets\.([\w-]+)\s*\}\}/g
+
+/**
+ * Thrown when a stored entry has been tampered with, truncated, or is in an
+ * unknown format, so it cannot be authenticated
+ */
+export class VaultIntegrityError extends Error {
+  key: string
+  constructor(key: string, reason: string) {
+    super(`Secret '${key}' failed integrity check: ${reason}`)
+    this.name = 'VaultIntegrityError'
+    this.key = key
+  }
+}
+
+/**
+ * Thrown when a secret's access policy does not allow the current reader
+ */
+export class VaultAccessDeniedError extends PermissionError {
+  constructor(key: string, accessor?: string) {
+    super(`Access to secret '${key}' denied for ${accessor ? `'${accessor}'` : 'unidentified reader'}`)
+    this.name = 'VaultAccessDeniedError'
+  }
+}
+
+export interface StoreOptions {
+  /** Lifetime in milliseconds; the secret is purged automatically afterwards */
+  ttlMs?: number
+  /**
+   * Readers allowed to retrieve the secret, as "server.tool", "server.*" or "*".
+   * Omit to allow any reader.
+   */
+  allowedReaders?: string[]
+}
+
+export type VaultAccessAction = 'store' | 'read' | 'denied' | 'delete' | 'expire' | 'destroy'
+
+/**
+ * One audit trail record. Never contains secret values.
+ */
+export interface VaultAccessEntry {
+  timestamp: string
+  action: VaultAccessAction
+  key: string
+  accessor?: string
+  correlationId?: string
+}
+
+interface SecretPolicy {
+  expiresAt?: number
+  allowedReaders?: string[]
+}
+
+/**
+ * Sealed file payload entry
+ */
+interface SealedSecret {
+  value: string
+  expiresAt?: number
+  allowedReaders?: string[]
+}
+
+/**
+ * Identify the current reader from the tool call being logged ("server.tool")
+ */
+function currentAccessor(): string | undefined {
+  const context = getLogContext()
+  if (!context?.server) return undefined
+  return context.tool ? `${context.server}.${context.tool}` : context.server
+}
+
+function readerAllowed(allowedReaders: string[], accessor?: string): boolean {
+  return allowedReaders.some(pattern =>
+    pattern === '*' ||
+    pattern === accessor ||
+    (!!accessor && pattern.endsWith('.*') && accessor.startsWith(pattern.slice(0, -1)))
+  )
+}
 
 /**
  * SecretVault - In-memory encrypted credential storage
  *
  * Provides secure temporary storage for credentials during provisioning.
- * All secrets are encrypted with AES-256-CBC and stored only in memory.
- * The vault is destroyed when provisioning completes.
+ * All secrets are encrypted with AES-256-GCM, with the secret's key name bound
+ * as associated data so an entry cannot be swapped to another name, and stored
+ * in memory. Stored values are registered with the logger so they are masked
+ * in log output. The vault is destroyed when provisioning completes.
+ *
+ * Secrets can carry a TTL and a reader allow-list. Every store, read, denial,
+ * delete and expiry is appended to an access log (keys and readers, never
+ * values) that outlives destroy() so it can be exported for review.
+ *
+ * Opt-in: seal() mirrors the vault to an encrypted file after every change so a
+ * crashed provisioning run can unseal() it and resume.
  */
 export class SecretVault {
   private secrets: Map<string, string> = new Map()
+  private policies: Map<string, SecretPolicy> = new Map()
+  private expiryTimers: Map<string, NodeJS.Timeout> = new Map()
+  private accessLog: VaultAccessEntry[] = []
+  private auditTarget?: string
   private encryptionKey: Buffer
   private isDestroyed: boolean = false
+  private sealTarget?: { filePath: string; sealKey: SealKey }
 
   constructor() {
     // Generate random encryption key (AES-256 requires 32 bytes)
@@ -20,58 +136,114 @@ export class SecretVault {
   /**
    * Store a secret value with encryption
    */
-  async store(key: string, value: string): Promise<void> {
+  async store(key: string, value: string, options: StoreOptions = {}): Promise<void> {
     if (this.isDestroyed) {
       throw new Error('Vault has been destroyed')
     }
 
-    const iv = crypto.randomBytes(16) // Initialization vector
-    const cipher = crypto.createCipheriv('aes-256-cbc', this.encryptionKey, iv)
+    if (options.ttlMs !== undefined && options.ttlMs <= 0) {
+      throw new ValidationError(`TTL for secret '${key}' must be positive`)
+    }
 
-    let encrypted = cipher.update(value, 'utf8', 'hex')
-    encrypted += cipher.final('hex')
+    this.clearExpiryTimer(key)
+    this.secrets.set(key, this.encrypt(key, value, this.encryptionKey))
+    this.policies.set(key, {
+      expiresAt: options.ttlMs !== undefined ? Date.now() + options.ttlMs : undefined,
+      allowedReaders: options.allowedReaders
+    })
+    if (options.ttlMs !== undefined) {
+      const timer = setTimeout(() => this.purgeExpired(), options.ttlMs)
+      timer.unref()
+      this.expiryTimers.set(key, timer)
+    }
 
-    // Store format: iv:encrypted_value
-    this.secrets.set(key, `${iv.toString('hex')}:${encrypted}`)
+    registerSecretValue(value)
+    this.audit('store', key)
+    this.persist()
   }
 
   /**
-   * Retrieve and decrypt a secret value
+   * Retrieve and decrypt a secret value.
+   * The reader defaults to the current tool call ("server.tool").
    */
-  async retrieve(key: string): Promise<string | null> {
+  async retrieve(key: string, options: { accessor?: string } = {}): Promise<string | null> {
     if (this.isDestroyed) {
       throw new Error('Vault has been destroyed')
     }
 
+    this.purgeExpired()
     const stored = this.secrets.get(key)
     if (!stored) return null
 
-    const [ivHex, encrypted] = stored.split(':')
-    const iv = Buffer.from(ivHex, 'hex')
-    const decipher = crypto.createDecipheriv('aes-256-cbc', this.encryptionKey, iv)
-
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8')
-    decrypted += decipher.final('utf8')
+    const accessor = options.accessor ?? currentAccessor()
+    const allowedReaders = this.policies.get(key)?.allowedReaders
+    if (allowedReaders && !readerAllowed(allowedReaders, accessor)) {
+      this.audit('denied', key, accessor)
+      throw new VaultAccessDeniedError(key, accessor)
+    }
 
-    return decrypted
+    this.audit('read', key, accessor)
+    return this.decrypt(key, stored)
   }
 
   /**
    * Resolve template references like {{secrets.xxx}}
+   * Any number of references may be embedded in the string.
    * Used in provisioning plan execution
    */
   async resolve(reference: string): Promise<string> {
+    return this.resolveDeep(reference)
+  }
+
+  /**
+   * Resolve every {{secrets.xxx}} reference inside strings anywhere in a value
+   * (nested objects and arrays included), returning a resolved copy.
+   * Throws a ValidationError naming every missing reference and where it was found.
+   */
+  async resolveDeep<T>(value: T): Promise<T> {
     if (this.isDestroyed) {
       throw new Error('Vault has been destroyed')
     }
 
-    // Handle {{secrets.xxx}} format
-    const match = reference.match(/\{\{secrets\.(\w+)\}\}/)
-    if (!match) return reference
+    const missing: string[] = []
+    const resolved = await this.resolveValue(value, '', missing)
+    if (missing.length > 0) {
+      throw new ValidationError(`Secret reference(s) not found in vault: ${missing.join(', ')}`)
+    }
+    return resolved as T
+  }
+
+  private async resolveValue(value: unknown, location: string, missing: string[]): Promise<unknown> {
+    if (typeof value === 'string') {
+      const names = Array.from(value.matchAll(SECRET_REFERENCE_PATTERN), match => match[1])
+      if (names.length === 0) return value
+
+      const values = new Map<string, string>()
+      for (const name of names) {
+        const secret = await this.retrieve(name)
+        if (secret === null) {
+          missing.push(`{{secrets.${name}}}${location ? ` (at ${location})` : ''}`)
+        } else {
+          values.set(name, secret)
+        }
+      }
+      return value.replace(SECRET_REFERENCE_PATTERN, (match, name: string) => values.get(name) ?? match)
+    }
 
-    const value = await this.retrieve(match[1])
-    if (!value) {
-      throw new Error(`Secret '${match[1]}' not found in vault`)
+    if (Array.isArray(value)) {
+      const items: unknown[] = []
+      for (let i = 0; i < value.length; i++) {
+        items.push(await this.resolveValue(value[i], `${location}[${i}]`, missing))
+      }
+      return items
+    }
+
+    if (value && typeof value === 'object') {
+      const entries: Record<string, unknown> = {}
+      for (const [key, item] of Object.entries(value)) {
+        entries[key] = await this.resolveValue(item, location ? `${location}.${key}` : key, missing)
+      }
+      return entries
     }
 
     return value
@@ -84,6 +256,7 @@ export class SecretVault {
     if (this.isDestroyed) {
       throw new Error('Vault has been destroyed')
     }
+    this.purgeExpired()
     return Array.from(this.secrets.keys())
   }
 
@@ -91,6 +264,10 @@ export class SecretVault {
    * Check if a secret exists
    */
   has(key: string): boolean {
+    if (this.isDestroyed) {
+      throw new Error('Vault has been destroyed')
+    }
+    this.purgeExpired()
     return this.secrets.has(key)
   }
 
@@ -98,7 +275,57 @@ export class SecretVault {
    * Delete a specific secret
    */
   delete(key: string): boolean {
-    return this.secrets.delete(key)
+    if (this.isDestroyed) {
+      throw new Error('Vault has been destroyed')
+    }
+    if (!this.secrets.has(key)) return false
+
+    this.remove(key)
+    this.audit('delete', key)
+    this.persist()
+    return true
+  }
+
+  /**
+   * Remove every secret whose TTL has elapsed
+   */
+  purgeExpired(): void {
+    if (this.isDestroyed) return
+
+    const now = Date.now()
+    let purged = false
+    for (const [key, policy] of this.policies) {
+      if (policy.expiresAt !== undefined && policy.expiresAt <= now) {
+        this.remove(key)
+        this.audit('expire', key)
+        purged = true
+      }
+    }
+    if (purged) this.persist()
+  }
+
+  /**
+   * Append-only access log: who stored, read, was denied, deleted or lost
+   * (expiry) which secret, and when. Available after destroy().
+   */
+  getAccessLog(): VaultAccessEntry[] {
+    return this.accessLog.map(entry => ({ ...entry }))
+  }
+
+  /**
+   * Append every future access log entry to a file, one JSON object per line
+   */
+  recordAccessLogTo(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    this.auditTarget = filePath
+  }
+
+  /**
+   * Write the access log to a file as JSON (owner-only permissions)
+   */
+  exportAccessLog(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, JSON.stringify(this.accessLog, null, 2) + '\n', { mode: 0o600 })
   }
 
   /**
@@ -106,15 +333,184 @@ export class SecretVault {
    * IMPORTANT: This is irreversible
    */
   destroy(): void {
-    // Clear all secrets
-    this.secrets.clear()
+    if (this.isDestroyed) return
+
+    // Stop masking values that no longer exist, then clear all secrets
+    for (const key of Array.from(this.secrets.keys())) {
+      try {
+        this.remove(key)
+      } catch {
+        // A corrupted entry never decrypted, so it was never logged in plaintext
+        this.secrets.delete(key)
+      }
+    }
 
     // Overwrite encryption key with zeros
     this.encryptionKey.fill(0)
 
+    // Securely remove the sealed copy, if any
+    if (this.sealTarget) {
+      wipeFile(this.sealTarget.filePath)
+      this.sealTarget.sealKey.key.fill(0)
+      this.sealTarget = undefined
+    }
+
+    this.audit('destroy', '*')
     this.isDestroyed = true
   }
 
+  /**
+   * Re-encrypt every entry under a freshly generated key, then wipe the old key.
+   * Entries are verified while re-encrypting, so a tampered entry aborts the rotation.
+   */
+  async rotateKey(): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Vault has been destroyed')
+    }
+
+    const newKey = crypto.randomBytes(32)
+    const reencrypted = new Map<string, string>()
+
+    try {
+      for (const [key, stored] of this.secrets) {
+        reencrypted.set(key, this.encrypt(key, this.decrypt(key, stored), newKey))
+      }
+    } catch (error) {
+      newKey.fill(0)
+      throw error
+    }
+
+    this.encryptionKey.fill(0)
+    this.encryptionKey = newKey
+    this.secrets = reencrypted
+  }
+
+  /**
+   * Write the vault to a sealed file and keep that file in sync: every later
+   * store() or delete() re-seals it, and destroy() securely wipes it.
+   * The file key is derived from options.passphrase (scrypt) or is options.key.
+   */
+  async seal(filePath: string, options: SealOptions): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Vault has been destroyed')
+    }
+
+    this.sealTarget?.sealKey.key.fill(0)
+    this.sealTarget = { filePath, sealKey: deriveSealKey(options) }
+    this.persist()
+  }
+
+  /**
+   * Restore a vault from a file written by seal(). The returned vault stays
+   * sealed to the same file.
+   */
+  static async unseal(filePath: string, options: SealOptions): Promise<SecretVault> {
+    const { payload, sealKey } = readSealedFile<Record<string, SealedSecret>>(filePath, options)
+
+    const vault = new SecretVault()
+    const now = Date.now()
+    for (const [key, entry] of Object.entries(payload)) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) continue
+      await vault.store(key, entry.value, {
+        ttlMs: entry.expiresAt !== undefined ? entry.expiresAt - now : undefined,
+        allowedReaders: entry.allowedReaders
+      })
+    }
+    vault.sealTarget = { filePath, sealKey }
+    return vault
+  }
+
+  private persist(): void {
+    if (!this.sealTarget) return
+
+    const payload: Record<string, SealedSecret> = {}
+    for (const [key, stored] of this.secrets) {
+      payload[key] = { value: this.decrypt(key, stored), ...this.policies.get(key) }
+    }
+    writeSealedFile(this.sealTarget.filePath, payload, this.sealTarget.sealKey)
+  }
+
+  /**
+   * Drop a secret, its policy and its expiry timer, and stop masking its value
+   */
+  private remove(key: string): void {
+    const stored = this.secrets.get(key)
+    this.secrets.delete(key)
+    this.policies.delete(key)
+    this.clearExpiryTimer(key)
+    if (stored) {
+      unregisterSecretValue(this.decrypt(key, stored))
+    }
+  }
+
+  private clearExpiryTimer(key: string): void {
+    const timer = this.expiryTimers.get(key)
+    if (timer) {
+      clearTimeout(timer)
+      this.expiryTimers.delete(key)
+    }
+  }
+
+  private audit(action: VaultAccessAction, key: string, accessor: string | undefined = currentAccessor()): void {
+    const entry: VaultAccessEntry = {
+      timestamp: new Date().toISOString(),
+      action,
+      key,
+      accessor,
+      correlationId: getLogContext()?.correlationId
+    }
+    this.accessLog.push(entry)
+    if (this.auditTarget) {
+      fs.appendFileSync(this.auditTarget, JSON.stringify(entry) + '\n', { mode: 0o600 })
+    }
+  }
+
+  private encrypt(key: string, value: string, encryptionKey: Buffer): string {
+    const iv = crypto.randomBytes(12) // 96-bit nonce, as recommended for GCM
+    const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv)
+    cipher.setAAD(Buffer.from(key, 'utf8'))
+
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+    const tag = cipher.getAuthTag()
+
+    return [
+      STORAGE_VERSION,
+      iv.toString('base64'),
+      tag.toString('base64'),
+      encrypted.toString('base64')
+    ].join(':')
+  }
+
+  private decrypt(key: string, stored: string): string {
+    const parts = stored.split(':')
+    if (parts[0] !== STORAGE_VERSION) {
+      throw new VaultIntegrityError(key, `unsupported storage format '${parts[0]}'`)
+    }
+    if (parts.length !== 4) {
+      throw new VaultIntegrityError(key, 'malformed entry')
+    }
+
+    const [, ivB64, tagB64, encryptedB64] = parts
+    const iv = Buffer.from(ivB64, 'base64')
+    const tag = Buffer.from(tagB64, 'base64')
+    if (iv.length !== 12 || tag.length !== 16) {
+      throw new VaultIntegrityError(key, 'malformed entry')
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv)
+      decipher.setAAD(Buffer.from(key, 'utf8'))
+      decipher.setAuthTag(tag)
+
+      return Buffer.concat([
+        decipher.update(Buffer.from(encryptedB64, 'base64')),
+        decipher.final()
+      ]).toString('utf8')
+    } catch {
+      throw new VaultIntegrityError(key, 'authentication failed (entry was modified or truncated)')
+    }
+  }
+
   /**
    * Get vault status
    */
@@ -127,18 +523,47 @@ export class SecretVault {
 }
 
 /**
- * Utility: Generate a secure random password
+ * Open the process vault. When SHIPME_VAULT_FILE and a key or passphrase
+ * (SHIPME_VAULT_KEY / SHIPME_VAULT_PASSPHRASE) are set, the vault is restored
+ * from that sealed file if it exists and kept sealed to it; otherwise it lives
+ * only in memory. SHIPME_VAULT_AUDIT_FILE appends the access log to a file as
+ * it grows. Pass a scope when several processes share the environment, so each
+ * gets its own files (vault.sealed -> vault.supabase.sealed).
  */
-export function generatePassword(length: number = 32): string {
-  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*'
-  const random = crypto.randomBytes(length)
-  let password = ''
+export async function openVaultFromEnv(scope?: string): Promise<SecretVault> {
+  const vault = await openSealedVaultFromEnv(scope)
 
-  for (let i = 0; i < length; i++) {
-    password += charset[random[i] % charset.length]
+  const auditFile = process.env.SHIPME_VAULT_AUDIT_FILE
+  if (auditFile) {
+    vault.recordAccessLogTo(scopedPath(auditFile, scope))
+  }
+  return vault
+}
+
+async function openSealedVaultFromEnv(scope?: string): Promise<SecretVault> {
+  const options = sealOptionsFromEnv()
+  const vaultFile = process.env.SHIPME_VAULT_FILE
+  if (!vaultFile || !options) {
+    return new SecretVault()
+  }
+
+  const filePath = scopedPath(vaultFile, scope)
+  if (fs.existsSync(filePath)) {
+    return SecretVault.unseal(filePath, options)
   }
 
-  return password
+  const vault = new SecretVault()
+  await vault.seal(filePath, options)
+  return vault
+}
+
+/**
+ * Insert a scope before the extension: vault.sealed -> vault.supabase.sealed
+ */
+function scopedPath(filePath: string, scope?: string): string {
+  if (!scope) return filePath
+  const ext = path.extname(filePath)
+  return `${filePath.slice(0, filePath.length - ext.length)}.${scope}${ext}`
 }
 
 /**
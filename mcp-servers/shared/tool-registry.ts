@@ -0,0 +1,83 @@
+/**
+ * Declarative tool registry
+ *
+ * Each tool is defined once with its input schema (shared/schema.ts), which
+ * is both what tools/list advertises and what arguments are checked against
+ * before the handler runs, so a missing or misspelled argument is reported to
+ * the agent instead of reaching the provider API.
+ */
+
+import { ValidationError } from './errors.js'
+import { parseInput } from './schema.js'
+import type { Infer, ObjectJsonSchema, ObjectSchema } from './schema.js'
+
+// A type alias rather than an interface so it is assignable to the SDK's result types
+export type ToolResult = {
+  content: Array<{ type: string; text: string }>
+  isError?: boolean
+}
+
+export interface ToolDefinition<S extends ObjectSchema<any> = ObjectSchema<any>> {
+  name: string
+  description: string
+  input: S
+  /** Runs with arguments that passed the schema and the resolved dry-run flag */
+  handler: (args: Infer<S>, dryRun: boolean) => Promise<ToolResult>
+}
+
+export interface ToolListing {
+  name: string
+  description: string
+  inputSchema: ObjectJsonSchema
+}
+
+/**
+ * Identity helper that ties the handler's argument type to the schema
+ */
+export function defineTool<S extends ObjectSchema<any>>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>()
+
+  constructor(tools: ToolDefinition<any>[]) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) throw new Error(`Tool ${tool.name} is defined twice`)
+      this.tools.set(tool.name, tool)
+    }
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name)
+  }
+
+  /**
+   * tools/list entries, in definition order
+   */
+  list(): ToolListing[] {
+    return [...this.tools.values()].map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.input.jsonSchema
+    }))
+  }
+
+  /**
+   * Check the arguments against the tool's schema and run it. resolve (e.g.
+   * SecretVault.resolveDeep) runs on arguments that passed the check, so
+   * validation messages quote the {{secrets.*}} references, never their values.
+   */
+  async call(
+    name: string,
+    args: Record<string, unknown>,
+    dryRun: boolean,
+    resolve?: <T>(args: T) => Promise<T>
+  ): Promise<ToolResult> {
+    const tool = this.tools.get(name)
+    if (!tool) throw new ValidationError(`Unknown tool: ${name}`)
+
+    const parsed = parseInput(tool.input, args, `arguments for ${name}`)
+    return tool.handler(resolve ? await resolve(parsed) : parsed, dryRun)
+  }
+}
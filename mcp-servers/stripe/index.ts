@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+import { StripeMCPServer } from './server.js'
+import { cassetteFetchFromEnv } from '../shared/cassette.js'
+import { createLogger } from '../shared/logger.js'
+import { openVaultFromEnv } from '../shared/secret-vault.js'
+import { secretOutputModeFromEnv } from '../shared/secret-output.js'
+import { dryRunFromEnv } from '../shared/dry-run.js'
+
+/**
+ * ShipMe Stripe MCP Server - entry point (stdio, or HTTP with SHIPME_TRANSPORT=http)
+ */
+
+const logger = createLogger('stripe')
+
+const testSecretKey = process.env.STRIPE_SECRET_KEY
+const liveSecretKey = process.env.STRIPE_LIVE_SECRET_KEY // Optional (live mode tools)
+if (!testSecretKey && !liveSecretKey) {
+  logger.error('STRIPE_SECRET_KEY environment variable is required', {
+    help: 'Get your test mode keys from: https://dashboard.stripe.com/test/apikeys'
+  })
+  process.exit(1)
+}
+
+const apiUrl = process.env.STRIPE_API_URL // Optional (local mock, e.g. stripe-mock)
+const fetch = cassetteFetchFromEnv('stripe') // Optional (record/replay harness)
+const vault = await openVaultFromEnv('stripe') // Sealed to SHIPME_VAULT_FILE when configured
+
+const server = new StripeMCPServer({
+  testSecretKey,
+  testPublishableKey: process.env.STRIPE_PUBLISHABLE_KEY,
+  liveSecretKey,
+  livePublishableKey: process.env.STRIPE_LIVE_PUBLISHABLE_KEY,
+  apiUrl,
+  fetch,
+  vault,
+  secretOutput: secretOutputModeFromEnv(),
+  dryRun: dryRunFromEnv()
+})
+server.run().catch((error) => {
+  logger.error('Fatal error', { error })
+  process.exit(1)
+})
@@ -0,0 +1,63 @@
+/**
+ * ShipMe Stripe MCP Server - Tool Input Schemas
+ */
+
+import { array, number, object, optional, string } from '../shared/schema.js'
+import { dryRunArgument } from '../shared/dry-run.js'
+
+export const PRICE_INTERVALS = ['day', 'week', 'month', 'year'] as const
+export const STRIPE_RESOURCE_TYPES = ['products', 'prices', 'webhooks'] as const
+
+export const DEFAULT_WEBHOOK_PATH = '/api/webhooks/stripe'
+
+const mode = optional(string({ description: 'Stripe mode whose key is used', enum: ['test', 'live'], default: 'test' }))
+
+export const priceInput = object({
+  unit_amount: number({ description: 'Amount in the smallest currency unit (e.g. cents)', integer: true, minimum: 0 }),
+  currency: optional(string({ description: 'Three-letter ISO code', default: 'usd' })),
+  interval: string({ enum: PRICE_INTERVALS }),
+  interval_count: optional(number({ integer: true, minimum: 1, default: 1 })),
+  lookup_key: optional(string({
+    description: 'Stable price name for the app to look up (defaults to "<key>_<interval>ly", e.g. pro_monthly)'
+  }))
+})
+
+export const planInput = object({
+  name: string({ description: 'Product name shown at checkout', minLength: 1 }),
+  description: optional(string()),
+  key: optional(string({
+    description: 'Stable plan identifier stored in the product metadata (defaults to the slugified name)'
+  })),
+  prices: array(priceInput, { minItems: 1 })
+})
+
+export const createProductsInput = object({
+  plans: array(planInput, {
+    description: 'Plans to offer, e.g. [{ name: "Pro", prices: [{ unit_amount: 1500, interval: "month" }] }]',
+    minItems: 1
+  }),
+  mode,
+  dry_run: dryRunArgument
+})
+
+export const createWebhookInput = object({
+  site_url: string({ description: 'Deployed site URL (https), e.g. from netlify.create_site', minLength: 1 }),
+  path: optional(string({ description: 'Webhook route of the app', default: DEFAULT_WEBHOOK_PATH })),
+  events: optional(array(string({ minLength: 1 }), {
+    description: 'Event types to send (defaults to checkout and subscription lifecycle events)'
+  })),
+  description: optional(string({ description: 'Endpoint description shown in the dashboard' })),
+  mode,
+  dry_run: dryRunArgument
+})
+
+export const getApiKeysInput = object({
+  mode
+})
+
+export const listResourcesInput = object({
+  mode,
+  types: optional(array(string({ enum: STRIPE_RESOURCE_TYPES }), { description: 'Resource types to list (defaults to all)' }))
+})
+
+export const getProviderStatusInput = object({})
@@ -0,0 +1,725 @@
+import crypto from 'crypto'
+import type {
+  StripeMCPConfig,
+  StripeMode,
+  PriceInterval,
+  PlanDefinition,
+  CreateProductsParams,
+  CreateProductsResult,
+  ProductResult,
+  PriceResult,
+  CreateWebhookParams,
+  CreateWebhookResult,
+  GetApiKeysParams,
+  GetApiKeysResult,
+  ListResourcesParams,
+  ListResourcesResult,
+  StripeResourceType
+} from './types.js'
+import { withRetry, fetchWithRetrySupport } from '../shared/retry.js'
+import { getProviderStatus } from '../shared/circuit-breaker.js'
+import {
+  ValidationError,
+  errorFromResponse,
+  toolErrorResult
+} from '../shared/errors.js'
+import { createLogger, createLoggedFetch, withLogContext } from '../shared/logger.js'
+import { SecretVault } from '../shared/secret-vault.js'
+import { vaultSensitiveFields } from '../shared/secret-output.js'
+import type { SecretOutputMode } from '../shared/secret-output.js'
+import { DryRunPreview, isDryRun } from '../shared/dry-run.js'
+import { ToolRegistry, defineTool } from '../shared/tool-registry.js'
+import { serve, transportFromEnv } from '../shared/mcp-server.js'
+import type { ServerInfo, TransportOptions } from '../shared/mcp-server.js'
+import {
+  DEFAULT_WEBHOOK_PATH,
+  createProductsInput,
+  createWebhookInput,
+  getApiKeysInput,
+  listResourcesInput,
+  getProviderStatusInput
+} from './schemas.js'
+
+/**
+ * ShipMe Stripe MCP Server
+ *
+ * Provides tools for billing setup: subscription products and prices from a
+ * plan definition, the webhook endpoint of the deployed app, and the API keys
+ * the app needs. Every create tool first looks for what an earlier run made,
+ * so running it again changes nothing.
+ */
+
+const DEFAULT_STRIPE_API_URL = 'https://api.stripe.com'
+
+/** Pinned so response shapes do not change with the account's default version */
+const STRIPE_API_VERSION = '2024-06-20'
+
+/** Checkout and subscription lifecycle, enough to keep a subscriptions table in sync */
+const DEFAULT_WEBHOOK_EVENTS = [
+  'checkout.session.completed',
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.paid',
+  'invoice.payment_failed'
+]
+
+const INTERVAL_ADVERBS: Record<PriceInterval, string> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+  year: 'yearly'
+}
+
+/** Stripe accepts at most this many lookup_keys per price list request */
+const LOOKUP_KEYS_PER_REQUEST = 10
+
+/** Metadata field marking products created from a plan definition */
+const PLAN_METADATA_KEY = 'shipme_plan'
+
+const logger = createLogger('stripe')
+
+const SERVER_INFO: ServerInfo = { name: 'shipme-stripe-mcp', version: '1.0.0' }
+
+interface StripeProduct {
+  id: string
+  name: string
+  active: boolean
+  metadata: Record<string, string>
+}
+
+interface StripePrice {
+  id: string
+  product: string
+  active: boolean
+  lookup_key: string | null
+  unit_amount: number | null
+  currency: string
+  recurring: { interval: PriceInterval; interval_count: number } | null
+}
+
+interface StripeWebhookEndpoint {
+  id: string
+  url: string
+  status: string
+  enabled_events: string[]
+  secret?: string
+}
+
+interface NormalizedPrice {
+  lookup_key: string
+  unit_amount: number
+  currency: string
+  interval: PriceInterval
+  interval_count: number
+}
+
+export class StripeMCPServer {
+  private tools: ToolRegistry
+  private vault: SecretVault
+  private secretKeys: Partial<Record<StripeMode, string>>
+  private publishableKeys: Partial<Record<StripeMode, string>>
+  private apiUrl: string
+  private fetch: typeof fetch
+  private secretOutput: SecretOutputMode
+  private dryRun: boolean
+
+  constructor(config: StripeMCPConfig) {
+    this.vault = config.vault || new SecretVault()
+    this.secretKeys = { test: config.testSecretKey, live: config.liveSecretKey }
+    this.publishableKeys = { test: config.testPublishableKey, live: config.livePublishableKey }
+    this.apiUrl = (config.apiUrl || DEFAULT_STRIPE_API_URL).replace(/\/+$/, '')
+    this.fetch = createLoggedFetch(config.fetch || fetch, logger)
+    this.secretOutput = config.secretOutput || 'plaintext'
+    this.dryRun = config.dryRun ?? false
+
+    this.tools = this.defineTools()
+  }
+
+  /**
+   * Tools with their input schemas; arguments are checked before a handler runs
+   */
+  private defineTools(): ToolRegistry {
+    return new ToolRegistry([
+      defineTool({
+        name: 'create_products',
+        description: 'Create subscription products and recurring prices from a plan definition; existing ones are reused',
+        input: createProductsInput,
+        handler: (args, dryRun) => this.createProducts(args, dryRun)
+      }),
+      defineTool({
+        name: 'create_webhook',
+        description: 'Create the webhook endpoint of the deployed app and return its signing secret',
+        input: createWebhookInput,
+        handler: (args, dryRun) => this.createWebhook(args, dryRun)
+      }),
+      defineTool({
+        name: 'get_api_keys',
+        description: 'Get the publishable and secret keys of test or live mode, after checking the secret key works',
+        input: getApiKeysInput,
+        handler: args => this.getApiKeys(args)
+      }),
+      defineTool({
+        name: 'list_resources',
+        description: 'List active products, prices and webhook endpoints',
+        input: listResourcesInput,
+        handler: args => this.listResources(args)
+      }),
+      defineTool({
+        name: 'get_provider_status',
+        description: 'Report whether the Stripe API is reachable (circuit breaker and rate limit state)',
+        input: getProviderStatusInput,
+        handler: () => this.getProviderStatus()
+      })
+    ])
+  }
+
+  /**
+   * tools/list entries
+   */
+  listTools() {
+    return this.tools.list()
+  }
+
+  /**
+   * Run a tool by name and return its MCP result. Backs tools/call on every
+   * transport and lets tools be driven in-process. {{secrets.*}} references
+   * anywhere in the arguments are resolved from the vault first.
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}) {
+    return withLogContext({ server: 'stripe', tool: name }, async () => {
+      const startedAt = Date.now()
+      logger.info('tool call started')
+
+      const result = await this.dispatchTool(name, args)
+
+      logger.info('tool call finished', {
+        success: !('isError' in result && result.isError),
+        durationMs: Date.now() - startedAt
+      })
+      return result
+    })
+  }
+
+  private async dispatchTool(name: string, args: Record<string, unknown>) {
+    try {
+      // Secrets travel between tools as {{secrets.name}} references, resolved
+      // once the arguments are valid
+      const dryRun = isDryRun(args, this.dryRun)
+      return await this.tools.call(name, args, dryRun, parsed => this.vault.resolveDeep(parsed))
+    } catch (error: unknown) {
+      return toolErrorResult(error, 'stripe')
+    }
+  }
+
+  private async createProducts(params: CreateProductsParams, dryRun: boolean) {
+    const mode = modeOf(params.mode)
+    const plans = normalizePlans(params.plans)
+
+    const preview = dryRun ? new DryRunPreview('create_products', 'stripe') : undefined
+    let products: StripeProduct[] = []
+    const loadProducts = async () => {
+      products = await this.list<StripeProduct>(mode, '/v1/products', { active: true })
+      return `${products.length} active product(s) in ${mode} mode`
+    }
+    if (preview) {
+      if (!await preview.check(`The ${mode} mode key can read products`, loadProducts)) {
+        return preview.toResult()
+      }
+    } else {
+      await loadProducts()
+    }
+
+    // Prices are matched by lookup key, wherever they live
+    const lookupKeys = plans.flatMap(plan => plan.prices.map(price => price.lookup_key))
+    const pricesByLookupKey = new Map<string, StripePrice>()
+    for (let i = 0; i < lookupKeys.length; i += LOOKUP_KEYS_PER_REQUEST) {
+      const batch = await this.list<StripePrice>(mode, '/v1/prices', {
+        active: true,
+        lookup_keys: lookupKeys.slice(i, i + LOOKUP_KEYS_PER_REQUEST)
+      })
+      batch.forEach(price => pricesByLookupKey.set(price.lookup_key!, price))
+    }
+
+    const results: ProductResult[] = []
+    for (const plan of plans) {
+      let product = products.find(candidate => candidate.metadata?.[PLAN_METADATA_KEY] === plan.key)
+      const adopted = !!product
+      if (!product) {
+        const body = {
+          name: plan.name,
+          description: plan.description,
+          metadata: { [PLAN_METADATA_KEY]: plan.key }
+        }
+        if (preview) {
+          preview.request('POST', `${this.apiUrl}/v1/products`, body)
+          preview.creates(`Product "${plan.name}" (${plan.key})`)
+        } else {
+          product = await this.post<StripeProduct>(mode, '/v1/products', body, 'Stripe product creation')
+        }
+      } else {
+        logger.info('Reusing existing product', { productId: product.id, plan: plan.key })
+      }
+
+      const prices: PriceResult[] = []
+      for (const price of plan.prices) {
+        const current = pricesByLookupKey.get(price.lookup_key)
+        if (current && product && current.product === product.id && samePrice(current, price)) {
+          prices.push({ price_id: current.id, ...price, adopted: true })
+          continue
+        }
+
+        // Prices are immutable: a changed amount or interval is a new price that
+        // takes over the lookup key, so the app picks it up without a code change
+        const body = {
+          product: product?.id ?? `<product ${plan.key}>`,
+          unit_amount: price.unit_amount,
+          currency: price.currency,
+          recurring: { interval: price.interval, interval_count: price.interval_count },
+          lookup_key: price.lookup_key,
+          nickname: `${plan.name} ${INTERVAL_ADVERBS[price.interval]}`,
+          ...(current ? { transfer_lookup_key: true } : {})
+        }
+        if (preview) {
+          preview.request('POST', `${this.apiUrl}/v1/prices`, body)
+          preview.creates(`Price ${price.lookup_key}${current ? ` (replacing ${current.id})` : ''}`)
+          continue
+        }
+
+        const created = await this.post<StripePrice>(mode, '/v1/prices', body, 'Stripe price creation')
+        prices.push({
+          price_id: created.id,
+          ...price,
+          adopted: false,
+          ...(current ? { replaced: current.id } : {})
+        })
+      }
+
+      if (product) {
+        results.push({ plan: plan.key, product_id: product.id, name: product.name, adopted, prices })
+      }
+    }
+
+    if (preview) {
+      return preview.toResult()
+    }
+
+    const result: CreateProductsResult = {
+      success: true,
+      mode,
+      products: results
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async createWebhook(params: CreateWebhookParams, dryRun: boolean) {
+    const { site_url, path = DEFAULT_WEBHOOK_PATH, description } = params
+    const mode = modeOf(params.mode)
+    const events = params.events && params.events.length > 0 ? params.events : DEFAULT_WEBHOOK_EVENTS
+
+    let url: URL
+    try {
+      url = new URL(path, site_url)
+    } catch {
+      throw new ValidationError(`site_url must be an absolute URL, got "${site_url}"`)
+    }
+    if (url.protocol !== 'https:') {
+      throw new ValidationError('Stripe only delivers webhooks to https URLs')
+    }
+    const endpointUrl = url.toString()
+    const secretName = mode === 'live' ? 'stripe_live_webhook_secret' : 'stripe_webhook_secret'
+
+    const preview = dryRun ? new DryRunPreview('create_webhook', 'stripe') : undefined
+    let existing: StripeWebhookEndpoint | undefined
+    const findExisting = async () => {
+      const endpoints = await this.list<StripeWebhookEndpoint>(mode, '/v1/webhook_endpoints')
+      existing = endpoints.find(endpoint => endpoint.url === endpointUrl)
+      return existing ? `exists (${existing.id}), would be reused` : undefined
+    }
+    if (preview) {
+      if (!await preview.check(`Webhook endpoint for ${endpointUrl}`, findExisting)) {
+        return preview.toResult()
+      }
+    } else {
+      await findExisting()
+    }
+
+    let result: CreateWebhookResult
+    if (existing) {
+      // Reuse it, subscribing it to any missing events and enabling it again
+      const enabled = existing.enabled_events
+      const missing = enabled.includes('*') ? [] : events.filter(event => !enabled.includes(event))
+      const update = {
+        ...(missing.length > 0 ? { enabled_events: [...enabled, ...missing] } : {}),
+        ...(existing.status === 'disabled' ? { disabled: false } : {})
+      }
+      if (Object.keys(update).length > 0) {
+        if (preview) {
+          preview.request('POST', `${this.apiUrl}/v1/webhook_endpoints/${existing.id}`, update)
+        } else {
+          existing = await this.post<StripeWebhookEndpoint>(
+            mode,
+            `/v1/webhook_endpoints/${existing.id}`,
+            update,
+            'Stripe webhook update'
+          )
+        }
+      }
+      if (preview) {
+        return preview.toResult()
+      }
+
+      // Stripe returns the signing secret only once, on creation
+      const secret = this.vault.has(secretName) ? await this.vault.retrieve(secretName) : null
+      result = {
+        success: true,
+        mode,
+        webhook_id: existing!.id,
+        url: existing!.url,
+        enabled_events: existing!.enabled_events,
+        ...(secret ? { signing_secret: secret } : {}),
+        adopted: true,
+        message: secret
+          ? 'Reused the existing endpoint'
+          : 'Reused the existing endpoint. Its signing secret was only returned when it was created: reveal it in the Stripe dashboard'
+      }
+    } else {
+      const body = {
+        url: endpointUrl,
+        enabled_events: events,
+        description: description || 'ShipMe app webhook',
+        api_version: STRIPE_API_VERSION
+      }
+      if (preview) {
+        preview.request('POST', `${this.apiUrl}/v1/webhook_endpoints`, body)
+        preview.creates(`Webhook endpoint ${endpointUrl} (${events.length} event type(s))`)
+        return preview.toResult()
+      }
+
+      const endpoint = await this.post<StripeWebhookEndpoint>(mode, '/v1/webhook_endpoints', body, 'Stripe webhook creation')
+      // Kept so a later run that reuses the endpoint can still hand it out
+      if (endpoint.secret) {
+        await this.vault.store(secretName, endpoint.secret)
+      }
+      result = {
+        success: true,
+        mode,
+        webhook_id: endpoint.id,
+        url: endpoint.url,
+        enabled_events: endpoint.enabled_events,
+        signing_secret: endpoint.secret,
+        adopted: false,
+        message: 'Set signing_secret as STRIPE_WEBHOOK_SECRET on the hosting site'
+      }
+    }
+
+    // Keep credentials out of the agent's context: return vault references instead
+    if (this.secretOutput === 'reference') {
+      result = await vaultSensitiveFields(result, { signing_secret: secretName }, this.vault)
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async getApiKeys(params: GetApiKeysParams) {
+    const mode = modeOf(params.mode)
+    const secretKey = this.secretKey(mode)
+
+    const publishableKey = this.publishableKeys[mode]
+    if (publishableKey && !publishableKey.startsWith(`pk_${mode}_`)) {
+      throw new ValidationError(`The configured ${mode} mode publishable key is not a ${mode} mode key`, { provider: 'stripe' })
+    }
+
+    // Proves the secret key is valid and shows which account it belongs to
+    const account = await this.get<{ id: string }>(mode, '/v1/account')
+
+    let result: GetApiKeysResult = {
+      success: true,
+      mode,
+      account_id: account.id,
+      publishable_key: publishableKey,
+      secret_key: secretKey,
+      ...(publishableKey
+        ? {}
+        : { message: `No ${mode} mode publishable key configured (${envName(mode, 'PUBLISHABLE')}); copy it from the Stripe dashboard` })
+    }
+
+    if (this.secretOutput === 'reference') {
+      result = await vaultSensitiveFields(result, {
+        secret_key: mode === 'live' ? 'stripe_live_secret_key' : 'stripe_secret_key'
+      }, this.vault)
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async listResources(params: ListResourcesParams) {
+    const mode = modeOf(params.mode)
+    const types: StripeResourceType[] = params.types && params.types.length > 0
+      ? params.types
+      : ['products', 'prices', 'webhooks']
+
+    const result: ListResourcesResult = { success: true, mode }
+
+    if (types.includes('products')) {
+      const products = await this.list<StripeProduct>(mode, '/v1/products', { active: true })
+      result.products = products.map(product => ({
+        id: product.id,
+        name: product.name,
+        ...(product.metadata?.[PLAN_METADATA_KEY] ? { plan: product.metadata[PLAN_METADATA_KEY] } : {}),
+        active: product.active
+      }))
+    }
+
+    if (types.includes('prices')) {
+      const prices = await this.list<StripePrice>(mode, '/v1/prices', { active: true })
+      result.prices = prices.map(price => ({
+        id: price.id,
+        product: price.product,
+        ...(price.lookup_key ? { lookup_key: price.lookup_key } : {}),
+        unit_amount: price.unit_amount,
+        currency: price.currency,
+        ...(price.recurring ? { interval: price.recurring.interval, interval_count: price.recurring.interval_count } : {}),
+        active: price.active
+      }))
+    }
+
+    if (types.includes('webhooks')) {
+      const endpoints = await this.list<StripeWebhookEndpoint>(mode, '/v1/webhook_endpoints')
+      result.webhooks = endpoints.map(endpoint => ({
+        id: endpoint.id,
+        url: endpoint.url,
+        status: endpoint.status,
+        enabled_events: endpoint.enabled_events
+      }))
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Secret key of a mode. Refuses a key of the other mode, so test data never
+   * lands in the live account or the other way round.
+   */
+  private secretKey(mode: StripeMode): string {
+    const key = this.secretKeys[mode]
+    if (!key) {
+      throw new ValidationError(`No ${mode} mode secret key configured (${envName(mode, 'SECRET')})`, { provider: 'stripe' })
+    }
+    if (!/^(sk|rk)_/.test(key) || !key.includes(`_${mode}_`)) {
+      throw new ValidationError(`The configured ${mode} mode secret key is not a ${mode} mode key`, { provider: 'stripe' })
+    }
+    return key
+  }
+
+  private headers(mode: StripeMode): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.secretKey(mode)}`,
+      'Stripe-Version': STRIPE_API_VERSION
+    }
+  }
+
+  private async get<T>(mode: StripeMode, path: string, query: Record<string, unknown> = {}): Promise<T> {
+    const search = encodeForm(query).toString()
+    const response = await this.fetch(`${this.apiUrl}${path}${search ? `?${search}` : ''}`, {
+      headers: this.headers(mode)
+    })
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, `GET ${path} failed`, 'stripe')
+    }
+    return await response.json() as T
+  }
+
+  /**
+   * Every item of a list endpoint, following has_more pages
+   */
+  private async list<T extends { id: string }>(
+    mode: StripeMode,
+    path: string,
+    query: Record<string, unknown> = {}
+  ): Promise<T[]> {
+    const items: T[] = []
+    let startingAfter: string | undefined
+    do {
+      const page = await this.get<{ data: T[]; has_more: boolean }>(mode, path, {
+        ...query,
+        limit: 100,
+        starting_after: startingAfter
+      })
+      items.push(...page.data)
+      startingAfter = page.has_more && page.data.length > 0 ? page.data[page.data.length - 1].id : undefined
+    } while (startingAfter)
+    return items
+  }
+
+  /**
+   * Form-encoded POST. The Idempotency-Key is fixed across withRetry attempts,
+   * so a retry after a lost response returns the first result instead of
+   * creating a duplicate.
+   */
+  private async post<T>(mode: StripeMode, path: string, params: Record<string, unknown>, label: string): Promise<T> {
+    const body = encodeForm(params).toString()
+    const idempotencyKey = crypto.randomUUID()
+
+    const response = await withRetry(
+      () => fetchWithRetrySupport(`${this.apiUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          ...this.headers(mode),
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Idempotency-Key': idempotencyKey
+        },
+        body
+      }, this.fetch),
+      { label }
+    )
+
+    return await response.json() as T
+  }
+
+  private async getProviderStatus() {
+    const result = getProviderStatus(this.apiUrl)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Serve the tools over the transport SHIPME_TRANSPORT selects (stdio by default)
+   */
+  async run(transport: TransportOptions = transportFromEnv()) {
+    const where = await serve(this, SERVER_INFO, transport)
+    logger.info(`Stripe MCP Server running on ${where}`)
+  }
+}
+
+function modeOf(mode: StripeMode | undefined): StripeMode {
+  return mode ?? 'test'
+}
+
+function envName(mode: StripeMode, kind: 'SECRET' | 'PUBLISHABLE'): string {
+  return mode === 'live' ? `STRIPE_LIVE_${kind}_KEY` : `STRIPE_${kind}_KEY`
+}
+
+/**
+ * Check what the input schema cannot (blank names, unique keys, currencies) and
+ * fill in defaults (plan keys, currencies, lookup keys)
+ */
+function normalizePlans(plans: PlanDefinition[]): Array<{
+  key: string
+  name: string
+  description?: string
+  prices: NormalizedPrice[]
+}> {
+  const planKeys = new Set<string>()
+  const lookupKeys = new Set<string>()
+  return plans.map((plan, index) => {
+    if (plan.name.trim() === '') {
+      throw new ValidationError(`plans[${index}].name must not be blank`)
+    }
+    const key = plan.key || plan.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+    if (!key || planKeys.has(key)) {
+      throw new ValidationError(`plans[${index}]: plan key "${key}" is empty or used twice; set a unique key`)
+    }
+    planKeys.add(key)
+
+    const prices = plan.prices.map((price, priceIndex): NormalizedPrice => {
+      const at = `plans[${index}].prices[${priceIndex}]`
+      const currency = (price.currency || 'usd').toLowerCase()
+      if (!/^[a-z]{3}$/.test(currency)) {
+        throw new ValidationError(`${at}.currency must be a three-letter ISO code`)
+      }
+      const intervalCount = price.interval_count ?? 1
+
+      const lookupKey = price.lookup_key || (intervalCount === 1
+        ? `${key}_${INTERVAL_ADVERBS[price.interval]}`
+        : `${key}_every_${intervalCount}_${price.interval}s`)
+      if (lookupKeys.has(lookupKey)) {
+        throw new ValidationError(`${at}: lookup key "${lookupKey}" is used twice`)
+      }
+      lookupKeys.add(lookupKey)
+
+      return {
+        lookup_key: lookupKey,
+        unit_amount: price.unit_amount,
+        currency,
+        interval: price.interval,
+        interval_count: intervalCount
+      }
+    })
+
+    return { key, name: plan.name.trim(), description: plan.description, prices }
+  })
+}
+
+function samePrice(live: StripePrice, wanted: NormalizedPrice): boolean {
+  return live.unit_amount === wanted.unit_amount &&
+    live.currency === wanted.currency &&
+    live.recurring?.interval === wanted.interval &&
+    live.recurring?.interval_count === wanted.interval_count
+}
+
+/**
+ * Stripe's form encoding: nested objects as a[b]=c, arrays of scalars as a[]=x,
+ * arrays of objects as a[0][b]=c. Undefined values are left out.
+ */
+function encodeForm(
+  params: Record<string, unknown>,
+  prefix?: string,
+  form: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue
+    const name = prefix ? `${prefix}[${key}]` : key
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (item && typeof item === 'object') {
+          encodeForm(item as Record<string, unknown>, `${name}[${index}]`, form)
+        } else {
+          form.append(`${name}[]`, String(item))
+        }
+      })
+    } else if (value !== null && typeof value === 'object') {
+      encodeForm(value as Record<string, unknown>, name, form)
+    } else {
+      form.append(name, String(value))
+    }
+  }
+  return form
+}
@@ -0,0 +1,144 @@
+/**
+ * ShipMe Stripe MCP Server - Type Definitions
+ *
+ * Tool parameters are derived from the input schemas in schemas.ts.
+ */
+
+import type { SecretVault } from '../shared/secret-vault.js'
+import type { SecretOutputMode } from '../shared/secret-output.js'
+import type { Infer } from '../shared/schema.js'
+import type {
+  PRICE_INTERVALS,
+  STRIPE_RESOURCE_TYPES,
+  priceInput,
+  planInput,
+  createProductsInput,
+  createWebhookInput,
+  getApiKeysInput,
+  listResourcesInput
+} from './schemas.js'
+
+export type StripeMode = 'test' | 'live'
+
+export interface StripeMCPConfig {
+  /** Test mode secret or restricted key (sk_test_... / rk_test_...) */
+  testSecretKey?: string
+  testPublishableKey?: string
+  /** Live mode secret or restricted key (sk_live_... / rk_live_...) */
+  liveSecretKey?: string
+  livePublishableKey?: string
+  /** API base URL (defaults to https://api.stripe.com) */
+  apiUrl?: string
+  /** HTTP client used for every API request (defaults to global fetch) */
+  fetch?: typeof fetch
+  /** Vault used to resolve {{secrets.*}} references in tool arguments */
+  vault?: SecretVault
+  /** 'reference' returns keys and signing secrets as {{secrets.*}} vault handles (defaults to 'plaintext') */
+  secretOutput?: SecretOutputMode
+  /** Preview mutating tools instead of running them (a per-call dry_run argument overrides) */
+  dryRun?: boolean
+}
+
+export type PriceInterval = typeof PRICE_INTERVALS[number]
+
+export type PriceDefinition = Infer<typeof priceInput>
+
+export type PlanDefinition = Infer<typeof planInput>
+
+export type CreateProductsParams = Infer<typeof createProductsInput>
+
+export interface PriceResult {
+  price_id: string
+  lookup_key: string
+  unit_amount: number
+  currency: string
+  interval: PriceInterval
+  interval_count: number
+  /** True when an identical price already existed */
+  adopted: boolean
+  /** Price that held the lookup key before, when the amount or interval changed */
+  replaced?: string
+}
+
+export interface ProductResult {
+  plan: string
+  product_id: string
+  name: string
+  adopted: boolean
+  prices: PriceResult[]
+}
+
+export interface CreateProductsResult {
+  success: boolean
+  mode?: StripeMode
+  products?: ProductResult[]
+  error?: string
+}
+
+export type CreateWebhookParams = Infer<typeof createWebhookInput>
+
+export interface CreateWebhookResult {
+  success: boolean
+  mode?: StripeMode
+  webhook_id?: string
+  url?: string
+  enabled_events?: string[]
+  /** whsec_... signing secret; Stripe only returns it when the endpoint is created */
+  signing_secret?: string
+  secret_previews?: Record<string, string>
+  adopted?: boolean
+  message?: string
+  error?: string
+}
+
+export type GetApiKeysParams = Infer<typeof getApiKeysInput>
+
+export interface GetApiKeysResult {
+  success: boolean
+  mode?: StripeMode
+  account_id?: string
+  publishable_key?: string
+  secret_key?: string
+  secret_previews?: Record<string, string>
+  message?: string
+  error?: string
+}
+
+export type StripeResourceType = typeof STRIPE_RESOURCE_TYPES[number]
+
+export type ListResourcesParams = Infer<typeof listResourcesInput>
+
+export interface ListResourcesResult {
+  success: boolean
+  mode?: StripeMode
+  products?: Array<{
+    id: string
+    name: string
+    plan?: string
+    active: boolean
+  }>
+  prices?: Array<{
+    id: string
+    product: string
+    lookup_key?: string
+    unit_amount: number | null
+    currency: string
+    interval?: PriceInterval
+    interval_count?: number
+    active: boolean
+  }>
+  webhooks?: Array<{
+    id: string
+    url: string
+    status: string
+    enabled_events: string[]
+  }>
+  error?: string
+}
+
+export interface StripeAPIError {
+  type?: string
+  code?: string
+  message: string
+  status?: number
+}
@@ -0,0 +1,33 @@
+/**
+ * ShipMe Supabase MCP Server - Prompts
+ */
+
+import type { PromptDefinition } from '../shared/prompts.js'
+
+export const designSchemaPrompt: PromptDefinition = {
+  name: 'design_schema',
+  description: 'Design a Postgres schema with row level security for a project description and apply it',
+  arguments: [
+    { name: 'project_description', description: 'What the application does and what data it keeps', required: true },
+    { name: 'project_ref', description: 'Supabase project to apply the schema to; omit to only write the migration' }
+  ],
+  render: ({ project_description, project_ref }, tool) => [
+    `Design the database schema for this application:\n\n${project_description}`,
+    '',
+    project_ref
+      ? `Start from the tables that already exist: read the resource supabase://projects/${project_ref}/schema and extend them instead of recreating them.`
+      : 'Assume an empty public schema.',
+    '',
+    'Requirements:',
+    '- Tables in the public schema with uuid primary keys (default gen_random_uuid()), created_at timestamptz default now(), and foreign keys with explicit ON DELETE behaviour.',
+    '- Rows owned by a user reference auth.users(id) through a user_id column.',
+    '- Row level security enabled on every table, with policies that check auth.uid(); nothing is readable or writable without a policy.',
+    '- Indexes on foreign keys and on the columns the application filters by.',
+    '- Idempotent statements (CREATE TABLE IF NOT EXISTS, DROP POLICY IF EXISTS before CREATE POLICY) so the migration can run again.',
+    '',
+    'Write it as one migration file in supabase/migrations/ named <timestamp>_<name>.sql; `shipme provision` applies the files there to every environment in name order.',
+    project_ref
+      ? `Then call ${tool('execute_sql')} with project_ref "${project_ref}" and dry_run: true to check it, apply it with ${tool('execute_sql')}, and read supabase://projects/${project_ref}/schema to confirm the result.`
+      : 'Show the migration and explain each table and policy before anything is applied.'
+  ].join('\n')
+}
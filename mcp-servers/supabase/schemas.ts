@@ -0,0 +1,82 @@
+/**
+ * ShipMe Supabase MCP Server - Tool Input Schemas
+ */
+
+import { boolean, object, optional, string } from '../shared/schema.js'
+import { dryRunArgument } from '../shared/dry-run.js'
+
+export const AUTH_PROVIDERS = ['google', 'github', 'gitlab', 'bitbucket', 'azure'] as const
+
+const projectRef = string({ description: 'Supabase project reference ID', minLength: 1 })
+
+export const createProjectInput = object({
+  name: string({ description: 'Project name (will be slugified for the project reference)', minLength: 1 }),
+  region: optional(string({ description: 'AWS region (e.g., us-east-1, eu-west-1, ap-southeast-1)', default: 'us-east-1' })),
+  db_password: optional(string({
+    description: 'Database password (min 12 characters). Omit to have a strong password generated and stored in the vault'
+  })),
+  plan: optional(string({ enum: ['free', 'pro'], description: 'Pricing plan', default: 'free' })),
+  ensure: optional(boolean({
+    description: 'Adopt an existing project with the same name instead of creating a duplicate',
+    default: false
+  })),
+  environment: optional(string({
+    description: 'Environment the project serves (e.g. staging); credentials of environments other than production are stored in the vault under their own names'
+  })),
+  dry_run: dryRunArgument
+})
+
+export const executeSQLInput = object({
+  project_ref: projectRef,
+  sql: string({
+    description: 'SQL statement(s) to execute. Can be multiple statements separated by semicolons.',
+    minLength: 1
+  }),
+  dry_run: dryRunArgument
+})
+
+export const configureAuthProviderInput = object({
+  project_ref: projectRef,
+  provider: string({ enum: AUTH_PROVIDERS, description: 'OAuth provider to configure' }),
+  client_id: string({ description: 'OAuth application client ID', minLength: 1 }),
+  client_secret: string({ description: 'OAuth application client secret', minLength: 1 }),
+  redirect_uri: optional(string({ description: 'Optional redirect URI (defaults to Supabase auth callback)' })),
+  dry_run: dryRunArgument
+})
+
+export const getProjectInfoInput = object({
+  project_ref: projectRef,
+  include_auth_providers: optional(boolean({ description: 'Also list the enabled auth providers (one more API call)' }))
+})
+
+export const deleteProjectInput = object({
+  project_ref: projectRef,
+  confirm: string({ description: 'Must repeat project_ref to confirm the deletion' }),
+  dry_run: dryRunArgument
+})
+
+export const createBranchInput = object({
+  project_ref: string({
+    description: 'Reference of the parent (production) project; branching must be enabled on it',
+    minLength: 1
+  }),
+  branch_name: string({ description: 'Name of the database branch', minLength: 1 }),
+  git_branch: optional(string({ description: 'Git branch the database branch follows' })),
+  environment: optional(string({
+    description: 'Environment the branch serves; its credentials are stored in the vault under their own names (defaults to branch_name)'
+  })),
+  ensure: optional(boolean({ description: 'Adopt an existing branch with the same name instead of failing', default: false })),
+  dry_run: dryRunArgument
+})
+
+export const listBranchesInput = object({
+  project_ref: string({ description: 'Reference of the parent project', minLength: 1 })
+})
+
+export const deleteBranchInput = object({
+  branch_id: string({ description: 'Branch ID (from create_branch or list_branches)', minLength: 1 }),
+  confirm: string({ description: 'Must repeat branch_id to confirm the deletion' }),
+  dry_run: dryRunArgument
+})
+
+export const getProviderStatusInput = object({})
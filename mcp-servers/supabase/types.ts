@@ -1,18 +1,41 @@
 /**
  * ShipMe Supabase MCP Server - Type Definitions
+ *
+ * Tool parameters are derived from the input schemas in schemas.ts.
  */
 
+import type { SecretVault } from '../shared/secret-vault.js'
+import type { SecretOutputMode } from '../shared/secret-output.js'
+import type { Infer } from '../shared/schema.js'
+import type {
+  createProjectInput,
+  executeSQLInput,
+  configureAuthProviderInput,
+  getProjectInfoInput,
+  deleteProjectInput,
+  createBranchInput,
+  listBranchesInput,
+  deleteBranchInput
+} from './schemas.js'
+
 export interface SupabaseMCPConfig {
   accessToken: string
   organizationId?: string
+  /** Management API base URL (defaults to https://api.supabase.com/v1) */
+  apiUrl?: string
+  /** HTTP client used for every API request (defaults to global fetch) */
+  fetch?: typeof fetch
+  /** Vault used to resolve {{secrets.*}} references in tool arguments */
+  vault?: SecretVault
+  /** Delay between project readiness polls (defaults to 5000ms) */
+  pollIntervalMs?: number
+  /** 'reference' returns credentials as {{secrets.*}} vault handles (defaults to 'plaintext') */
+  secretOutput?: SecretOutputMode
+  /** Preview mutating tools instead of running them (a per-call dry_run argument overrides) */
+  dryRun?: boolean
 }
 
-export interface CreateProjectParams {
-  name: string
-  region?: string
-  db_password: string
-  plan?: 'free' | 'pro'
-}
+export type CreateProjectParams = Infer<typeof createProjectInput>
 
 export interface CreateProjectResult {
   success: boolean
@@ -23,14 +46,18 @@ export interface CreateProjectResult {
   anon_key?: string
   service_role_key?: string
   db_connection_string?: string
+  /** True when db_password was omitted and generated by the server */
+  db_password_generated?: boolean
+  /** True when an existing project was adopted instead of created */
+  adopted?: boolean
+  environment?: string
   dashboard_url?: string
+  /** Masked previews of fields returned as vault references */
+  secret_previews?: Record<string, string>
   error?: string
 }
 
-export interface ExecuteSQLParams {
-  project_ref: string
-  sql: string
-}
+export type ExecuteSQLParams = Infer<typeof executeSQLInput>
 
 export interface ExecuteSQLResult {
   success: boolean
@@ -38,13 +65,7 @@ export interface ExecuteSQLResult {
   error?: string
 }
 
-export interface ConfigureAuthProviderParams {
-  project_ref: string
-  provider: 'google' | 'github' | 'gitlab' | 'bitbucket' | 'azure'
-  client_id: string
-  client_secret: string
-  redirect_uri?: string
-}
+export type ConfigureAuthProviderParams = Infer<typeof configureAuthProviderInput>
 
 export interface ConfigureAuthProviderResult {
   success: boolean
@@ -53,9 +74,7 @@ export interface ConfigureAuthProviderResult {
   error?: string
 }
 
-export interface GetProjectInfoParams {
-  project_ref: string
-}
+export type GetProjectInfoParams = Infer<typeof getProjectInfoInput>
 
 export interface GetProjectInfoResult {
   success: boolean
@@ -67,6 +86,60 @@ export interface GetProjectInfoResult {
   region?: string
   status?: string
   created_at?: string
+  /** Enabled auth providers, e.g. email, github (with include_auth_providers) */
+  auth_providers?: string[]
+  error?: string
+}
+
+export type DeleteProjectParams = Infer<typeof deleteProjectInput>
+
+export interface DeleteProjectResult {
+  success: boolean
+  project_ref?: string
+  /** False when the project did not exist */
+  deleted?: boolean
+  message?: string
+  error?: string
+}
+
+export type CreateBranchParams = Infer<typeof createBranchInput>
+
+/**
+ * Credentials of the branch's own project, as for create_project, plus the branch
+ */
+export interface CreateBranchResult extends CreateProjectResult {
+  branch_id?: string
+  branch_name?: string
+  parent_project_ref?: string
+  git_branch?: string
+}
+
+export type ListBranchesParams = Infer<typeof listBranchesInput>
+
+export interface ListBranchesResult {
+  success: boolean
+  project_ref?: string
+  branches?: Array<{
+    branch_id: string
+    name: string
+    /** Reference of the branch's own project */
+    project_ref: string
+    git_branch?: string
+    /** True for the production branch (the parent project itself) */
+    is_default: boolean
+    status: string
+  }>
+  error?: string
+}
+
+export type DeleteBranchParams = Infer<typeof deleteBranchInput>
+
+export interface DeleteBranchResult {
+  success: boolean
+  branch_id?: string
+  /** False when the branch did not exist */
+  deleted?: boolean
+  message?: string
   error?: string
 }
 
@@ -0,0 +1,94 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { CircuitBreaker, ProviderUnavailableError, getCircuitBreaker, getProviderStatus } from '../shared/circuit-breaker.js'
+import { NotFoundError, TransientError } from '../shared/errors.js'
+
+const serverError = () => Promise.reject(new TransientError('Service unavailable', { status: 503 }))
+const networkError = () => Promise.reject(new TypeError('fetch failed'))
+const ok = () => Promise.resolve('ok')
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+test('the circuit opens after the threshold of consecutive 5xx or network failures', async () => {
+  const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 3 })
+
+  await assert.rejects(breaker.execute(serverError), /Service unavailable/)
+  await assert.rejects(breaker.execute(networkError), /fetch failed/)
+  assert.equal(breaker.getStatus().state, 'closed')
+
+  await assert.rejects(breaker.execute(serverError), /Service unavailable/)
+  const status = breaker.getStatus()
+  assert.equal(status.state, 'open')
+  assert.equal(status.consecutiveFailures, 3)
+  assert.equal(status.lastError, 'Service unavailable')
+  assert.ok(status.nextProbeAt)
+})
+
+test('client errors and successes reset the failure count', async () => {
+  const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 2 })
+
+  await assert.rejects(breaker.execute(serverError))
+  await assert.rejects(breaker.execute(() => Promise.reject(new NotFoundError('No such site', { status: 404 }))))
+  await assert.rejects(breaker.execute(serverError))
+  assert.equal(breaker.getStatus().state, 'closed')
+
+  await breaker.execute(ok)
+  assert.equal(breaker.getStatus().consecutiveFailures, 0)
+})
+
+test('an open circuit fails fast with provider_down without calling the provider', async () => {
+  const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 1, resetTimeoutMs: 60_000 })
+  await assert.rejects(breaker.execute(serverError))
+
+  let called = false
+  await assert.rejects(
+    breaker.execute(() => {
+      called = true
+      return ok()
+    }),
+    (error: unknown) => error instanceof ProviderUnavailableError &&
+      error.kind === 'provider_down' &&
+      error.retryable === false &&
+      error.retryAfterMs > 0 &&
+      /Provider api\.example\.com is unavailable \(circuit open\): last error: Service unavailable/.test(error.message)
+  )
+  assert.equal(called, false)
+})
+
+test('a successful half-open probe closes the circuit', async () => {
+  const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 1, resetTimeoutMs: 20 })
+  await assert.rejects(breaker.execute(serverError))
+  await sleep(30)
+
+  assert.equal(await breaker.execute(ok), 'ok')
+  assert.equal(breaker.getStatus().state, 'closed')
+})
+
+test('only one probe goes through while half-open, and a failed probe re-opens the circuit', async () => {
+  const breaker = new CircuitBreaker('api.example.com', { failureThreshold: 5, resetTimeoutMs: 20 })
+  for (let i = 0; i < 5; i++) await assert.rejects(breaker.execute(serverError))
+  await sleep(30)
+
+  let failProbe!: (error: Error) => void
+  const probe = breaker.execute(() => new Promise((_, reject) => { failProbe = reject }))
+  await assert.rejects(breaker.execute(ok), ProviderUnavailableError)
+
+  failProbe(new TransientError('Still down', { status: 502 }))
+  await assert.rejects(probe, /Still down/)
+  assert.equal(breaker.getStatus().state, 'open')
+  await assert.rejects(breaker.execute(ok), ProviderUnavailableError)
+})
+
+test('get_provider_status reports the breaker and the rate limiter of the provider host', async () => {
+  const apiUrl = 'https://status-test.supabase.example/v1'
+  const breaker = getCircuitBreaker(apiUrl, { failureThreshold: 1 })
+  await assert.rejects(breaker.execute(networkError))
+
+  const status = getProviderStatus(apiUrl)
+  assert.equal(status.success, true)
+  assert.equal(status.circuit.provider, 'status-test.supabase.example')
+  assert.equal(status.circuit.state, 'open')
+  assert.equal(status.circuit.lastError, 'fetch failed')
+  assert.equal(status.rate_limit.capacity, 10)
+  assert.equal(status.rate_limit.pausedUntil, undefined)
+})
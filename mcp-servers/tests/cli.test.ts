@@ -0,0 +1,95 @@
+import { test } from 'node:test'
+import type { TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const CLI = fileURLToPath(new URL('../cli/index.js', import.meta.url))
+
+/**
+ * Project directory with a .shipme/project.json, removed after the test
+ */
+function project(t: TestContext, config: unknown = { version: '2.0.0', name: 'Demo App' }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipme-cli-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+  fs.mkdirSync(path.join(dir, '.shipme'))
+  fs.writeFileSync(path.join(dir, '.shipme', 'project.json'), JSON.stringify(config))
+  return dir
+}
+
+/**
+ * Run the CLI in dir without provider tokens, so no request leaves the machine
+ */
+function shipme(dir: string, ...args: string[]) {
+  const env: NodeJS.ProcessEnv = { ...process.env, SHIPME_STATE_FILE: path.join(dir, 'state.json'), SHIPME_LOG_LEVEL: 'error' }
+  for (const name of [
+    'SUPABASE_ACCESS_TOKEN', 'NETLIFY_AUTH_TOKEN', 'NETLIFY_ACCESS_TOKEN', 'VERCEL_TOKEN', 'GITHUB_TOKEN',
+    'GITHUB_REPOSITORY', 'SHIPME_VAULT_FILE', 'SHIPME_VAULT_AUDIT_FILE', 'SHIPME_MIGRATIONS_DIR'
+  ]) {
+    delete env[name]
+  }
+  const { status, stdout, stderr } = spawnSync(process.execPath, [CLI, ...args], { cwd: dir, env, encoding: 'utf8', timeout: 30_000 })
+  return { status, stdout, stderr }
+}
+
+test('validate exits 0 for a valid project.json and 2 for an invalid one', (t) => {
+  const valid = shipme(project(t), 'validate', '--json')
+  assert.equal(valid.status, 0)
+  assert.equal(JSON.parse(valid.stdout).valid, true)
+
+  const invalid = shipme(project(t, { version: '2.0.0' }), 'validate', '--json')
+  assert.equal(invalid.status, 2)
+  const output = JSON.parse(invalid.stdout)
+  assert.equal(output.valid, false)
+  assert.ok(output.errors.length > 0)
+
+  const text = shipme(project(t, { version: '2.0.0' }), 'validate')
+  assert.equal(text.status, 2)
+  assert.match(text.stdout, /^\.shipme\/project\.json is invalid:/)
+})
+
+test('usage errors exit 2, as a JSON error with --json', (t) => {
+  const dir = project(t)
+
+  const unknown = shipme(dir, 'frobnicate', '--json')
+  assert.equal(unknown.status, 2)
+  assert.deepEqual(JSON.parse(unknown.stdout), {
+    success: false,
+    error: { kind: 'validation', message: "Unknown command 'frobnicate'. Run shipme --help" }
+  })
+
+  const unconfirmed = shipme(dir, 'destroy')
+  assert.equal(unconfirmed.status, 2)
+  assert.equal(unconfirmed.stdout, '')
+  assert.match(unconfirmed.stderr, /^shipme: destroy deletes the provisioned resources: pass --yes/)
+
+  const missing = shipme(dir, 'provision', '--config', 'missing.json', '--json')
+  assert.equal(missing.status, 2)
+  assert.equal(JSON.parse(missing.stdout).error.message, 'missing.json not found')
+
+  assert.equal(shipme(dir).status, 2)
+  assert.equal(shipme(dir, '--help').status, 0)
+})
+
+test('provision --plan prints the plan without running it', (t) => {
+  const planned = shipme(project(t), 'provision', '--plan', '--json')
+
+  assert.equal(planned.status, 0)
+  const plan = JSON.parse(planned.stdout)
+  assert.equal(plan.project, 'Demo App')
+  assert.equal(plan.steps[0].id, 'supabase_project')
+})
+
+test('a provision that cannot run its steps exits 1 and reports why in JSON', (t) => {
+  const run = shipme(project(t), 'provision', '--json')
+
+  assert.equal(run.status, 1)
+  const result = JSON.parse(run.stdout)
+  assert.equal(result.success, false)
+  assert.ok(result.steps.length > 0)
+  assert.ok(result.steps.every((step: { status: string }) => step.status === 'skipped'))
+  assert.equal(result.steps[0].reason, 'no supabase server configured')
+})
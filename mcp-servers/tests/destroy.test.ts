@@ -0,0 +1,171 @@
+import { test } from 'node:test'
+import type { TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { destroyPlan } from '../plan/destroy.js'
+import { ProvisioningState } from '../plan/state.js'
+import type { Plan, PlanStep, ToolCallResult, ToolRunner } from '../plan/types.js'
+
+const PLAN: Plan = {
+  project: 'demo',
+  steps: [
+    { id: 'db', provider: 'supabase', tool: 'create_project', description: 'db', dependsOn: [], args: { name: 'demo-db' } },
+    { id: 'migration', provider: 'supabase', tool: 'execute_sql', description: 'migration', dependsOn: ['db'], args: { project_ref: '{{steps.db.outputs.project_ref}}', sql: 'create table todos ()' } },
+    { id: 'site', provider: 'netlify', tool: 'create_site', description: 'site', dependsOn: [], args: { name: 'demo' } },
+    {
+      id: 'env',
+      provider: 'netlify',
+      tool: 'configure_env_vars',
+      description: 'env',
+      dependsOn: ['db', 'site'],
+      args: { site_id: '{{steps.site.outputs.site_id}}', env_vars: { SUPABASE_URL: '{{steps.db.outputs.url}}' } }
+    },
+    { id: 'deploy', provider: 'netlify', tool: 'deploy_site', description: 'deploy', dependsOn: ['env', 'migration'], args: { site_id: '{{steps.site.outputs.site_id}}' } }
+  ]
+}
+
+const OUTPUTS: Record<string, Record<string, unknown>> = {
+  db: { project_ref: 'abc', url: 'https://abc.supabase.co' },
+  migration: { rows: [] },
+  site: { site_id: 'site-1' },
+  env: { configured: ['SUPABASE_URL'] },
+  deploy: { deploy_id: 'deploy-1' }
+}
+
+/**
+ * State file with every step of the plan recorded as provisioned
+ */
+function provisionedState(t: TestContext, plan: Plan = PLAN, outputs = OUTPUTS): ProvisioningState {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipme-destroy-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+  const state = ProvisioningState.empty(path.join(dir, 'state.json'), plan.project)
+  for (const step of plan.steps) {
+    state.record(step, step.args, outputs[step.id] ?? {})
+  }
+  return state
+}
+
+function result(body: unknown, isError = false): ToolCallResult {
+  return { ...(isError ? { isError } : {}), content: [{ type: 'text', text: JSON.stringify(body) }] }
+}
+
+/**
+ * Runners for every provider that share one call log
+ */
+function fakeRunners(handler: (tool: string) => ToolCallResult = () => result({ deleted: true })) {
+  const calls: Array<{ tool: string; args: Record<string, unknown> }> = []
+  const runner: ToolRunner = {
+    callTool: async (tool, args = {}) => {
+      calls.push({ tool, args })
+      return handler(tool)
+    }
+  }
+  return { runners: { supabase: runner, netlify: runner }, calls }
+}
+
+test('resources are removed in reverse dependency order and forgotten', async (t) => {
+  const state = provisionedState(t)
+  const { runners, calls } = fakeRunners()
+
+  const destroyed = await destroyPlan(PLAN, state, runners)
+
+  assert.equal(destroyed.success, true)
+  assert.deepEqual(calls, [
+    { tool: 'unset_env_vars', args: { site_id: 'site-1', keys: ['SUPABASE_URL'], confirm: 'site-1' } },
+    { tool: 'delete_site', args: { site_id: 'site-1', confirm: 'site-1' } },
+    { tool: 'delete_project', args: { project_ref: 'abc', confirm: 'abc' } }
+  ])
+  assert.deepEqual(destroyed.steps.map(step => [step.id, step.status]), [
+    ['deploy', 'nothing_to_remove'],
+    ['env', 'removed'],
+    ['site', 'removed'],
+    ['migration', 'nothing_to_remove'],
+    ['db', 'removed']
+  ])
+  assert.deepEqual(destroyed.remaining, [])
+  assert.deepEqual(state.getSteps(), {})
+})
+
+test('a failed teardown leaves everything it depends on in place', async (t) => {
+  const state = provisionedState(t)
+  const { runners, calls } = fakeRunners(tool => tool === 'unset_env_vars'
+    ? result({ success: false, error: { kind: 'permission', message: 'Forbidden' } }, true)
+    : result({ deleted: true }))
+
+  const destroyed = await destroyPlan(PLAN, state, runners)
+
+  assert.equal(destroyed.success, false)
+  assert.deepEqual(calls.map(call => call.tool), ['unset_env_vars'])
+  assert.deepEqual(destroyed.steps.map(step => [step.id, step.status, step.reason ?? step.error?.kind]), [
+    ['deploy', 'nothing_to_remove', undefined],
+    ['env', 'failed', 'permission'],
+    ['site', 'skipped', "dependent 'env' could not be removed"],
+    ['migration', 'nothing_to_remove', undefined],
+    ['db', 'skipped', "dependent 'env' could not be removed"]
+  ])
+  // The migration and deploy stay recorded while the project they ran against exists
+  assert.deepEqual(destroyed.remaining.sort(), ['db', 'deploy', 'env', 'migration', 'site'])
+})
+
+test('a resource another environment still depends on is kept', async (t) => {
+  const plan: Plan = {
+    project: 'demo',
+    steps: [
+      { ...PLAN.steps[0], environment: 'production' },
+      {
+        id: 'db_staging',
+        provider: 'supabase',
+        tool: 'create_branch',
+        description: 'branch',
+        dependsOn: ['db'],
+        environment: 'staging',
+        args: { project_ref: '{{steps.db.outputs.project_ref}}', branch_name: 'staging' }
+      }
+    ]
+  }
+  const state = provisionedState(t, plan, { ...OUTPUTS, db_staging: { branch_id: 'branch-1' } })
+  const { runners, calls } = fakeRunners()
+
+  const production = await destroyPlan(plan, state, runners, { environment: 'production' })
+  assert.deepEqual(calls, [])
+  assert.deepEqual(production.steps.map(step => [step.id, step.status, step.reason]), [
+    ['db', 'skipped', "'db_staging' of the staging environment still depends on it"]
+  ])
+
+  const staging = await destroyPlan(plan, state, runners, { environment: 'staging' })
+  assert.deepEqual(calls, [{ tool: 'delete_branch', args: { branch_id: 'branch-1', confirm: 'branch-1' } }])
+  assert.deepEqual(staging.remaining, ['db'])
+})
+
+test('a dry run previews the teardown calls without touching the state', async (t) => {
+  const state = provisionedState(t)
+  const { runners, calls } = fakeRunners(() => result({ dry_run: true }))
+
+  const destroyed = await destroyPlan(PLAN, state, runners, { dryRun: true })
+
+  assert.ok(calls.every(call => call.args.dry_run === true))
+  assert.deepEqual(destroyed.steps.filter(step => step.tool).map(step => step.status), ['planned', 'planned', 'planned'])
+  assert.equal(destroyed.remaining.length, PLAN.steps.length)
+})
+
+test('a recorded step missing from the plan is reported and left alone', async (t) => {
+  const state = provisionedState(t)
+  const orphan: PlanStep = { id: 'old_site', provider: 'netlify', tool: 'create_site', description: 'old', dependsOn: [], args: {} }
+  state.record(orphan, {}, { site_id: 'site-0' })
+  const { runners, calls } = fakeRunners()
+
+  const destroyed = await destroyPlan(PLAN, state, runners)
+
+  assert.ok(!calls.some(call => call.args.site_id === 'site-0'))
+  assert.deepEqual(destroyed.steps.at(-1), {
+    id: 'old_site',
+    provider: 'netlify',
+    status: 'skipped',
+    reason: 'step is not in the current plan',
+    durationMs: 0
+  })
+  assert.equal(destroyed.success, false)
+  assert.deepEqual(destroyed.remaining, ['old_site'])
+})
@@ -0,0 +1,142 @@
+import { test } from 'node:test'
+import type { TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { detectDrift } from '../plan/drift.js'
+import { ProvisioningState } from '../plan/state.js'
+import type { Plan, ToolCallResult, ToolRunner } from '../plan/types.js'
+import { hashSecret } from '../shared/secret-output.js'
+
+const PLAN: Plan = {
+  project: 'demo',
+  steps: [
+    { id: 'db', provider: 'supabase', tool: 'create_project', description: 'db', dependsOn: [], args: { name: 'demo-db' } },
+    { id: 'site', provider: 'netlify', tool: 'create_site', description: 'site', dependsOn: [], args: { name: 'demo' } },
+    {
+      id: 'env',
+      provider: 'netlify',
+      tool: 'configure_env_vars',
+      description: 'env',
+      dependsOn: ['db', 'site'],
+      args: {
+        site_id: '{{steps.site.outputs.site_id}}',
+        env_vars: { SUPABASE_URL: '{{steps.db.outputs.url}}', SUPABASE_ANON_KEY: '{{secrets.anon_key}}' }
+      }
+    },
+    {
+      id: 'repo_secret',
+      provider: 'github',
+      tool: 'create_secret',
+      description: 'secret',
+      dependsOn: ['db'],
+      args: { owner: 'acme', repo: 'demo', secret_name: 'SUPABASE_URL', secret_value: '{{steps.db.outputs.url}}' }
+    }
+  ]
+}
+
+const OUTPUTS: Record<string, Record<string, unknown>> = {
+  db: { project_ref: 'abc', url: 'https://abc.supabase.co' },
+  site: { site_id: 'site-1', build_settings: { cmd: 'npm run build', dir: '.next' } },
+  env: {},
+  repo_secret: {}
+}
+
+const SECRETS: Record<string, string> = { '{{secrets.anon_key}}': 'anon-key-value' }
+
+async function resolveSecrets<T>(value: T): Promise<T> {
+  return (typeof value === 'string' && SECRETS[value] ? SECRETS[value] : value) as T
+}
+
+function provisionedState(t: TestContext): ProvisioningState {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipme-drift-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+  const state = ProvisioningState.empty(path.join(dir, 'state.json'), PLAN.project)
+  for (const step of PLAN.steps) {
+    state.record(step, step.args, OUTPUTS[step.id])
+  }
+  return state
+}
+
+function result(body: unknown, isError = false): ToolCallResult {
+  return { ...(isError ? { isError } : {}), content: [{ type: 'text', text: JSON.stringify(body) }] }
+}
+
+const NOT_FOUND = result({ success: false, error: { kind: 'not_found', message: 'Not found' } }, true)
+
+/**
+ * Runner answering read-only tools from a table of results
+ */
+function fakeRunner(results: Record<string, ToolCallResult>): ToolRunner {
+  return {
+    callTool: async (tool) => results[tool] ?? assert.fail(`unexpected call to ${tool}`)
+  }
+}
+
+const LIVE = {
+  project: result({ project_ref: 'abc', status: 'ACTIVE_HEALTHY' }),
+  site: result({
+    site_id: 'site-1',
+    build_settings: { cmd: 'npm run build', dir: '.next' },
+    env_vars: { SUPABASE_URL: hashSecret('https://abc.supabase.co'), SUPABASE_ANON_KEY: hashSecret('anon-key-value') }
+  }),
+  secrets: result({ secrets: [{ name: 'SUPABASE_URL', updated_at: '2000-01-01T00:00:00Z' }] })
+}
+
+test('resources matching the state file report no drift', async (t) => {
+  const report = await detectDrift(PLAN, provisionedState(t), {
+    supabase: fakeRunner({ get_project_info: LIVE.project }),
+    netlify: fakeRunner({ get_site_info: LIVE.site }),
+    github: fakeRunner({ list_secrets: LIVE.secrets })
+  }, { resolveSecrets })
+
+  assert.equal(report.drifted, false)
+  assert.deepEqual(report.items, [])
+  assert.deepEqual(report.unchecked, [])
+})
+
+test('changed settings are reported as fingerprints with a remediation', async (t) => {
+  const report = await detectDrift(PLAN, provisionedState(t), {
+    supabase: fakeRunner({ get_project_info: result({ project_ref: 'abc', status: 'INACTIVE' }) }),
+    netlify: fakeRunner({
+      get_site_info: result({
+        site_id: 'site-1',
+        build_settings: { cmd: 'npm run export', dir: '.next' },
+        env_vars: { SUPABASE_URL: hashSecret('https://other.supabase.co') }
+      })
+    }),
+    github: fakeRunner({ list_secrets: result({ secrets: [{ name: 'SUPABASE_URL', updated_at: '2999-01-01T00:00:00Z' }] }) })
+  }, { resolveSecrets })
+
+  assert.equal(report.drifted, true)
+  assert.deepEqual(report.items.map(item => [item.category, item.kind, item.resource, item.step]), [
+    ['project', 'changed', 'Supabase project abc status', 'db'],
+    ['build_settings', 'changed', 'netlify site site-1 build setting cmd', 'site'],
+    ['env_var', 'changed', 'netlify site site-1 env SUPABASE_URL', 'env'],
+    ['env_var', 'missing', 'netlify site site-1 env SUPABASE_ANON_KEY', 'env'],
+    ['repo_secret', 'changed', 'acme/demo secret SUPABASE_URL', 'repo_secret']
+  ])
+
+  const [project, build, url, anonKey] = report.items
+  assert.equal(project.actual, 'INACTIVE')
+  assert.equal(project.remediation, 'The project is paused. Restore it from the Supabase dashboard')
+  assert.deepEqual([build.expected, build.actual], ['npm run build', 'npm run export'])
+  assert.deepEqual([url.expected, url.actual], [hashSecret('https://abc.supabase.co'), hashSecret('https://other.supabase.co')])
+  assert.equal(anonKey.expected, hashSecret('anon-key-value'))
+  assert.equal(url.remediation, 'Set it again with netlify.configure_env_vars (site_id: "site-1", as in step env), then redeploy')
+  assert.ok(!JSON.stringify(report).includes('anon-key-value'))
+})
+
+test('deleted resources are missing, and providers without a server are unchecked', async (t) => {
+  const report = await detectDrift(PLAN, provisionedState(t), {
+    supabase: fakeRunner({ get_project_info: NOT_FOUND }),
+    netlify: fakeRunner({ get_site_info: NOT_FOUND })
+  }, { resolveSecrets })
+
+  assert.deepEqual(report.items.map(item => [item.category, item.kind, item.resource, item.remediation]), [
+    ['project', 'missing', 'Supabase project abc', 'The project was deleted. Run the plan with --fresh to create it again, then redeploy'],
+    ['site', 'missing', 'netlify site site-1', 'The site was deleted. Run the plan with --fresh to create it again and redeploy']
+  ])
+  assert.deepEqual(report.unchecked, [{ resource: 'repository acme/demo', reason: 'no github server configured' }])
+})
@@ -0,0 +1,120 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { errorFromResponse, toProviderError, toolErrorResult } from '../shared/errors.js'
+import type { ProviderErrorKind } from '../shared/errors.js'
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } })
+
+/**
+ * Error shaped like an Octokit RequestError: status on the error, body and
+ * headers on error.response
+ */
+function octokitError(status: number, data: unknown, headers: Record<string, string> = {}) {
+  return Object.assign(new Error((data as { message?: string }).message ?? 'HttpError'), {
+    name: 'HttpError',
+    status,
+    response: { status, url: 'https://api.github.com/repos/acme/app', headers, data }
+  })
+}
+
+/**
+ * The error object of a tool's isError envelope
+ */
+function envelope(result: ReturnType<typeof toolErrorResult>) {
+  assert.equal(result.isError, true)
+  return JSON.parse(result.content[0].text).error
+}
+
+const STATUS_KINDS: Array<[number, ProviderErrorKind, boolean]> = [
+  [401, 'auth', false],
+  [403, 'permission', false],
+  [404, 'not_found', false],
+  [409, 'conflict', false],
+  [422, 'validation', false],
+  [429, 'rate_limited', true],
+  [500, 'transient', true],
+  [503, 'transient', true]
+]
+
+for (const [status, kind, retryable] of STATUS_KINDS) {
+  test(`a Supabase ${status} response is a ${kind} error`, async () => {
+    const error = await errorFromResponse(json(status, { message: `Supabase said ${status}` }), 'Request failed', 'supabase')
+    const result = envelope(toolErrorResult(error))
+
+    assert.deepEqual(result, {
+      kind,
+      message: `Supabase said ${status}`,
+      provider: 'supabase',
+      status,
+      retryable
+    })
+  })
+
+  test(`a Netlify ${status} response is a ${kind} error with its code`, async () => {
+    const error = await errorFromResponse(json(status, { code: status, message: `Netlify said ${status}` }), 'Request failed')
+    const result = envelope(toolErrorResult(error, 'netlify'))
+
+    assert.equal(result.kind, kind)
+    assert.equal(result.provider, 'netlify')
+    assert.equal(result.status, status)
+    assert.equal(result.code, String(status))
+    assert.equal(result.retryable, retryable)
+  })
+
+  test(`an Octokit ${status} RequestError is a ${kind} error`, () => {
+    const result = envelope(toolErrorResult(octokitError(status, { message: `GitHub said ${status}` }), 'github'))
+
+    assert.equal(result.kind, kind)
+    assert.equal(result.message, `GitHub said ${status}`)
+    assert.equal(result.provider, 'github')
+    assert.equal(result.status, status)
+    assert.equal(result.retryable, retryable)
+  })
+}
+
+test('a 422 saying the resource already exists is a conflict', async () => {
+  const error = await errorFromResponse(json(422, { message: 'Subdomain already taken' }), 'Request failed', 'netlify')
+  assert.equal(error.kind, 'conflict')
+})
+
+test('an Octokit 422 keeps the first validation error and its code', () => {
+  const error = toProviderError(octokitError(422, {
+    message: 'Validation Failed',
+    errors: [{ resource: 'Repository', code: 'custom', message: 'name already exists on this account' }]
+  }), 'github')
+
+  assert.equal(error.kind, 'conflict')
+  assert.equal(error.message, 'Validation Failed: name already exists on this account')
+  assert.equal(error.code, 'custom')
+})
+
+test('a GitHub 403 with an exhausted rate limit is rate_limited, not permission', () => {
+  const error = toProviderError(
+    octokitError(403, { message: 'API rate limit exceeded' }, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000' }),
+    'github'
+  )
+
+  assert.equal(error.kind, 'rate_limited')
+  assert.equal(error.retryable, true)
+  assert.equal(error.headers?.get('x-ratelimit-reset'), '1700000000')
+})
+
+test('a non-JSON error body is kept as the message', async () => {
+  const error = await errorFromResponse(new Response('upstream connect error', { status: 502 }), 'Request failed')
+  assert.equal(error.kind, 'transient')
+  assert.equal(error.message, 'upstream connect error')
+})
+
+test('a fetch network failure is transient', () => {
+  const error = toProviderError(new TypeError('fetch failed', { cause: new Error('getaddrinfo ENOTFOUND api.netlify.com') }), 'netlify')
+
+  assert.equal(error.kind, 'transient')
+  assert.equal(error.retryable, true)
+  assert.equal(error.message, 'Network error: getaddrinfo ENOTFOUND api.netlify.com')
+})
+
+test('anything else is an internal error', () => {
+  const result = envelope(toolErrorResult(new Error('Unexpected token'), 'supabase'))
+  assert.deepEqual(result, { kind: 'internal', message: 'Unexpected token', provider: 'supabase', retryable: false })
+})
@@ -0,0 +1,17 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ShipMeGateway } from '../gateway/gateway.js'
+import { SecretVault } from '../shared/secret-vault.js'
+import { callToolOverMcp } from './helpers.js'
+
+test('detect_drift reads the project file the gateway was started with, not one a client names', async () => {
+  const gateway = new ShipMeGateway({}, new SecretVault(), '/nonexistent/shipme/project.json')
+
+  const named = await callToolOverMcp(gateway, 'detect_drift', { config_path: '/etc/passwd' })
+  assert.equal(named.isError, true)
+  assert.equal(named.body.error.message, 'Invalid arguments for detect_drift: config_path is not a known field')
+
+  const configured = await callToolOverMcp(gateway, 'detect_drift', {})
+  assert.equal(configured.isError, true)
+  assert.equal(configured.body.error.message, '/nonexistent/shipme/project.json not found')
+})
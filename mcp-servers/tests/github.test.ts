@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { GitHubMCPServer } from '../github/server.js'
+import { callToolOverMcp, replayCassette } from './helpers.js'
+
+const REPO = '/repos/shipme-dev/demo-app'
+const HEAD_SHA = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa'
+
+test('push_files creates blobs, a tree and a commit on the branch head, then moves the ref', async () => {
+  const { fetch, requests } = replayCassette('github')
+  const server = new GitHubMCPServer({ token: 'test-token', fetch })
+
+  const { isError, body } = await callToolOverMcp(server, 'push_files', {
+    owner: 'shipme-dev',
+    repo: 'demo-app',
+    files: [
+      { path: 'README.md', content: '# Demo\n' },
+      { path: 'supabase/migrations/0001_init.sql', content: 'create table todos (id uuid primary key);\n' }
+    ],
+    message: 'Add schema'
+  })
+
+  assert.equal(isError, false)
+  assert.equal(body.commit_sha, 'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee')
+  assert.equal(body.files_pushed, 2)
+
+  assert.deepEqual(requests.map(request => `${request.method} ${request.path}`), [
+    `GET ${REPO}/git/ref/heads%2Fmain`,
+    `GET ${REPO}/git/commits/${HEAD_SHA}`,
+    `POST ${REPO}/git/blobs`,
+    `POST ${REPO}/git/blobs`,
+    `POST ${REPO}/git/trees`,
+    `POST ${REPO}/git/commits`,
+    `PATCH ${REPO}/git/refs/heads%2Fmain`
+  ])
+
+  // The tree builds on the head commit's tree, and the commit on the head
+  const tree = JSON.parse(requests[4].body!)
+  assert.equal(tree.base_tree, 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb')
+  assert.deepEqual(tree.tree.map((entry: { path: string }) => entry.path), ['README.md', 'supabase/migrations/0001_init.sql'])
+  const commit = JSON.parse(requests[5].body!)
+  assert.deepEqual(commit.parents, [HEAD_SHA])
+  assert.equal(commit.tree, 'dddddddddddddddddddddddddddddddddddddddd')
+  assert.deepEqual(JSON.parse(requests[6].body!), { sha: 'eeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' })
+})
@@ -0,0 +1,103 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { createCassetteFetch } from '../shared/cassette.js'
+import { createMcpServer } from '../shared/mcp-server.js'
+import type { ToolHost } from '../shared/mcp-server.js'
+
+/**
+ * Test helpers: replay a recorded cassette and call tools the way an MCP
+ * client does
+ */
+
+// Tests run compiled from dist/tests; the cassettes stay in the source tree
+const CASSETTE_DIR = fileURLToPath(new URL('../../tests/fixtures/cassettes/', import.meta.url))
+
+export interface ReplayedRequest {
+  method: string
+  /** Path of the URL, still percent-encoded */
+  path: string
+  body?: string
+}
+
+/**
+ * Fetch serving tests/fixtures/cassettes/<server>.json, and the requests it
+ * served in order
+ */
+export function replayCassette(server: string): { fetch: typeof globalThis.fetch; requests: ReplayedRequest[] } {
+  const replay = createCassetteFetch({ mode: 'replay', cassettePath: path.join(CASSETTE_DIR, `${server}.json`) })
+  const requests: ReplayedRequest[] = []
+
+  const fetch: typeof globalThis.fetch = async (input, init) => {
+    const response = await replay(input, init)
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url
+    requests.push({
+      method: (init?.method || 'GET').toUpperCase(),
+      path: new URL(url).pathname,
+      ...(typeof init?.body === 'string' ? { body: init.body } : {})
+    })
+    return response
+  }
+  return { fetch, requests }
+}
+
+export interface FakeRequest {
+  method: string
+  url: URL
+  headers: Headers
+  body?: string
+}
+
+/**
+ * Fetch answering every request with respond, for exchanges no cassette
+ * covers (retries, response sequences), and the requests it saw in order
+ */
+export function fakeFetch(respond: (request: FakeRequest) => Response | Promise<Response>): { fetch: typeof globalThis.fetch; requests: FakeRequest[] } {
+  const requests: FakeRequest[] = []
+
+  const fetch: typeof globalThis.fetch = async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url
+    const request: FakeRequest = {
+      method: (init?.method || 'GET').toUpperCase(),
+      url: new URL(url),
+      headers: new Headers(init?.headers),
+      ...(typeof init?.body === 'string' ? { body: init.body } : {})
+    }
+    requests.push(request)
+    return respond(request)
+  }
+  return { fetch, requests }
+}
+
+/**
+ * JSON response for fakeFetch
+ */
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } })
+}
+
+/**
+ * Call a tool through the SDK server's tools/call handler over an in-memory
+ * transport and parse the JSON it returns
+ */
+export async function callToolOverMcp(
+  host: ToolHost,
+  name: string,
+  args: Record<string, unknown>
+): Promise<{ isError: boolean; body: any }> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const server = createMcpServer(host, { name: 'shipme-test-server', version: '0.0.0' })
+  const client = new Client({ name: 'shipme-test-client', version: '0.0.0' }, { capabilities: {} })
+  await server.connect(serverTransport)
+  await client.connect(clientTransport)
+
+  try {
+    const result = await client.callTool({ name, arguments: args })
+    const [content] = result.content as Array<{ type: string; text: string }>
+    return { isError: result.isError === true, body: JSON.parse(content.text) }
+  } finally {
+    await client.close()
+    await server.close()
+  }
+}
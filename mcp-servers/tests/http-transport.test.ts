@@ -0,0 +1,47 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { serveHttp } from '../shared/http-transport.js'
+import { createMcpServer } from '../shared/mcp-server.js'
+import { GitHubMCPServer } from '../github/server.js'
+
+const TOKEN = 'test-token'
+
+async function post(url: string, body: unknown) {
+  const response = await fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(5000)
+  })
+  return { status: response.status, body: await response.json() as any }
+}
+
+test('a batch is answered with one response per request', async (t) => {
+  const host = new GitHubMCPServer({ token: 'github-token' })
+  const { url, close } = await serveHttp(() => createMcpServer(host, { name: 'shipme-test-server', version: '0.0.0' }), { host: '127.0.0.1', port: 0, token: TOKEN })
+  t.after(close)
+
+  const { status, body } = await post(url, [
+    { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+    { jsonrpc: '2.0', id: '1', method: 'tools/list' },
+    { jsonrpc: '2.0', method: 'notifications/initialized' }
+  ])
+
+  assert.equal(status, 200)
+  assert.deepEqual(body.map((response: { id: unknown }) => response.id), [1, '1'])
+  assert.ok(body.every((response: any) => response.result.tools.length > 0))
+})
+
+test('a batch reusing a request id is rejected instead of left waiting', async (t) => {
+  const host = new GitHubMCPServer({ token: 'github-token' })
+  const { url, close } = await serveHttp(() => createMcpServer(host, { name: 'shipme-test-server', version: '0.0.0' }), { host: '127.0.0.1', port: 0, token: TOKEN })
+  t.after(close)
+
+  const { status, body } = await post(url, [
+    { jsonrpc: '2.0', id: 7, method: 'tools/list' },
+    { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'get_provider_status', arguments: {} } }
+  ])
+
+  assert.equal(status, 400)
+  assert.deepEqual(body, { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Duplicate request id 7 in batch' } })
+})
@@ -0,0 +1,62 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NetlifyMCPServer } from '../netlify/server.js'
+import { callToolOverMcp, fakeFetch, jsonResponse, replayCassette } from './helpers.js'
+
+const SITE_ID = 'a1b2c3d4-0000-4000-8000-5e7e5e7e5e7e'
+
+test('configure_env_vars falls back to PATCH /sites/{id}/env when the account-level POST fails', async () => {
+  const { fetch, requests } = replayCassette('netlify')
+  const server = new NetlifyMCPServer({ accessToken: 'test-token', fetch })
+
+  const { isError, body } = await callToolOverMcp(server, 'configure_env_vars', {
+    site_id: SITE_ID,
+    env_vars: {
+      NEXT_PUBLIC_SUPABASE_URL: 'https://qwertyuiopasdfghjklz.supabase.co',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: 'eyJhbGciOi.anon.sig'
+    }
+  })
+
+  assert.equal(isError, false)
+  assert.equal(body.vars_set, 2)
+  assert.equal(body.context, 'all')
+
+  // Each variable: the rejected POST, then the site-level PATCH carrying it
+  assert.deepEqual(requests.map(request => `${request.method} ${request.path}`), [
+    'POST /api/v1/accounts/-/env/NEXT_PUBLIC_SUPABASE_URL',
+    `PATCH /api/v1/sites/${SITE_ID}/env`,
+    'POST /api/v1/accounts/-/env/NEXT_PUBLIC_SUPABASE_ANON_KEY',
+    `PATCH /api/v1/sites/${SITE_ID}/env`
+  ])
+  assert.deepEqual(JSON.parse(requests[1].body!), { NEXT_PUBLIC_SUPABASE_URL: 'https://qwertyuiopasdfghjklz.supabase.co' })
+  assert.deepEqual(JSON.parse(requests[3].body!), { NEXT_PUBLIC_SUPABASE_ANON_KEY: 'eyJhbGciOi.anon.sig' })
+})
+
+test('deploy_site triggers a production build and rejects a branch it cannot honour', async () => {
+  const { fetch, requests } = fakeFetch(() => jsonResponse({ id: 'build-1', deploy_id: 'deploy-1', state: 'enqueued' }))
+  const server = new NetlifyMCPServer({ accessToken: 'test-token', fetch })
+
+  const { isError, body } = await callToolOverMcp(server, 'deploy_site', { site_id: SITE_ID })
+  assert.equal(isError, false)
+  assert.equal(body.deploy_id, 'deploy-1')
+  assert.equal(requests[0].url.pathname, `/api/v1/sites/${SITE_ID}/builds`)
+  assert.deepEqual(JSON.parse(requests[0].body!), { clear_cache: false })
+
+  const branch = await callToolOverMcp(server, 'deploy_site', { site_id: SITE_ID, branch: 'staging' })
+  assert.equal(branch.isError, true)
+  assert.equal(branch.body.error.kind, 'validation')
+  assert.equal(requests.length, 1)
+})
+
+test('wire_env_vars only asks for deploy_site on production', () => {
+  const server = new NetlifyMCPServer({ accessToken: 'test-token', fetch: () => assert.fail('no request expected') })
+  const args = { site_id: SITE_ID, supabase_url: 'https://abc.supabase.co', supabase_anon_key: '{{secrets.supabase_anon_key}}' }
+  const text = (result: ReturnType<typeof server.prompts.get>) => result.messages[0].content.text
+
+  assert.match(text(server.prompts.get('wire_env_vars', args)), new RegExp(`3\\. Call deploy_site with site_id "${SITE_ID}" so a build`))
+
+  const staging = text(server.prompts.get('wire_env_vars', { ...args, branch: 'staging' }))
+  assert.match(staging, /context "branch" and branch "staging"/)
+  assert.match(staging, /3\. The values apply from the next deploy of staging, which Netlify builds when the branch is pushed/)
+  assert.doesNotMatch(staging, /Call deploy_site/)
+})
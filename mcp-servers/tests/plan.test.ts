@@ -0,0 +1,161 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { validatePlan } from '../plan/plan.js'
+import { executePlan, resolveStepReferences } from '../plan/engine.js'
+import type { Plan, PlanStep, ToolCallResult, ToolRunner } from '../plan/types.js'
+import { ValidationError } from '../shared/errors.js'
+
+function step(id: string, dependsOn: string[] = [], args: Record<string, unknown> = {}, provider: PlanStep['provider'] = 'supabase'): PlanStep {
+  return { id, provider, tool: `${id}_tool`, description: id, dependsOn, args }
+}
+
+function result(body: unknown, isError = false): ToolCallResult {
+  return { ...(isError ? { isError } : {}), content: [{ type: 'text', text: JSON.stringify(body) }] }
+}
+
+/**
+ * Runner answering every tool with handler's result, recording the calls
+ */
+function fakeRunner(handler: (tool: string, args: Record<string, unknown>) => Promise<ToolCallResult>) {
+  const calls: Array<{ tool: string; args: Record<string, unknown> }> = []
+  const runner: ToolRunner = {
+    callTool: async (tool, args = {}) => {
+      calls.push({ tool, args })
+      return handler(tool, args)
+    }
+  }
+  return { runner, calls }
+}
+
+test('validatePlan reports every unknown dependency, bad reference and cycle at once', () => {
+  const plan: Plan = {
+    project: 'demo',
+    steps: [
+      step('a', ['c']),
+      step('b', ['a']),
+      step('c', ['b']),
+      step('d', ['missing'], { ref: '{{steps.a.outputs.id}}' })
+    ]
+  }
+
+  assert.throws(() => validatePlan(plan), (error: unknown) => {
+    assert.ok(error instanceof ValidationError)
+    assert.equal(error.message, [
+      "Invalid plan: step 'd' depends on unknown step 'missing'",
+      "step 'd' references outputs of 'a' without depending on it",
+      'dependency cycle: a -> c -> b -> a'
+    ].join('; '))
+    return true
+  })
+  assert.throws(() => validatePlan({ project: 'demo', steps: [step('a'), step('a')] }), /duplicate step id 'a'/)
+})
+
+test('a reference to a transitive dependency is allowed', () => {
+  validatePlan({
+    project: 'demo',
+    steps: [step('a'), step('b', ['a']), step('c', ['b'], { id: '{{steps.a.outputs.id}}' })]
+  })
+})
+
+test('step references are replaced with outputs, keeping the type of a whole-string reference', () => {
+  const outputs = new Map<string, Record<string, unknown>>([
+    ['db', { project_ref: 'abc', port: 5432, keys: { anon: 'anon-key' } }]
+  ])
+
+  assert.deepEqual(
+    resolveStepReferences({
+      ref: '{{steps.db.outputs.project_ref}}',
+      port: '{{ steps.db.outputs.port }}',
+      url: 'https://{{steps.db.outputs.project_ref}}.supabase.co:{{steps.db.outputs.port}}',
+      env: ['{{steps.db.outputs.keys.anon}}'],
+      secret: '{{secrets.db_password}}'
+    }, outputs),
+    {
+      ref: 'abc',
+      port: 5432,
+      url: 'https://abc.supabase.co:5432',
+      env: ['anon-key'],
+      secret: '{{secrets.db_password}}'
+    }
+  )
+  assert.throws(() => resolveStepReferences('{{steps.db.outputs.service_role_key}}', outputs), /Step 'db' has no output 'service_role_key'/)
+})
+
+test('independent steps run in parallel and dependents wait for them', async () => {
+  const events: string[] = []
+  const { runner } = fakeRunner(async (tool) => {
+    events.push(`start ${tool}`)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    events.push(`end ${tool}`)
+    return result({ id: tool })
+  })
+  const plan: Plan = {
+    project: 'demo',
+    steps: [step('a'), step('b'), step('c', ['a', 'b'], { from: '{{steps.a.outputs.id}}' })]
+  }
+
+  const run = await executePlan(plan, { supabase: runner })
+
+  assert.equal(run.success, true)
+  assert.deepEqual(events, ['start a_tool', 'start b_tool', 'end a_tool', 'end b_tool', 'start c_tool', 'end c_tool'])
+})
+
+test('concurrency limits how many steps run at once', async () => {
+  let running = 0
+  let peak = 0
+  const { runner } = fakeRunner(async () => {
+    peak = Math.max(peak, ++running)
+    await new Promise(resolve => setTimeout(resolve, 5))
+    running--
+    return result({})
+  })
+
+  await executePlan({ project: 'demo', steps: [step('a'), step('b'), step('c')] }, { supabase: runner }, { concurrency: 2 })
+  assert.equal(peak, 2)
+})
+
+test('resolved outputs are passed to dependent steps', async () => {
+  const { runner, calls } = fakeRunner(async (tool) => result(tool === 'db_tool' ? { project_ref: 'abc' } : {}))
+  const plan: Plan = {
+    project: 'demo',
+    steps: [step('db'), step('migrate', ['db'], { project_ref: '{{steps.db.outputs.project_ref}}' })]
+  }
+
+  await executePlan(plan, { supabase: runner })
+  assert.deepEqual(calls[1], { tool: 'migrate_tool', args: { project_ref: 'abc' } })
+})
+
+test('a failed step skips its dependents but not unrelated steps', async () => {
+  const { runner } = fakeRunner(async (tool) =>
+    tool === 'a_tool' ? result({ success: false, error: { kind: 'conflict', message: 'Name taken' } }, true) : result({})
+  )
+  const plan: Plan = { project: 'demo', steps: [step('a'), step('b', ['a']), step('c', ['b']), step('d')] }
+
+  const run = await executePlan(plan, { supabase: runner })
+
+  assert.equal(run.success, false)
+  assert.deepEqual(run.steps.map(s => [s.id, s.status, s.error?.kind ?? s.reason]), [
+    ['a', 'failed', 'conflict'],
+    ['b', 'skipped', "dependency 'a' did not succeed"],
+    ['c', 'skipped', "dependency 'b' did not succeed"],
+    ['d', 'succeeded', undefined]
+  ])
+})
+
+test('provider_down skips the rest of that provider, and unconfigured providers are skipped', async () => {
+  const { runner, calls } = fakeRunner(async () =>
+    result({ success: false, error: { kind: 'provider_down', message: 'circuit open' } }, true)
+  )
+  const plan: Plan = { project: 'demo', steps: [step('a'), step('b'), step('site', [], {}, 'netlify')] }
+
+  const run = await executePlan(plan, { supabase: runner, netlify: runner }, { concurrency: 1 })
+  assert.deepEqual(run.steps.map(s => [s.id, s.status, s.reason]), [
+    ['a', 'failed', undefined],
+    ['b', 'skipped', 'supabase is unavailable'],
+    ['site', 'failed', undefined]
+  ])
+  assert.equal(calls.length, 2)
+
+  const unconfigured = await executePlan({ project: 'demo', steps: [step('site', [], {}, 'vercel')] }, { supabase: runner })
+  assert.deepEqual(unconfigured.steps.map(s => s.reason), ['no vercel server configured'])
+})
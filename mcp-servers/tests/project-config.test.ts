@@ -0,0 +1,24 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseProjectConfig } from '../shared/project-config.js'
+
+test('a 1.x project.json is migrated to the 2.x layout', () => {
+  const result = parseProjectConfig({ version: '1.0.0', name: 'demo', framework: 'nextjs', features: [] })
+
+  assert.equal(result.valid, true)
+  if (!result.valid) return
+  assert.equal(result.migratedFrom, '1.0.0')
+  assert.equal(result.config.version, '2.0.0')
+  assert.equal(result.config.stack?.framework, 'nextjs')
+})
+
+test('a version older than any migration is reported instead of crashing', () => {
+  const result = parseProjectConfig({ version: '0.9.0', name: 'demo' })
+
+  assert.equal(result.valid, false)
+  if (result.valid) return
+  assert.deepEqual(
+    result.errors.filter(error => error.path === 'version').map(error => error.message),
+    ['0.9.0 is older than any supported schema (1.0.0 or later)']
+  )
+})
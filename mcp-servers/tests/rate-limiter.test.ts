@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { TokenBucket } from '../shared/rate-limiter.js'
+
+test('acquire hands out the burst at once, then waits for the refill', async () => {
+  const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 20 })
+
+  const started = Date.now()
+  await bucket.acquire()
+  await bucket.acquire()
+  assert.ok(Date.now() - started < 20)
+
+  await bucket.acquire()
+  assert.ok(Date.now() - started >= 40)
+  assert.equal(bucket.getState().availableTokens, 0)
+})
+
+test('waiters are served in arrival order', async () => {
+  const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 100 })
+  const order: number[] = []
+
+  await Promise.all([1, 2, 3].map(n => bucket.acquire().then(() => order.push(n))))
+  assert.deepEqual(order, [1, 2, 3])
+})
+
+test('pauseUntil holds every token until the given time', async () => {
+  const bucket = new TokenBucket({ capacity: 5, refillPerSecond: 100 })
+  const until = Date.now() + 60
+
+  bucket.pauseUntil(until)
+  assert.equal(bucket.getState().pausedUntil, new Date(until).toISOString())
+  assert.equal(bucket.getState().availableTokens, 0)
+
+  await bucket.acquire()
+  assert.ok(Date.now() >= until)
+})
+
+test('an earlier pauseUntil does not shorten a longer pause', () => {
+  const bucket = new TokenBucket({ capacity: 5, refillPerSecond: 1 })
+  const until = Date.now() + 10_000
+
+  bucket.pauseUntil(until)
+  bucket.pauseUntil(Date.now() + 1_000)
+  assert.equal(bucket.getState().pausedUntil, new Date(until).toISOString())
+})
@@ -0,0 +1,27 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ResourceRegistry } from '../shared/resources.js'
+import { ValidationError } from '../shared/errors.js'
+
+const registry = new ResourceRegistry([
+  {
+    uriTemplate: 'supabase://projects/{ref}',
+    name: 'Supabase project',
+    description: 'Project status',
+    read: async ({ ref }) => ({ ref })
+  }
+])
+
+test('template variables are percent-decoded', async () => {
+  const result = await registry.read('supabase://projects/my%20ref')
+
+  assert.deepEqual(JSON.parse(result.contents[0].text), { ref: 'my ref' })
+})
+
+test('a malformed percent-escape is a ValidationError', async () => {
+  await assert.rejects(
+    registry.read('supabase://projects/%E0'),
+    (error: unknown) => error instanceof ValidationError &&
+      error.message === 'Malformed resource URI: supabase://projects/%E0'
+  )
+})
@@ -0,0 +1,91 @@
+import { test, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { getRetryAfterMs, retryDelayMs, withRetry } from '../shared/retry.js'
+import { RateLimitedError, TransientError } from '../shared/errors.js'
+
+const NOW = Date.parse('2026-01-01T00:00:00Z')
+
+test('Retry-After in seconds is read as a delay', () => {
+  assert.equal(getRetryAfterMs(new Headers({ 'retry-after': '30' }), NOW), 30_000)
+})
+
+test('Retry-After as an HTTP date is read as the time until then', () => {
+  const headers = new Headers({ 'retry-after': new Date(NOW + 90_000).toUTCString() })
+  assert.equal(getRetryAfterMs(headers, NOW), 90_000)
+})
+
+test('X-RateLimit-Reset only applies once the remaining budget is exhausted', () => {
+  const reset = String((NOW + 45_000) / 1000)
+  assert.equal(getRetryAfterMs(new Headers({ 'x-ratelimit-reset': reset, 'x-ratelimit-remaining': '0' }), NOW), 45_000)
+  assert.equal(getRetryAfterMs(new Headers({ 'x-ratelimit-reset': reset, 'x-ratelimit-remaining': '12' }), NOW), undefined)
+})
+
+test('a hint in the past is no wait, and no hint is undefined', () => {
+  assert.equal(getRetryAfterMs(new Headers({ 'retry-after': new Date(NOW - 5_000).toUTCString() }), NOW), 0)
+  assert.equal(getRetryAfterMs(new Headers(), NOW), undefined)
+  assert.equal(getRetryAfterMs(undefined, NOW), undefined)
+})
+
+test('without a hint the delay is full jitter over the exponential backoff', (t) => {
+  const options = { initialDelayMs: 1000, maxDelayMs: 60_000 }
+
+  t.mock.method(Math, 'random', () => 0)
+  assert.equal(retryDelayMs(3, undefined, options), 0)
+
+  t.mock.method(Math, 'random', () => 0.5)
+  assert.equal(retryDelayMs(0, undefined, options), 500)
+  assert.equal(retryDelayMs(3, undefined, options), 4000)
+  // The backoff itself is capped at maxDelayMs
+  assert.equal(retryDelayMs(10, undefined, options), 30_000)
+})
+
+test('with a hint the delay is the hint plus up to one initial delay of jitter', (t) => {
+  t.mock.method(Math, 'random', () => 0.5)
+  assert.equal(retryDelayMs(0, 90_000, { initialDelayMs: 1000, maxDelayMs: 120_000 }), 90_500)
+})
+
+test('transient failures are retried until the call succeeds', async () => {
+  const fn = mock.fn(async () => {
+    if (fn.mock.callCount() < 2) throw new TransientError('Bad gateway', { status: 502 })
+    return 'ok'
+  })
+
+  assert.equal(await withRetry(fn, { initialDelayMs: 1 }), 'ok')
+  assert.equal(fn.mock.callCount(), 3)
+})
+
+test('a hint longer than maxDelayMs fails with rate_limited instead of retrying early', async () => {
+  const fn = mock.fn(async () => {
+    throw new RateLimitedError('Too many requests', { status: 429, headers: new Headers({ 'retry-after': '120' }) })
+  })
+
+  await assert.rejects(
+    withRetry(fn, { label: 'List sites' }),
+    (error: unknown) => error instanceof RateLimitedError &&
+      error.status === 429 &&
+      /List sites is rate limited for another 120s, longer than the 60s retry limit/.test(error.message)
+  )
+  assert.equal(fn.mock.callCount(), 1)
+})
+
+test('a hint within maxDelayMs is waited out in full', async () => {
+  const fn = mock.fn(async () => {
+    if (fn.mock.callCount() === 0) {
+      throw new RateLimitedError('Too many requests', { status: 429, headers: new Headers({ 'retry-after': '0.05' }) })
+    }
+    return 'ok'
+  })
+
+  const started = Date.now()
+  assert.equal(await withRetry(fn, { initialDelayMs: 1, maxDelayMs: 1000 }), 'ok')
+  assert.ok(Date.now() - started >= 45)
+})
+
+test('errors that are not retryable are thrown at once', async () => {
+  const fn = mock.fn(async () => {
+    throw new RateLimitedError('Provider down', { status: 503, retryable: false })
+  })
+
+  await assert.rejects(withRetry(fn, { initialDelayMs: 1 }), /Provider down/)
+  assert.equal(fn.mock.callCount(), 1)
+})
@@ -0,0 +1,146 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { array, boolean, number, object, optional, parseInput, record, string } from '../shared/schema.js'
+import { ToolRegistry, defineTool } from '../shared/tool-registry.js'
+import { createMcpServer } from '../shared/mcp-server.js'
+import { ValidationError } from '../shared/errors.js'
+import { GitHubMCPServer } from '../github/server.js'
+import { pushFilesInput } from '../github/schemas.js'
+import { callToolOverMcp } from './helpers.js'
+
+const deployInput = object({
+  site: string({ description: 'Site name', minLength: 1, pattern: /^[a-z0-9-]+$/ }),
+  context: optional(string({ enum: ['production', 'staging'], default: 'production' })),
+  replicas: optional(number({ integer: true, minimum: 1, maximum: 3 })),
+  files: array(object({
+    path: string({ minLength: 1 }),
+    headers: optional(record(string()))
+  }), { minItems: 1 }),
+  dry_run: optional(boolean())
+})
+
+function problems(value: unknown): string {
+  try {
+    parseInput(deployInput, value, 'arguments for deploy')
+  } catch (error) {
+    assert.ok(error instanceof ValidationError)
+    return error.message
+  }
+  return assert.fail('expected a ValidationError')
+}
+
+test('every problem is reported at once, each with its path', () => {
+  assert.equal(
+    problems({ context: 'qa', replicas: 1.5, files: [{ path: '' }, { headers: { 'X-Frame': 1 } }], debug: true }),
+    'Invalid arguments for deploy: debug is not a known field; site is required; ' +
+    'context must be one of production, staging, got "qa"; replicas must be an integer, got 1.5; ' +
+    'files[0].path must not be empty; files[1].path is required; files[1].headers.X-Frame must be a string, got a number'
+  )
+})
+
+test('type, pattern, range and length problems name the offending value', () => {
+  assert.equal(
+    problems({ site: 'My Site', replicas: 4, files: [], dry_run: 'yes' }),
+    'Invalid arguments for deploy: site must match ^[a-z0-9-]+$, got "My Site"; replicas must be at most 3, got 4; ' +
+    'files must not be empty; dry_run must be true or false, got "yes"'
+  )
+  assert.equal(problems({ site: 'demo', files: 'index.html' }), 'Invalid arguments for deploy: files must be an array, got "index.html"')
+  assert.equal(problems(null), 'Invalid arguments for deploy: must be an object, got null')
+})
+
+test('valid arguments pass through unchanged, defaults left to the handler', () => {
+  const args = { site: 'demo', files: [{ path: 'index.html', headers: { 'Cache-Control': 'no-cache' } }] }
+  assert.equal(parseInput(deployInput, args), args)
+})
+
+test('the schema is advertised as JSON Schema with required fields and no extra properties', () => {
+  assert.deepEqual(deployInput.jsonSchema, {
+    type: 'object',
+    properties: {
+      site: { type: 'string', description: 'Site name', minLength: 1, pattern: '^[a-z0-9-]+$' },
+      context: { type: 'string', enum: ['production', 'staging'], default: 'production' },
+      replicas: { type: 'integer', minimum: 1, maximum: 3 },
+      files: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', minLength: 1 },
+            headers: { type: 'object', additionalProperties: { type: 'string' } }
+          },
+          required: ['path'],
+          additionalProperties: false
+        },
+        minItems: 1
+      },
+      dry_run: { type: 'boolean' }
+    },
+    required: ['site', 'files'],
+    additionalProperties: false
+  })
+})
+
+test('the registry checks arguments before resolving them and running the handler', async () => {
+  const calls: unknown[] = []
+  const registry = new ToolRegistry([
+    defineTool({
+      name: 'deploy',
+      description: 'Deploy a site',
+      input: deployInput,
+      handler: async (args, dryRun) => {
+        calls.push({ args, dryRun })
+        return { content: [{ type: 'text', text: '{}' }] }
+      }
+    })
+  ])
+  const resolve = async <T>(args: T): Promise<T> => ({ ...args, site: 'resolved' })
+
+  await assert.rejects(registry.call('deploy', { files: [] }, false, resolve), /Invalid arguments for deploy: site is required/)
+  await assert.rejects(registry.call('undeploy', {}, false), (error: unknown) =>
+    error instanceof ValidationError && error.message === 'Unknown tool: undeploy'
+  )
+  assert.deepEqual(calls, [])
+
+  await registry.call('deploy', { site: 'demo', files: [{ path: 'a' }] }, true, resolve)
+  assert.deepEqual(calls, [{ args: { site: 'resolved', files: [{ path: 'a' }] }, dryRun: true }])
+
+  const tool = { name: 'deploy', description: '', input: object({}), handler: async () => ({ content: [] }) }
+  assert.throws(() => new ToolRegistry([tool, tool]), /Tool deploy is defined twice/)
+})
+
+test('tools/list advertises each tool\'s input schema', async () => {
+  const server = createMcpServer(new GitHubMCPServer({ token: 'test-token' }), { name: 'shipme-test-server', version: '0.0.0' })
+  const client = new Client({ name: 'shipme-test-client', version: '0.0.0' }, { capabilities: {} })
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  await server.connect(serverTransport)
+  await client.connect(clientTransport)
+
+  try {
+    const { tools } = await client.listTools()
+    const pushFiles = tools.find(tool => tool.name === 'push_files')!
+    assert.deepEqual(pushFiles.inputSchema, pushFilesInput.jsonSchema)
+    assert.deepEqual(pushFiles.inputSchema.required, ['owner', 'repo', 'files'])
+    assert.equal(pushFiles.inputSchema.additionalProperties, false)
+    assert.ok(tools.every(tool => tool.inputSchema.type === 'object' && tool.description))
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
+
+test('a bad tools/call is a validation error listing each problem by path', async () => {
+  const server = new GitHubMCPServer({ token: 'test-token' })
+
+  const { isError, body } = await callToolOverMcp(server, 'push_files', {
+    owner: 'acme',
+    repo: 'demo',
+    files: [{ path: 'README.md' }],
+    branch: 1
+  })
+
+  assert.equal(isError, true)
+  assert.equal(body.error.kind, 'validation')
+  assert.equal(body.error.message, 'Invalid arguments for push_files: files[0].content is required; branch must be a string, got a number')
+})
@@ -0,0 +1,91 @@
+import { test } from 'node:test'
+import type { TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { SecretVault } from '../shared/secret-vault.js'
+import { SealedFileError } from '../shared/sealed-file.js'
+
+/**
+ * Path of a vault file in a fresh temporary directory
+ */
+function vaultFile(t: TestContext): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipme-vault-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+  return path.join(dir, 'vault.sealed')
+}
+
+test('a sealed vault is written owner-only and without plaintext', async (t) => {
+  const filePath = vaultFile(t)
+  const vault = new SecretVault()
+  await vault.store('db_password', 'correct-horse-battery-staple')
+  await vault.seal(filePath, { passphrase: 'open sesame' })
+
+  assert.equal(fs.statSync(filePath).mode & 0o777, 0o600)
+  const contents = fs.readFileSync(filePath, 'utf8')
+  assert.ok(!contents.includes('correct-horse'))
+  assert.equal(JSON.parse(contents).kdf.name, 'scrypt')
+  vault.destroy()
+})
+
+test('unseal restores what was stored, including after later changes', async (t) => {
+  const filePath = vaultFile(t)
+  const vault = new SecretVault()
+  await vault.seal(filePath, { passphrase: 'open sesame' })
+  await vault.store('db_password', 'correct-horse-battery-staple')
+  await vault.store('anon_key', 'public-anon-key')
+  await vault.store('scratch', 'temporary-value')
+  vault.delete('scratch')
+
+  const restored = await SecretVault.unseal(filePath, { passphrase: 'open sesame' })
+
+  assert.deepEqual(restored.listKeys().sort(), ['anon_key', 'db_password'])
+  assert.equal(await restored.retrieve('db_password'), 'correct-horse-battery-staple')
+  assert.equal(await restored.retrieve('anon_key'), 'public-anon-key')
+})
+
+test('a vault sealed with a raw key unseals with the same key in hex', async (t) => {
+  const filePath = vaultFile(t)
+  const key = crypto.randomBytes(32)
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key')
+  await vault.seal(filePath, { key })
+
+  const restored = await SecretVault.unseal(filePath, { key: key.toString('hex') })
+  assert.equal(await restored.retrieve('anon_key'), 'public-anon-key')
+  await assert.rejects(
+    SecretVault.unseal(filePath, { passphrase: 'open sesame' }),
+    (error: unknown) => error instanceof SealedFileError && /file is sealed with a key/.test(error.message)
+  )
+})
+
+test('a wrong passphrase or a modified file cannot be unsealed', async (t) => {
+  const filePath = vaultFile(t)
+  const vault = new SecretVault()
+  await vault.store('db_password', 'correct-horse-battery-staple')
+  await vault.seal(filePath, { passphrase: 'open sesame' })
+
+  await assert.rejects(
+    SecretVault.unseal(filePath, { passphrase: 'open sesame!' }),
+    (error: unknown) => error instanceof SealedFileError && /wrong passphrase\/key, or the file was modified/.test(error.message)
+  )
+
+  const header = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  const ciphertext = Buffer.from(header.ciphertext, 'base64')
+  ciphertext[0] ^= 0x01
+  fs.writeFileSync(filePath, JSON.stringify({ ...header, ciphertext: ciphertext.toString('base64') }))
+  await assert.rejects(SecretVault.unseal(filePath, { passphrase: 'open sesame' }), SealedFileError)
+})
+
+test('destroy wipes the sealed file', async (t) => {
+  const filePath = vaultFile(t)
+  const vault = new SecretVault()
+  await vault.store('db_password', 'correct-horse-battery-staple')
+  await vault.seal(filePath, { passphrase: 'open sesame' })
+  assert.ok(fs.existsSync(filePath))
+
+  vault.destroy()
+  assert.equal(fs.existsSync(filePath), false)
+})
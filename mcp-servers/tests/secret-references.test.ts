@@ -0,0 +1,42 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SecretVault } from '../shared/secret-vault.js'
+import { SupabaseMCPServer } from '../supabase/server.js'
+import { callToolOverMcp, replayCassette } from './helpers.js'
+
+const SERVICE_ROLE_KEY = 'eyJhbGciOiJIUzI1NiJ9.service-role'
+
+test('a reference in an argument that fails validation is reported as the reference, not its value', async () => {
+  const vault = new SecretVault()
+  await vault.store('service_role_key', SERVICE_ROLE_KEY)
+  const server = new SupabaseMCPServer({ accessToken: 'test-token', vault, fetch: () => assert.fail('no request expected') })
+
+  const { isError, body } = await callToolOverMcp(server, 'create_project', {
+    name: 'shipme-demo',
+    plan: '{{secrets.service_role_key}}'
+  })
+
+  assert.equal(isError, true)
+  assert.equal(body.error.kind, 'validation')
+  assert.equal(
+    body.error.message,
+    'Invalid arguments for create_project: plan must be one of free, pro, got "{{secrets.service_role_key}}"'
+  )
+  assert.ok(!JSON.stringify(body).includes(SERVICE_ROLE_KEY))
+})
+
+test('references in valid arguments are resolved before the handler runs', async () => {
+  const vault = new SecretVault()
+  await vault.store('db_password', 'correct-horse-battery-staple')
+  const { fetch, requests } = replayCassette('supabase')
+  const server = new SupabaseMCPServer({ accessToken: 'test-token', vault, fetch, pollIntervalMs: 0 })
+
+  const { isError } = await callToolOverMcp(server, 'create_project', {
+    name: 'shipme-demo',
+    db_password: '{{secrets.db_password}}'
+  })
+
+  assert.equal(isError, false)
+  const createRequest = requests.find(request => request.method === 'POST' && request.path === '/v1/projects')
+  assert.equal(JSON.parse(createRequest!.body!).db_pass, 'correct-horse-battery-staple')
+})
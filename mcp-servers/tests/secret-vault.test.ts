@@ -0,0 +1,217 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { SecretVault, VaultAccessDeniedError, VaultIntegrityError } from '../shared/secret-vault.js'
+import { withLogContext } from '../shared/logger.js'
+
+/**
+ * The vault's encrypted entries, for tampering with them
+ */
+function entries(vault: SecretVault): Map<string, string> {
+  return (vault as unknown as { secrets: Map<string, string> }).secrets
+}
+
+function integrityError(key: string, reason: RegExp) {
+  return (error: unknown) => error instanceof VaultIntegrityError && error.key === key && reason.test(error.message)
+}
+
+test('entries are stored encrypted under a version tag and read back', async () => {
+  const vault = new SecretVault()
+  await vault.store('db_password', 'correct-horse-battery-staple')
+
+  const stored = entries(vault).get('db_password')!
+  assert.match(stored, /^v1:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]+$/)
+  assert.ok(!stored.includes('correct-horse'))
+  assert.equal(await vault.retrieve('db_password'), 'correct-horse-battery-staple')
+})
+
+test('the same value is encrypted under a fresh nonce each time', async () => {
+  const vault = new SecretVault()
+  await vault.store('a', 'same-value')
+  await vault.store('b', 'same-value')
+
+  assert.notEqual(entries(vault).get('a')!.split(':')[1], entries(vault).get('b')!.split(':')[1])
+})
+
+test('a tampered entry fails the GCM integrity check', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'eyJhbGciOiJIUzI1NiJ9')
+
+  const [version, iv, tag, ciphertext] = entries(vault).get('anon_key')!.split(':')
+  const flipped = Buffer.from(ciphertext, 'base64')
+  flipped[0] ^= 0x01
+  entries(vault).set('anon_key', [version, iv, tag, flipped.toString('base64')].join(':'))
+
+  await assert.rejects(vault.retrieve('anon_key'), integrityError('anon_key', /authentication failed/))
+})
+
+test('a truncated entry fails the integrity check', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'eyJhbGciOiJIUzI1NiJ9')
+  const stored = entries(vault).get('anon_key')!
+
+  entries(vault).set('anon_key', stored.slice(0, -4))
+  await assert.rejects(vault.retrieve('anon_key'), integrityError('anon_key', /authentication failed/))
+
+  entries(vault).set('anon_key', stored.split(':').slice(0, 3).join(':'))
+  await assert.rejects(vault.retrieve('anon_key'), integrityError('anon_key', /malformed entry/))
+})
+
+test('an entry moved to another name fails, because the name is bound as associated data', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key')
+  await vault.store('service_role_key', 'very-secret-service-role-key')
+
+  entries(vault).set('anon_key', entries(vault).get('service_role_key')!)
+  await assert.rejects(vault.retrieve('anon_key'), integrityError('anon_key', /authentication failed/))
+})
+
+test('an unknown version tag is rejected', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'eyJhbGciOiJIUzI1NiJ9')
+
+  entries(vault).set('anon_key', entries(vault).get('anon_key')!.replace(/^v1:/, 'v2:'))
+  await assert.rejects(vault.retrieve('anon_key'), integrityError('anon_key', /unsupported storage format 'v2'/))
+
+  entries(vault).set('anon_key', 'plaintext-from-an-old-vault')
+  await assert.rejects(vault.retrieve('anon_key'), integrityError('anon_key', /unsupported storage format/))
+})
+
+test('rotateKey re-encrypts every entry and wipes the old key', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key')
+  await vault.store('service_role_key', 'very-secret-service-role-key')
+  const before = new Map(entries(vault))
+  const oldKey = (vault as unknown as { encryptionKey: Buffer }).encryptionKey
+
+  await vault.rotateKey()
+
+  assert.ok(oldKey.every(byte => byte === 0))
+  for (const [key, stored] of entries(vault)) {
+    assert.notEqual(stored, before.get(key))
+  }
+  assert.equal(await vault.retrieve('anon_key'), 'public-anon-key')
+  assert.equal(await vault.retrieve('service_role_key'), 'very-secret-service-role-key')
+})
+
+test('a tampered entry aborts rotateKey and leaves the vault on its old key', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key')
+  await vault.store('service_role_key', 'very-secret-service-role-key')
+  entries(vault).set('anon_key', entries(vault).get('service_role_key')!)
+
+  await assert.rejects(vault.rotateKey(), VaultIntegrityError)
+  assert.equal(await vault.retrieve('service_role_key'), 'very-secret-service-role-key')
+})
+
+test('a destroyed vault refuses every operation', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key')
+  vault.destroy()
+
+  assert.deepEqual(vault.getStatus(), { secretCount: 0, isDestroyed: true })
+  await assert.rejects(vault.store('anon_key', 'again'), /Vault has been destroyed/)
+  await assert.rejects(vault.retrieve('anon_key'), /Vault has been destroyed/)
+  await assert.rejects(vault.rotateKey(), /Vault has been destroyed/)
+})
+
+test('a secret is purged once its TTL elapses', async () => {
+  const vault = new SecretVault()
+  await vault.store('preview_token', 'short-lived-token', { ttlMs: 20 })
+  await vault.store('db_password', 'correct-horse-battery-staple')
+  assert.equal(vault.has('preview_token'), true)
+
+  await new Promise(resolve => setTimeout(resolve, 30))
+  assert.equal(vault.has('preview_token'), false)
+  assert.equal(await vault.retrieve('preview_token'), null)
+  assert.deepEqual(vault.listKeys(), ['db_password'])
+  assert.ok(vault.getAccessLog().some(entry => entry.action === 'expire' && entry.key === 'preview_token'))
+})
+
+test('a TTL must be positive', async () => {
+  await assert.rejects(new SecretVault().store('token', 'value', { ttlMs: 0 }), /must be positive/)
+})
+
+test('only allowed readers may retrieve a secret', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key', { allowedReaders: ['netlify.*', 'vercel.configure_env_vars'] })
+
+  assert.equal(await vault.retrieve('anon_key', { accessor: 'netlify.configure_env_vars' }), 'public-anon-key')
+  assert.equal(await vault.retrieve('anon_key', { accessor: 'vercel.configure_env_vars' }), 'public-anon-key')
+  await assert.rejects(
+    vault.retrieve('anon_key', { accessor: 'vercel.deploy' }),
+    (error: unknown) => error instanceof VaultAccessDeniedError &&
+      error.kind === 'permission' &&
+      error.message === "Access to secret 'anon_key' denied for 'vercel.deploy'"
+  )
+  await assert.rejects(vault.retrieve('anon_key'), /denied for unidentified reader/)
+})
+
+test('the reader defaults to the tool call being logged', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key', { allowedReaders: ['netlify.*'] })
+
+  const value = await withLogContext({ server: 'netlify', tool: 'configure_env_vars' }, () => vault.retrieve('anon_key'))
+  assert.equal(value, 'public-anon-key')
+  await assert.rejects(withLogContext({ server: 'github', tool: 'push_files' }, () => vault.retrieve('anon_key')), /denied for 'github.push_files'/)
+})
+
+test('reader policies and TTLs survive seal and unseal', async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipme-vault-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+  const filePath = path.join(dir, 'vault.sealed')
+
+  const vault = new SecretVault()
+  await vault.seal(filePath, { passphrase: 'open sesame' })
+  await vault.store('anon_key', 'public-anon-key', { allowedReaders: ['netlify.*'] })
+  await vault.store('preview_token', 'short-lived-token', { ttlMs: 20 })
+  await new Promise(resolve => setTimeout(resolve, 30))
+
+  const restored = await SecretVault.unseal(filePath, { passphrase: 'open sesame' })
+  assert.deepEqual(restored.listKeys(), ['anon_key'])
+  await assert.rejects(restored.retrieve('anon_key', { accessor: 'github.push_files' }), VaultAccessDeniedError)
+})
+
+test('has() and delete() refuse to run after destroy()', async () => {
+  const vault = new SecretVault()
+  await vault.store('anon_key', 'public-anon-key')
+  assert.equal(vault.delete('missing'), false)
+  vault.destroy()
+
+  assert.throws(() => vault.has('anon_key'), /Vault has been destroyed/)
+  assert.throws(() => vault.delete('anon_key'), /Vault has been destroyed/)
+  assert.throws(() => vault.listKeys(), /Vault has been destroyed/)
+})
+
+test('the access log records who touched which secret, never the values', async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipme-audit-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+  const auditFile = path.join(dir, 'audit.jsonl')
+
+  const vault = new SecretVault()
+  vault.recordAccessLogTo(auditFile)
+  await withLogContext({ server: 'supabase', tool: 'create_project' }, () =>
+    vault.store('db_password', 'correct-horse-battery-staple', { allowedReaders: ['supabase.*'] })
+  )
+  await vault.retrieve('db_password', { accessor: 'supabase.execute_sql' })
+  await vault.retrieve('db_password', { accessor: 'github.push_files' }).catch(() => undefined)
+  vault.delete('db_password')
+  vault.destroy()
+
+  const log = vault.getAccessLog()
+  assert.deepEqual(log.map(entry => [entry.action, entry.key, entry.accessor]), [
+    ['store', 'db_password', 'supabase.create_project'],
+    ['read', 'db_password', 'supabase.execute_sql'],
+    ['denied', 'db_password', 'github.push_files'],
+    ['delete', 'db_password', undefined],
+    ['destroy', '*', undefined]
+  ])
+  assert.ok(log[0].correlationId)
+
+  const written = fs.readFileSync(auditFile, 'utf8')
+  assert.equal(written.trim().split('\n').length, 5)
+  assert.equal(fs.statSync(auditFile).mode & 0o777, 0o600)
+  assert.ok(!written.includes('correct-horse') && !JSON.stringify(log).includes('correct-horse'))
+})
@@ -0,0 +1,48 @@
+import { test } from 'node:test'
+import type { TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ProvisioningState } from '../plan/state.js'
+import type { PlanStep } from '../plan/types.js'
+
+const STEP: PlanStep = {
+  id: 'supabase_project',
+  provider: 'supabase',
+  tool: 'create_project',
+  description: 'Create the Supabase project',
+  dependsOn: [],
+  args: { name: 'demo' }
+}
+
+function stateFile(t: TestContext): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'shipme-state-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+  return path.join(dir, '.shipme', 'state.json')
+}
+
+test('the state file is written owner-only, replacing a world-readable one', (t) => {
+  const filePath = stateFile(t)
+  fs.mkdirSync(path.dirname(filePath))
+  fs.writeFileSync(filePath, '{}', { mode: 0o644 })
+
+  const state = ProvisioningState.load(filePath, 'demo')
+  state.record(STEP, STEP.args, { project_ref: 'abc', db_connection_string: 'postgresql://postgres:secret@db' })
+
+  assert.equal(fs.statSync(filePath).mode & 0o777, 0o600)
+  assert.deepEqual(fs.readdirSync(path.dirname(filePath)), ['state.json'])
+})
+
+test('a recorded step is reused only with the same arguments and project', (t) => {
+  const filePath = stateFile(t)
+  ProvisioningState.empty(filePath, 'demo').record(STEP, STEP.args, { project_ref: 'abc' })
+
+  const state = ProvisioningState.load(filePath, 'demo')
+  assert.deepEqual(state.get(STEP, STEP.args)?.outputs, { project_ref: 'abc' })
+  assert.equal(state.get(STEP, { name: 'renamed' }), undefined)
+  assert.equal(ProvisioningState.load(filePath, 'other-project').get(STEP, STEP.args), undefined)
+
+  state.forget(STEP.id)
+  assert.deepEqual(ProvisioningState.load(filePath, 'demo').getSteps(), {})
+})
@@ -0,0 +1,81 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { StripeMCPServer } from '../stripe/server.js'
+import { callToolOverMcp, fakeFetch, jsonResponse } from './helpers.js'
+
+const PRO_PLAN = {
+  name: 'Pro',
+  prices: [
+    { unit_amount: 1500, interval: 'month' },
+    { unit_amount: 15000, interval: 'year' }
+  ]
+}
+
+const PRO_PRODUCT = { id: 'prod_pro', name: 'Pro', metadata: { shipme_plan: 'pro' } }
+
+function list(data: unknown[]) {
+  return jsonResponse({ object: 'list', data, has_more: false })
+}
+
+test('a retried POST sends the same Idempotency-Key, and each create its own', async (t) => {
+  // No backoff between attempts
+  t.mock.method(Math, 'random', () => 0)
+  let productAttempts = 0
+  const { fetch, requests } = fakeFetch(request => {
+    if (request.method === 'GET') return list([])
+    if (request.url.pathname === '/v1/products') {
+      return ++productAttempts === 1
+        ? jsonResponse({ error: { message: 'Service unavailable' } }, 503)
+        : jsonResponse(PRO_PRODUCT)
+    }
+    return jsonResponse({ id: `price_${requests.length}`, product: 'prod_pro' })
+  })
+  const server = new StripeMCPServer({ testSecretKey: 'sk_test_123', fetch })
+
+  const { isError, body } = await callToolOverMcp(server, 'create_products', { plans: [PRO_PLAN] })
+
+  assert.equal(isError, false)
+  assert.equal(body.products[0].product_id, 'prod_pro')
+  const posts = requests.filter(request => request.method === 'POST')
+  assert.deepEqual(posts.map(request => request.url.pathname), ['/v1/products', '/v1/products', '/v1/prices', '/v1/prices'])
+
+  const keys = posts.map(request => request.headers.get('idempotency-key'))
+  assert.ok(keys.every(Boolean))
+  assert.equal(keys[0], keys[1])
+  assert.equal(new Set(keys).size, 3)
+})
+
+test('prices are reused by lookup key, and a changed price takes the key over', async () => {
+  const { fetch, requests } = fakeFetch(request => {
+    if (request.url.pathname === '/v1/products') return list([PRO_PRODUCT])
+    if (request.method === 'GET') {
+      return list([
+        { id: 'price_monthly', product: 'prod_pro', lookup_key: 'pro_monthly', unit_amount: 1500, currency: 'usd', recurring: { interval: 'month', interval_count: 1 } },
+        { id: 'price_yearly', product: 'prod_pro', lookup_key: 'pro_yearly', unit_amount: 12000, currency: 'usd', recurring: { interval: 'year', interval_count: 1 } }
+      ])
+    }
+    return jsonResponse({ id: 'price_yearly_2', product: 'prod_pro' })
+  })
+  const server = new StripeMCPServer({ testSecretKey: 'sk_test_123', fetch })
+
+  const { isError, body } = await callToolOverMcp(server, 'create_products', { plans: [PRO_PLAN] })
+
+  assert.equal(isError, false)
+  const lookup = requests.find(request => request.url.pathname === '/v1/prices' && request.method === 'GET')!
+  assert.deepEqual(lookup.url.searchParams.getAll('lookup_keys[]'), ['pro_monthly', 'pro_yearly'])
+
+  const [product] = body.products
+  assert.equal(product.adopted, true)
+  assert.deepEqual(product.prices.map((price: Record<string, unknown>) => [price.lookup_key, price.price_id, price.adopted, price.replaced]), [
+    ['pro_monthly', 'price_monthly', true, undefined],
+    ['pro_yearly', 'price_yearly_2', false, 'price_yearly']
+  ])
+
+  const posts = requests.filter(request => request.method === 'POST')
+  assert.equal(posts.length, 1)
+  const created = new URLSearchParams(posts[0].body)
+  assert.equal(created.get('lookup_key'), 'pro_yearly')
+  assert.equal(created.get('transfer_lookup_key'), 'true')
+  assert.equal(created.get('unit_amount'), '15000')
+  assert.equal(created.get('recurring[interval]'), 'year')
+})
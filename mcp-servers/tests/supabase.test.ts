@@ -0,0 +1,33 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SupabaseMCPServer } from '../supabase/server.js'
+import { callToolOverMcp, replayCassette } from './helpers.js'
+
+const PROJECT_REF = 'qwertyuiopasdfghjklz'
+
+test('create_project polls the project until it is ACTIVE_HEALTHY, then fetches its keys', async () => {
+  const { fetch, requests } = replayCassette('supabase')
+  const server = new SupabaseMCPServer({ accessToken: 'test-token', fetch, pollIntervalMs: 0 })
+
+  const { isError, body } = await callToolOverMcp(server, 'create_project', {
+    name: 'shipme-demo',
+    db_password: 'correct-horse-battery-staple'
+  })
+
+  assert.equal(isError, false)
+  assert.equal(body.project_ref, PROJECT_REF)
+  assert.equal(body.url, `https://${PROJECT_REF}.supabase.co`)
+  // Keys were redacted when the cassette was recorded
+  assert.equal(body.anon_key, '[REDACTED]')
+  assert.equal(body.adopted, false)
+
+  // Two COMING_UP polls, then ACTIVE_HEALTHY; keys only once the project is ready
+  assert.deepEqual(requests.map(request => `${request.method} ${request.path}`), [
+    'GET /v1/organizations',
+    'POST /v1/projects',
+    `GET /v1/projects/${PROJECT_REF}`,
+    `GET /v1/projects/${PROJECT_REF}`,
+    `GET /v1/projects/${PROJECT_REF}`,
+    `GET /v1/projects/${PROJECT_REF}/api-keys`
+  ])
+})
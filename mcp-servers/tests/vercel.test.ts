@@ -0,0 +1,126 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { VercelMCPServer } from '../vercel/server.js'
+import { callToolOverMcp, fakeFetch, jsonResponse } from './helpers.js'
+
+const PROJECT = {
+  id: 'prj_123',
+  name: 'shipme-demo',
+  link: { type: 'github', org: 'acme', repo: 'shipme-demo', productionBranch: 'main' }
+}
+
+test('env vars apply to every environment unless targets are given', async () => {
+  const { fetch, requests } = fakeFetch(() => jsonResponse({ created: [], failed: [] }, 201))
+  const server = new VercelMCPServer({ accessToken: 'test-token', teamId: 'team_1', fetch })
+
+  const all = await callToolOverMcp(server, 'configure_env_vars', {
+    project_id: 'prj_123',
+    env_vars: { NEXT_PUBLIC_SUPABASE_URL: 'https://abc.supabase.co' }
+  })
+  const preview = await callToolOverMcp(server, 'configure_env_vars', {
+    project_id: 'prj_123',
+    env_vars: { NEXT_PUBLIC_SUPABASE_URL: 'https://staging.supabase.co' },
+    target: ['preview'],
+    git_branch: 'staging'
+  })
+
+  assert.deepEqual(all.body.target, ['production', 'preview', 'development'])
+  assert.equal(preview.body.message, 'Set 1 environment variable(s) (preview of staging)')
+
+  const [first, second] = requests
+  assert.equal(first.method, 'POST')
+  assert.equal(first.url.pathname, '/v10/projects/prj_123/env')
+  assert.equal(first.url.search, '?upsert=true&teamId=team_1')
+  assert.deepEqual(JSON.parse(first.body!), [{
+    key: 'NEXT_PUBLIC_SUPABASE_URL',
+    value: 'https://abc.supabase.co',
+    type: 'encrypted',
+    target: ['production', 'preview', 'development']
+  }])
+  assert.deepEqual(JSON.parse(second.body!)[0].target, ['preview'])
+  assert.equal(JSON.parse(second.body!)[0].gitBranch, 'staging')
+})
+
+test('a branch-scoped env var must target preview alone', async () => {
+  const server = new VercelMCPServer({ accessToken: 'test-token', fetch: () => assert.fail('no request expected') })
+
+  const { isError, body } = await callToolOverMcp(server, 'configure_env_vars', {
+    project_id: 'prj_123',
+    env_vars: { API_URL: 'https://staging.example.com' },
+    target: ['production', 'preview'],
+    git_branch: 'staging'
+  })
+
+  assert.equal(isError, true)
+  assert.equal(body.error.kind, 'validation')
+  assert.equal(body.error.message, 'git_branch requires target ["preview"]')
+})
+
+test('an unknown target is rejected by the input schema', async () => {
+  const server = new VercelMCPServer({ accessToken: 'test-token', fetch: () => assert.fail('no request expected') })
+
+  const { isError, body } = await callToolOverMcp(server, 'configure_env_vars', {
+    project_id: 'prj_123',
+    env_vars: { API_URL: 'https://example.com' },
+    target: ['staging']
+  })
+
+  assert.equal(isError, true)
+  assert.match(body.error.message, /target\[0\] must be one of production, preview, development/)
+})
+
+test('deploy builds the production branch of the linked repository', async () => {
+  const { fetch, requests } = fakeFetch(request => request.method === 'GET'
+    ? jsonResponse(PROJECT)
+    : jsonResponse({ id: 'dpl_1', url: 'shipme-demo-abc.vercel.app', readyState: 'QUEUED' }))
+  const server = new VercelMCPServer({ accessToken: 'test-token', fetch })
+
+  const { body } = await callToolOverMcp(server, 'deploy', { project_id: 'prj_123', target: 'preview' })
+
+  assert.deepEqual(body, {
+    success: true,
+    deployment_id: 'dpl_1',
+    deploy_url: 'https://shipme-demo-abc.vercel.app',
+    state: 'QUEUED',
+    message: 'Deployment created from main. State: QUEUED'
+  })
+  assert.deepEqual(JSON.parse(requests[1].body!), {
+    name: 'shipme-demo',
+    project: 'prj_123',
+    target: 'preview',
+    gitSource: { type: 'github', org: 'acme', repo: 'shipme-demo', ref: 'main' }
+  })
+})
+
+test('deployment status reports the state, target and build error', async () => {
+  const { fetch, requests } = fakeFetch(request => jsonResponse(request.url.pathname.endsWith('dpl_1')
+    ? { id: 'dpl_1', url: 'a.vercel.app', readyState: 'READY', target: 'production', createdAt: Date.UTC(2026, 0, 2) }
+    : { id: 'dpl_2', url: 'b.vercel.app', readyState: 'ERROR', target: null, createdAt: Date.UTC(2026, 0, 3), errorMessage: 'Command "npm run build" exited with 1' }))
+  const server = new VercelMCPServer({ accessToken: 'test-token', fetch })
+
+  const ready = await callToolOverMcp(server, 'get_deployment_status', { deployment_id: 'dpl_1' })
+  const failed = await callToolOverMcp(server, 'get_deployment_status', { deployment_id: 'dpl_2' })
+
+  assert.equal(requests[0].url.pathname, '/v13/deployments/dpl_1')
+  assert.deepEqual(ready.body, {
+    success: true,
+    deployment_id: 'dpl_1',
+    deploy_url: 'https://a.vercel.app',
+    state: 'READY',
+    target: 'production',
+    created_at: '2026-01-02T00:00:00.000Z'
+  })
+  assert.equal(failed.body.state, 'ERROR')
+  assert.equal(failed.body.target, 'preview')
+  assert.equal(failed.body.error_message, 'Command "npm run build" exited with 1')
+})
+
+test('a missing deployment is a not_found error', async () => {
+  const { fetch } = fakeFetch(() => jsonResponse({ error: { code: 'not_found', message: 'Deployment not found' } }, 404))
+  const server = new VercelMCPServer({ accessToken: 'test-token', fetch })
+
+  const { isError, body } = await callToolOverMcp(server, 'get_deployment_status', { deployment_id: 'dpl_missing' })
+
+  assert.equal(isError, true)
+  assert.equal(body.error.kind, 'not_found')
+})
@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+import { VercelMCPServer } from './server.js'
+import { cassetteFetchFromEnv } from '../shared/cassette.js'
+import { createLogger } from '../shared/logger.js'
+import { openVaultFromEnv } from '../shared/secret-vault.js'
+import { dryRunFromEnv } from '../shared/dry-run.js'
+
+/**
+ * ShipMe Vercel MCP Server - entry point (stdio, or HTTP with SHIPME_TRANSPORT=http)
+ */
+
+const logger = createLogger('vercel')
+
+const accessToken = process.env.VERCEL_TOKEN
+if (!accessToken) {
+  logger.error('VERCEL_TOKEN environment variable is required', {
+    help: 'Create a token at: https://vercel.com/account/tokens'
+  })
+  process.exit(1)
+}
+
+const teamId = process.env.VERCEL_TEAM_ID // Optional (defaults to the personal account)
+const apiUrl = process.env.VERCEL_API_URL // Optional (local mock)
+const fetch = cassetteFetchFromEnv('vercel') // Optional (record/replay harness)
+const vault = await openVaultFromEnv('vercel') // Sealed to SHIPME_VAULT_FILE when configured
+
+const server = new VercelMCPServer({ accessToken, teamId, apiUrl, fetch, vault, dryRun: dryRunFromEnv() })
+server.run().catch((error) => {
+  logger.error('Fatal error', { error })
+  process.exit(1)
+})
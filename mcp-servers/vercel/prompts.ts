@@ -0,0 +1,27 @@
+/**
+ * ShipMe Vercel MCP Server - Prompts
+ */
+
+import type { PromptDefinition } from '../shared/prompts.js'
+
+export const wireEnvVarsPrompt: PromptDefinition = {
+  name: 'wire_env_vars',
+  description: 'Set the Supabase URL and anon key on a Vercel project and redeploy it',
+  arguments: [
+    { name: 'project_id', description: 'Vercel project ID or name', required: true },
+    { name: 'supabase_url', description: 'Project URL, e.g. https://<ref>.supabase.co', required: true },
+    { name: 'supabase_anon_key', description: 'Anon key, or the {{secrets.*}} reference create_project returned', required: true },
+    { name: 'git_branch', description: 'Branch (e.g. staging) whose preview deployments get the values; omit for every environment' }
+  ],
+  render: ({ project_id, supabase_url, supabase_anon_key, git_branch }, tool) => [
+    `Wire Vercel project ${project_id} to its Supabase project.`,
+    '',
+    `1. Call ${tool('configure_env_vars')} with project_id "${project_id}"${git_branch ? `, target ["preview"] and git_branch "${git_branch}"` : ''} and env_vars:`,
+    `   NEXT_PUBLIC_SUPABASE_URL = ${supabase_url}`,
+    `   NEXT_PUBLIC_SUPABASE_ANON_KEY = ${supabase_anon_key}`,
+    '   Pass the values exactly as given. {{secrets.*}} references are resolved by the server; never replace them with the secret values.',
+    '   Use the variable names the application reads if they differ (e.g. VITE_SUPABASE_URL for Vite).',
+    `2. Call ${tool('get_project_info')} with project_id "${project_id}", include_env_vars: true${git_branch ? ' and target "preview"' : ''} and check both variables are listed with a fingerprint.`,
+    `3. Call ${tool('deploy')} with project_id "${project_id}"${git_branch ? `, ref "${git_branch}" and target "preview"` : ''} so a build picks up the values, then poll ${tool('get_deployment_status')} until it is READY or ERROR.`
+  ].join('\n')
+}
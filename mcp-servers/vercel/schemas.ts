@@ -0,0 +1,89 @@
+/**
+ * ShipMe Vercel MCP Server - Tool Input Schemas
+ */
+
+import { array, boolean, object, optional, record, string } from '../shared/schema.js'
+import { dryRunArgument } from '../shared/dry-run.js'
+
+export const VERCEL_ENVIRONMENTS = ['production', 'preview', 'development'] as const
+
+const projectId = string({ description: 'Vercel project ID or name', minLength: 1 })
+
+export const createProjectInput = object({
+  name: string({ description: 'Project name (must be unique in the account, will be slugified)', minLength: 1 }),
+  repo: optional(string({ description: 'Optional GitHub repository in format "owner/repo" to build deployments from' })),
+  framework: optional(string({ description: 'Framework preset', default: 'nextjs' })),
+  ensure: optional(boolean({ description: 'Adopt an existing project with the same name instead of failing', default: false })),
+  dry_run: dryRunArgument
+})
+
+export const configureEnvVarsInput = object({
+  project_id: projectId,
+  env_vars: record(string(), { description: 'Object with environment variable key-value pairs' }),
+  target: optional(array(string({ enum: VERCEL_ENVIRONMENTS }), {
+    description: 'Environments the variables apply to (defaults to all)',
+    minItems: 1
+  })),
+  type: optional(string({
+    description: '"encrypted", "sensitive" (value can never be read back) or "plain"',
+    enum: ['encrypted', 'sensitive', 'plain'],
+    default: 'encrypted'
+  })),
+  git_branch: optional(string({
+    description: 'Only apply to preview deployments of this branch (e.g. staging); target must be ["preview"]'
+  })),
+  dry_run: dryRunArgument
+})
+
+export const deployInput = object({
+  project_id: projectId,
+  ref: optional(string({ description: 'Git branch, tag or commit to deploy (defaults to the production branch)' })),
+  target: optional(string({ description: 'Deployment target', enum: ['production', 'preview'], default: 'production' })),
+  dry_run: dryRunArgument
+})
+
+export const getDeploymentStatusInput = object({
+  deployment_id: string({ description: 'Deployment ID returned by deploy', minLength: 1 })
+})
+
+export const getProjectInfoInput = object({
+  project_id: projectId,
+  include_env_vars: optional(boolean({
+    description: 'Also list the project\'s environment variables, with value fingerprints instead of values'
+  })),
+  target: optional(string({
+    description: 'Environment whose values are fingerprinted',
+    enum: VERCEL_ENVIRONMENTS,
+    default: 'production'
+  })),
+  git_branch: optional(string({ description: 'Preview branch whose values are fingerprinted (with target preview)' }))
+})
+
+export const addDomainInput = object({
+  project_id: projectId,
+  domain: string({ description: 'Domain name, e.g. "app.example.com"', minLength: 1 }),
+  dry_run: dryRunArgument
+})
+
+export const listDomainsInput = object({
+  project_id: projectId
+})
+
+export const unsetEnvVarsInput = object({
+  project_id: projectId,
+  keys: array(string({ minLength: 1 }), { description: 'Names of the environment variables to remove' }),
+  target: optional(array(string({ enum: VERCEL_ENVIRONMENTS }), {
+    description: 'Only remove the variables from these environments'
+  })),
+  git_branch: optional(string({ description: 'Only remove the preview values of this branch' })),
+  confirm: string({ description: 'Must repeat project_id to confirm the removal' }),
+  dry_run: dryRunArgument
+})
+
+export const deleteProjectInput = object({
+  project_id: projectId,
+  confirm: string({ description: 'Must repeat project_id to confirm the deletion' }),
+  dry_run: dryRunArgument
+})
+
+export const getProviderStatusInput = object({})
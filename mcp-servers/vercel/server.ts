@@ -0,0 +1,862 @@
+import type {
+  VercelMCPConfig,
+  VercelEnvironment,
+  CreateProjectParams,
+  CreateProjectResult,
+  ConfigureEnvVarsParams,
+  ConfigureEnvVarsResult,
+  DeployParams,
+  DeployResult,
+  GetDeploymentStatusParams,
+  GetDeploymentStatusResult,
+  GetProjectInfoParams,
+  GetProjectInfoResult,
+  AddDomainParams,
+  AddDomainResult,
+  ListDomainsParams,
+  ListDomainsResult,
+  UnsetEnvVarsParams,
+  UnsetEnvVarsResult,
+  DeleteProjectParams,
+  DeleteProjectResult,
+  DomainVerificationRecord
+} from './types.js'
+import { withRetry, fetchWithRetrySupport } from '../shared/retry.js'
+import { getProviderStatus } from '../shared/circuit-breaker.js'
+import {
+  ConflictError,
+  ProviderError,
+  ValidationError,
+  errorFromResponse,
+  toProviderError,
+  toolErrorResult
+} from '../shared/errors.js'
+import { createLogger, createLoggedFetch, withLogContext } from '../shared/logger.js'
+import { SecretVault, maskSecret } from '../shared/secret-vault.js'
+import { hashSecret } from '../shared/secret-output.js'
+import { DryRunPreview, isDryRun } from '../shared/dry-run.js'
+import { requireConfirmation } from '../shared/confirm.js'
+import { ToolRegistry, defineTool } from '../shared/tool-registry.js'
+import { PromptRegistry } from '../shared/prompts.js'
+import { serve, transportFromEnv } from '../shared/mcp-server.js'
+import type { ServerInfo, TransportOptions } from '../shared/mcp-server.js'
+import {
+  VERCEL_ENVIRONMENTS,
+  createProjectInput,
+  configureEnvVarsInput,
+  deployInput,
+  getDeploymentStatusInput,
+  getProjectInfoInput,
+  addDomainInput,
+  listDomainsInput,
+  unsetEnvVarsInput,
+  deleteProjectInput,
+  getProviderStatusInput
+} from './schemas.js'
+import { wireEnvVarsPrompt } from './prompts.js'
+
+/**
+ * ShipMe Vercel MCP Server
+ *
+ * Provides tools for Vercel project creation, configuration, deployment and
+ * domains. The Vercel counterpart of the Netlify server, used when a
+ * project's stack.hosting is Vercel.
+ */
+
+const DEFAULT_VERCEL_API_URL = 'https://api.vercel.com'
+
+const ALL_ENVIRONMENTS: VercelEnvironment[] = [...VERCEL_ENVIRONMENTS]
+
+const logger = createLogger('vercel')
+
+const SERVER_INFO: ServerInfo = { name: 'shipme-vercel-mcp', version: '1.0.0' }
+
+interface VercelProject {
+  id: string
+  name: string
+  framework?: string | null
+  buildCommand?: string | null
+  outputDirectory?: string | null
+  rootDirectory?: string | null
+  installCommand?: string | null
+  link?: {
+    type: string
+    org?: string
+    repo?: string
+    productionBranch?: string
+  }
+}
+
+interface VercelEnvVar {
+  id: string
+  key: string
+  value?: string
+  type: string
+  target?: VercelEnvironment[] | VercelEnvironment
+  gitBranch?: string
+}
+
+export class VercelMCPServer {
+  private tools: ToolRegistry
+  readonly prompts = new PromptRegistry([wireEnvVarsPrompt])
+  private vault: SecretVault
+  private accessToken: string
+  private teamId?: string
+  private apiUrl: string
+  private fetch: typeof fetch
+  private dryRun: boolean
+
+  constructor(config: VercelMCPConfig) {
+    this.vault = config.vault || new SecretVault()
+    this.accessToken = config.accessToken
+    this.teamId = config.teamId
+    this.apiUrl = (config.apiUrl || DEFAULT_VERCEL_API_URL).replace(/\/+$/, '')
+    this.fetch = createLoggedFetch(config.fetch || fetch, logger)
+    this.dryRun = config.dryRun ?? false
+
+    this.tools = this.defineTools()
+  }
+
+  /**
+   * Tools with their input schemas; arguments are checked before a handler runs
+   */
+  private defineTools(): ToolRegistry {
+    return new ToolRegistry([
+      defineTool({
+        name: 'create_project',
+        description: 'Create a new Vercel project, optionally linked to a GitHub repository',
+        input: createProjectInput,
+        handler: (args, dryRun) => this.createProject(args, dryRun)
+      }),
+      defineTool({
+        name: 'configure_env_vars',
+        description: 'Create or update environment variables of a Vercel project',
+        input: configureEnvVarsInput,
+        handler: (args, dryRun) => this.configureEnvVars(args, dryRun)
+      }),
+      defineTool({
+        name: 'deploy',
+        description: 'Deploy a Vercel project from its linked GitHub repository',
+        input: deployInput,
+        handler: (args, dryRun) => this.deploy(args, dryRun)
+      }),
+      defineTool({
+        name: 'get_deployment_status',
+        description: 'Get the state of a Vercel deployment (QUEUED, BUILDING, READY, ERROR, CANCELED)',
+        input: getDeploymentStatusInput,
+        handler: args => this.getDeploymentStatus(args)
+      }),
+      defineTool({
+        name: 'get_project_info',
+        description: 'Get information about a Vercel project (URL, linked repository, build settings)',
+        input: getProjectInfoInput,
+        handler: args => this.getProjectInfo(args)
+      }),
+      defineTool({
+        name: 'add_domain',
+        description: 'Add a custom domain to a Vercel project and return the DNS records needed to verify it',
+        input: addDomainInput,
+        handler: (args, dryRun) => this.addDomain(args, dryRun)
+      }),
+      defineTool({
+        name: 'list_domains',
+        description: 'List the domains of a Vercel project and whether they are verified',
+        input: listDomainsInput,
+        handler: args => this.listDomains(args)
+      }),
+      defineTool({
+        name: 'unset_env_vars',
+        description: 'Remove environment variables from a Vercel project (in every environment unless target or git_branch is given)',
+        input: unsetEnvVarsInput,
+        handler: (args, dryRun) => this.unsetEnvVars(args, dryRun)
+      }),
+      defineTool({
+        name: 'delete_project',
+        description: 'Permanently delete a Vercel project, its deployments and domains',
+        input: deleteProjectInput,
+        handler: (args, dryRun) => this.deleteProject(args, dryRun)
+      }),
+      defineTool({
+        name: 'get_provider_status',
+        description: 'Report whether the Vercel API is reachable (circuit breaker and rate limit state)',
+        input: getProviderStatusInput,
+        handler: () => this.getProviderStatus()
+      })
+    ])
+  }
+
+  /**
+   * tools/list entries
+   */
+  listTools() {
+    return this.tools.list()
+  }
+
+  /**
+   * Run a tool by name and return its MCP result. Backs tools/call on every
+   * transport and lets tools be driven in-process. {{secrets.*}} references
+   * anywhere in the arguments are resolved from the vault first.
+   */
+  async callTool(name: string, args: Record<string, unknown> = {}) {
+    return withLogContext({ server: 'vercel', tool: name }, async () => {
+      const startedAt = Date.now()
+      logger.info('tool call started')
+
+      const result = await this.dispatchTool(name, args)
+
+      logger.info('tool call finished', {
+        success: !('isError' in result && result.isError),
+        durationMs: Date.now() - startedAt
+      })
+      return result
+    })
+  }
+
+  private async dispatchTool(name: string, args: Record<string, unknown>) {
+    try {
+      // Secrets travel between tools as {{secrets.name}} references, resolved
+      // once the arguments are valid
+      const dryRun = isDryRun(args, this.dryRun)
+      return await this.tools.call(name, args, dryRun, parsed => this.vault.resolveDeep(parsed))
+    } catch (error: unknown) {
+      return toolErrorResult(error, 'vercel')
+    }
+  }
+
+  private async createProject(params: CreateProjectParams, dryRun: boolean) {
+    const { name, repo, framework = 'nextjs', ensure = false } = params
+
+    const body: any = {
+      name: name.toLowerCase().replace(/[^a-z0-9-]/g, '-'),
+      framework
+    }
+
+    // If repo provided, link it so pushes and deploy build from GitHub
+    if (repo) {
+      const [owner, repoName] = repo.split('/')
+      if (!owner || !repoName) {
+        throw new ValidationError('Repository must be in format "owner/repo"')
+      }
+
+      body.gitRepository = {
+        type: 'github',
+        repo
+      }
+    }
+
+    if (dryRun) {
+      const preview = new DryRunPreview('create_project', 'vercel')
+      let existing: VercelProject | undefined
+      await preview.check(
+        ensure ? `Project "${body.name}" can be created or adopted` : `Project name "${body.name}" is free`,
+        async () => {
+          existing = await this.findProject(body.name)
+          if (existing && !ensure) {
+            throw new ConflictError(`Project "${body.name}" already exists`, { provider: 'vercel' })
+          }
+          return existing ? `exists (${existing.id}), would be adopted` : undefined
+        }
+      )
+      if (existing) {
+        return preview.toResult()
+      }
+      preview.request('POST', this.url('/v11/projects'), body)
+      preview.creates(`Vercel project "${body.name}" (https://${body.name}.vercel.app)`)
+      if (repo) {
+        preview.creates(`Git integration with ${repo}`)
+      }
+      return preview.toResult()
+    }
+
+    // Adopt a project left behind by an earlier, interrupted run
+    const existing = ensure ? await this.findProject(body.name) : undefined
+    if (existing) {
+      logger.info('Adopting existing project', { projectId: existing.id, name: existing.name })
+      return this.projectResult(existing, true)
+    }
+
+    const response = await withRetry(
+      () => fetchWithRetrySupport(this.url('/v11/projects'), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      }, this.fetch),
+      { label: 'Vercel project creation' }
+    )
+
+    const project = await response.json() as VercelProject
+    return this.projectResult(project, false)
+  }
+
+  private projectResult(project: VercelProject, adopted: boolean) {
+    const result: CreateProjectResult = {
+      success: true,
+      project_id: project.id,
+      project_name: project.name,
+      url: `https://${project.name}.vercel.app`,
+      repo: linkedRepo(project),
+      build_settings: buildSettings(project),
+      adopted
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async configureEnvVars(params: ConfigureEnvVarsParams, dryRun: boolean) {
+    const { project_id, env_vars, target = ALL_ENVIRONMENTS, type = 'encrypted', git_branch } = params
+
+    // Vercel only scopes preview values to a branch
+    if (git_branch && (target.length !== 1 || target[0] !== 'preview')) {
+      throw new ValidationError('git_branch requires target ["preview"]')
+    }
+
+    const url = this.url(`/v10/projects/${encodeURIComponent(project_id)}/env`, { upsert: 'true' })
+    const entries = Object.entries(env_vars).map(([key, value]) => ({
+      key,
+      value,
+      type,
+      target,
+      ...(git_branch ? { gitBranch: git_branch } : {})
+    }))
+    const where = git_branch ? `preview of ${git_branch}` : target.join(', ')
+
+    if (dryRun) {
+      const preview = new DryRunPreview('configure_env_vars', 'vercel')
+      await this.checkProjectExists(preview, project_id)
+      preview.request('POST', url, entries.map(entry => ({ ...entry, value: maskSecret(entry.value) })))
+      for (const { key } of entries) {
+        preview.creates(`Environment variable ${key} (${where})`)
+      }
+      return preview.toResult()
+    }
+
+    // One upsert request for all variables; Vercel reports per-variable failures
+    const response = await withRetry(
+      () => fetchWithRetrySupport(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(entries)
+      }, this.fetch),
+      { label: 'Vercel env var update' }
+    )
+
+    const body = await response.json() as {
+      failed?: Array<{ error: { code?: string; message: string; key?: string } }>
+    }
+    const failed = body.failed || []
+    const setCount = entries.length - failed.length
+    const errors = failed.map(({ error }) => `Failed to set ${error.key ?? 'variable'}: ${error.message}`)
+
+    if (failed.length > 0 && setCount === 0) {
+      throw new ProviderError('validation', `Failed to set environment variables: ${errors.join(', ')}`, {
+        provider: 'vercel',
+        code: failed[0].error.code
+      })
+    }
+
+    const result: ConfigureEnvVarsResult = {
+      success: true,
+      vars_set: setCount,
+      target,
+      ...(git_branch ? { git_branch } : {}),
+      message: `Set ${setCount} environment variable(s) (${where})${errors.length > 0 ? ` (${errors.join(', ')})` : ''}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async deploy(params: DeployParams, dryRun: boolean) {
+    const { project_id, target = 'production' } = params
+
+    const project = await this.getProject(project_id)
+    if (!project.link?.org || !project.link.repo) {
+      throw new ValidationError(
+        `Project ${project.name} is not linked to a Git repository; create it with repo to deploy it`,
+        { provider: 'vercel' }
+      )
+    }
+
+    const ref = params.ref || project.link.productionBranch || 'main'
+    const body = {
+      name: project.name,
+      project: project.id,
+      target,
+      gitSource: {
+        type: project.link.type,
+        org: project.link.org,
+        repo: project.link.repo,
+        ref
+      }
+    }
+
+    if (dryRun) {
+      const preview = new DryRunPreview('deploy', 'vercel')
+      await preview.check(`Project ${project_id} is linked to a repository`, async () =>
+        `${project.link!.org}/${project.link!.repo}`
+      )
+      preview.request('POST', this.url('/v13/deployments'), body)
+      preview.creates(`${target} deployment of ${project.name} from ${ref}`)
+      return preview.toResult()
+    }
+
+    const response = await withRetry(
+      () => fetchWithRetrySupport(this.url('/v13/deployments'), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      }, this.fetch),
+      { label: 'Vercel deployment' }
+    )
+
+    const deployment = await response.json() as {
+      id: string
+      url: string
+      readyState: string
+      inspectorUrl?: string
+    }
+
+    const result: DeployResult = {
+      success: true,
+      deployment_id: deployment.id,
+      deploy_url: `https://${deployment.url}`,
+      inspector_url: deployment.inspectorUrl,
+      state: deployment.readyState,
+      message: `Deployment created from ${ref}. State: ${deployment.readyState}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async getDeploymentStatus(params: GetDeploymentStatusParams) {
+    const { deployment_id } = params
+
+    const response = await this.fetch(this.url(`/v13/deployments/${encodeURIComponent(deployment_id)}`), {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to get deployment', 'vercel')
+    }
+
+    const deployment = await response.json() as {
+      id: string
+      url: string
+      readyState: string
+      target?: string | null
+      createdAt: number
+      errorMessage?: string
+    }
+
+    const result: GetDeploymentStatusResult = {
+      success: true,
+      deployment_id: deployment.id,
+      deploy_url: `https://${deployment.url}`,
+      state: deployment.readyState,
+      target: deployment.target || 'preview',
+      created_at: new Date(deployment.createdAt).toISOString(),
+      error_message: deployment.errorMessage
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async getProjectInfo(params: GetProjectInfoParams) {
+    const { project_id, include_env_vars = false, target = 'production', git_branch } = params
+    if (git_branch && target !== 'preview') {
+      throw new ValidationError('git_branch requires target "preview"')
+    }
+
+    const project = await this.getProject(project_id)
+
+    const result: GetProjectInfoResult = {
+      success: true,
+      project_id: project.id,
+      project_name: project.name,
+      url: `https://${project.name}.vercel.app`,
+      repo: linkedRepo(project),
+      production_branch: project.link?.productionBranch,
+      build_settings: buildSettings(project)
+    }
+
+    if (include_env_vars) {
+      result.env_vars = Object.fromEntries(
+        (await this.listEnvVars(project.id, true))
+          .filter(envVar => targets(envVar).includes(target) && (!envVar.gitBranch || envVar.gitBranch === git_branch))
+          // Branch-specific entries last, so their value wins over the one for every branch
+          .sort((a, b) => Number(!!a.gitBranch) - Number(!!b.gitBranch))
+          .map(envVar => [envVar.key, envVar.value !== undefined && envVar.type !== 'sensitive' ? hashSecret(envVar.value) : ''])
+      )
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async addDomain(params: AddDomainParams, dryRun: boolean) {
+    const { project_id, domain } = params
+    const name = domain.trim().toLowerCase()
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(name)) {
+      throw new ValidationError(`"${domain}" is not a valid domain name`)
+    }
+
+    const url = this.url(`/v10/projects/${encodeURIComponent(project_id)}/domains`)
+
+    if (dryRun) {
+      const preview = new DryRunPreview('add_domain', 'vercel')
+      await this.checkProjectExists(preview, project_id)
+      preview.request('POST', url, { name })
+      preview.creates(`Domain ${name}`)
+      return preview.toResult()
+    }
+
+    const response = await withRetry(
+      () => fetchWithRetrySupport(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ name })
+      }, this.fetch),
+      { label: 'Vercel domain creation' }
+    )
+
+    const added = await response.json() as {
+      name: string
+      verified: boolean
+      verification?: DomainVerificationRecord[]
+    }
+
+    const result: AddDomainResult = {
+      success: true,
+      domain: added.name,
+      verified: added.verified,
+      ...(added.verified ? {} : { verification: added.verification || [] }),
+      message: added.verified
+        ? `Domain ${added.name} added`
+        : `Domain ${added.name} added; add the verification records to its DNS before it is served`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async listDomains(params: ListDomainsParams) {
+    const { project_id } = params
+
+    const response = await this.fetch(this.url(`/v9/projects/${encodeURIComponent(project_id)}/domains`), {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to list domains', 'vercel')
+    }
+
+    const { domains } = await response.json() as {
+      domains: Array<{ name: string; verified: boolean; redirect?: string | null }>
+    }
+
+    const result: ListDomainsResult = {
+      success: true,
+      domains: domains.map(domain => ({
+        name: domain.name,
+        verified: domain.verified,
+        ...(domain.redirect ? { redirect: domain.redirect } : {})
+      }))
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async unsetEnvVars(params: UnsetEnvVarsParams, dryRun: boolean) {
+    const { project_id, keys, confirm, target = ALL_ENVIRONMENTS, git_branch } = params
+    requireConfirmation(confirm, project_id, `remove environment variables from project ${project_id}`)
+    if (!Array.isArray(keys) || keys.length === 0) {
+      throw new ValidationError('keys must be a non-empty array')
+    }
+
+    // A key has one entry per distinct set of environments (and preview
+    // branch); remove those in scope, or just narrow an entry's targets
+    // when it also serves environments out of scope
+    const envVars = (await this.listEnvVars(project_id, false))
+      .filter(envVar => keys.includes(envVar.key))
+      // Branch values are only in scope when their branch is, or nothing was narrowed
+      .filter(envVar => git_branch
+        ? envVar.gitBranch === git_branch
+        : (!params.target || !envVar.gitBranch) && targets(envVar).some(t => target.includes(t)))
+    const missing = keys.filter(key => !envVars.some(envVar => envVar.key === key))
+    const changes = envVars.map(envVar => ({
+      envVar,
+      remaining: git_branch ? [] : targets(envVar).filter(t => !target.includes(t))
+    }))
+
+    if (dryRun) {
+      const preview = new DryRunPreview('unset_env_vars', 'vercel')
+      await this.checkProjectExists(preview, project_id)
+      for (const { envVar, remaining } of changes) {
+        const url = this.url(`/v9/projects/${encodeURIComponent(project_id)}/env/${envVar.id}`)
+        if (remaining.length > 0) {
+          preview.request('PATCH', url, { target: remaining })
+        } else {
+          preview.request('DELETE', url)
+        }
+      }
+      return preview.toResult()
+    }
+
+    const removed = new Set<string>()
+    const errors: string[] = []
+    let lastFailure: ProviderError | undefined
+
+    for (const { envVar, remaining } of changes) {
+      try {
+        const response = await this.fetch(this.url(`/v9/projects/${encodeURIComponent(project_id)}/env/${envVar.id}`), remaining.length > 0
+          ? {
+            method: 'PATCH',
+            headers: {
+              'Authorization': `Bearer ${this.accessToken}`,
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ target: remaining })
+          }
+          : {
+            method: 'DELETE',
+            headers: { 'Authorization': `Bearer ${this.accessToken}` }
+          })
+
+        if (response.ok || response.status === 404) {
+          removed.add(envVar.key)
+        } else {
+          lastFailure = await errorFromResponse(response, `Failed to remove ${envVar.key}`, 'vercel')
+          errors.push(lastFailure.message)
+        }
+      } catch (error: unknown) {
+        lastFailure = toProviderError(error, 'vercel')
+        errors.push(`Error removing ${envVar.key}: ${lastFailure.message}`)
+      }
+    }
+
+    if (lastFailure) {
+      throw new ProviderError(lastFailure.kind, `Failed to remove environment variables: ${errors.join(', ')}`, {
+        provider: 'vercel',
+        status: lastFailure.status,
+        code: lastFailure.code,
+        retryable: lastFailure.retryable
+      })
+    }
+
+    const result: UnsetEnvVarsResult = {
+      success: true,
+      removed: Array.from(removed),
+      not_found: missing,
+      message: `Removed ${removed.size} environment variable(s)${git_branch ? ` from preview of ${git_branch}` : params.target ? ` from ${target.join(', ')}` : ''}`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  private async deleteProject(params: DeleteProjectParams, dryRun: boolean) {
+    const { project_id, confirm } = params
+    requireConfirmation(confirm, project_id, `delete project ${project_id}`)
+
+    const url = this.url(`/v9/projects/${encodeURIComponent(project_id)}`)
+
+    if (dryRun) {
+      const preview = new DryRunPreview('delete_project', 'vercel')
+      await this.checkProjectExists(preview, project_id)
+      preview.request('DELETE', url)
+      return preview.toResult()
+    }
+
+    const response = await withRetry(
+      () => fetchWithRetrySupport(url, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      }, this.fetch),
+      { label: 'Vercel project deletion' }
+    ).catch((error: unknown) => {
+      // Already gone: deleting is idempotent
+      if (toProviderError(error, 'vercel').kind === 'not_found') return undefined
+      throw error
+    })
+
+    const result: DeleteProjectResult = {
+      success: true,
+      project_id,
+      deleted: !!response,
+      message: response ? `Project ${project_id} deleted` : `Project ${project_id} does not exist`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * API URL with the team scope, which every Vercel endpoint takes as a query
+   * parameter
+   */
+  private url(path: string, query: Record<string, string> = {}): string {
+    const params = new URLSearchParams({ ...query, ...(this.teamId ? { teamId: this.teamId } : {}) })
+    const search = params.toString()
+    return `${this.apiUrl}${path}${search ? `?${search}` : ''}`
+  }
+
+  /**
+   * Look a project up by ID or name; undefined when it does not exist
+   */
+  private async findProject(idOrName: string): Promise<VercelProject | undefined> {
+    const response = await this.fetch(this.url(`/v9/projects/${encodeURIComponent(idOrName)}`), {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+    if (response.status === 404) return undefined
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to look up project', 'vercel')
+    }
+    return await response.json() as VercelProject
+  }
+
+  private async getProject(idOrName: string): Promise<VercelProject> {
+    const response = await this.fetch(this.url(`/v9/projects/${encodeURIComponent(idOrName)}`), {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to get project info', 'vercel')
+    }
+    return await response.json() as VercelProject
+  }
+
+  /**
+   * Environment variables of a project. Values are only included with
+   * decrypt, and never for sensitive variables.
+   */
+  private async listEnvVars(idOrName: string, decrypt: boolean): Promise<VercelEnvVar[]> {
+    const query: Record<string, string> = decrypt ? { decrypt: 'true' } : {}
+    const response = await this.fetch(this.url(`/v9/projects/${encodeURIComponent(idOrName)}/env`, query), {
+      headers: { 'Authorization': `Bearer ${this.accessToken}` }
+    })
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Failed to list environment variables', 'vercel')
+    }
+
+    const { envs } = await response.json() as { envs: VercelEnvVar[] }
+    return envs
+  }
+
+  private async checkProjectExists(preview: DryRunPreview, projectId: string): Promise<boolean> {
+    return preview.check(`Project ${projectId} exists`, async () => (await this.getProject(projectId)).name)
+  }
+
+  private async getProviderStatus() {
+    const result = getProviderStatus(this.apiUrl)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Serve the tools over the transport SHIPME_TRANSPORT selects (stdio by default)
+   */
+  async run(transport: TransportOptions = transportFromEnv()) {
+    const where = await serve(this, SERVER_INFO, transport)
+    logger.info(`Vercel MCP Server running on ${where}`)
+  }
+}
+
+function linkedRepo(project: VercelProject): string | undefined {
+  return project.link?.org && project.link.repo ? `${project.link.org}/${project.link.repo}` : undefined
+}
+
+/**
+ * Build settings as recorded in provisioning state and compared by drift
+ * detection; unset fields mean Vercel's framework defaults
+ */
+function buildSettings(project: VercelProject): Record<string, unknown> {
+  return {
+    framework: project.framework ?? null,
+    buildCommand: project.buildCommand ?? null,
+    outputDirectory: project.outputDirectory ?? null,
+    rootDirectory: project.rootDirectory ?? null,
+    installCommand: project.installCommand ?? null
+  }
+}
+
+function targets(envVar: VercelEnvVar): VercelEnvironment[] {
+  if (!envVar.target) return []
+  return Array.isArray(envVar.target) ? envVar.target : [envVar.target]
+}
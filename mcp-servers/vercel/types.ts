@@ -0,0 +1,165 @@
+/**
+ * ShipMe Vercel MCP Server - Type Definitions
+ *
+ * Tool parameters are derived from the input schemas in schemas.ts.
+ */
+
+import type { SecretVault } from '../shared/secret-vault.js'
+import type { Infer } from '../shared/schema.js'
+import type {
+  VERCEL_ENVIRONMENTS,
+  createProjectInput,
+  configureEnvVarsInput,
+  deployInput,
+  getDeploymentStatusInput,
+  getProjectInfoInput,
+  addDomainInput,
+  listDomainsInput,
+  unsetEnvVarsInput,
+  deleteProjectInput
+} from './schemas.js'
+
+export interface VercelMCPConfig {
+  accessToken: string
+  /** Team to create projects in (defaults to the token's personal account) */
+  teamId?: string
+  /** API base URL (defaults to https://api.vercel.com) */
+  apiUrl?: string
+  /** HTTP client used for every API request (defaults to global fetch) */
+  fetch?: typeof fetch
+  /** Vault used to resolve {{secrets.*}} references in tool arguments */
+  vault?: SecretVault
+  /** Preview mutating tools instead of running them (a per-call dry_run argument overrides) */
+  dryRun?: boolean
+}
+
+export type VercelEnvironment = typeof VERCEL_ENVIRONMENTS[number]
+
+export type CreateProjectParams = Infer<typeof createProjectInput>
+
+export interface CreateProjectResult {
+  success: boolean
+  project_id?: string
+  project_name?: string
+  url?: string
+  /** Linked repository as "owner/repo" */
+  repo?: string
+  build_settings?: Record<string, unknown>
+  /** True when an existing project was adopted instead of created */
+  adopted?: boolean
+  error?: string
+}
+
+export type ConfigureEnvVarsParams = Infer<typeof configureEnvVarsInput>
+
+export interface ConfigureEnvVarsResult {
+  success: boolean
+  vars_set?: number
+  target?: VercelEnvironment[]
+  git_branch?: string
+  message?: string
+  error?: string
+}
+
+export type DeployParams = Infer<typeof deployInput>
+
+export interface DeployResult {
+  success: boolean
+  deployment_id?: string
+  deploy_url?: string
+  inspector_url?: string
+  state?: string
+  message?: string
+  error?: string
+}
+
+export type GetDeploymentStatusParams = Infer<typeof getDeploymentStatusInput>
+
+export interface GetDeploymentStatusResult {
+  success: boolean
+  deployment_id?: string
+  deploy_url?: string
+  /** QUEUED, BUILDING, READY, ERROR or CANCELED */
+  state?: string
+  target?: string
+  created_at?: string
+  error_message?: string
+  error?: string
+}
+
+export type GetProjectInfoParams = Infer<typeof getProjectInfoInput>
+
+export interface GetProjectInfoResult {
+  success: boolean
+  project_id?: string
+  project_name?: string
+  url?: string
+  repo?: string
+  production_branch?: string
+  build_settings?: Record<string, unknown>
+  /**
+   * Key -> sha256 fingerprint of the value in the requested environment (with
+   * include_env_vars); '' when unreadable, left out when not set there
+   */
+  env_vars?: Record<string, string>
+  error?: string
+}
+
+export type AddDomainParams = Infer<typeof addDomainInput>
+
+export interface DomainVerificationRecord {
+  type: string
+  domain: string
+  value: string
+  reason?: string
+}
+
+export interface AddDomainResult {
+  success: boolean
+  domain?: string
+  verified?: boolean
+  /** DNS records to add before the domain is served, when not yet verified */
+  verification?: DomainVerificationRecord[]
+  message?: string
+  error?: string
+}
+
+export type ListDomainsParams = Infer<typeof listDomainsInput>
+
+export interface ListDomainsResult {
+  success: boolean
+  domains?: Array<{
+    name: string
+    verified: boolean
+    redirect?: string
+  }>
+  error?: string
+}
+
+export type UnsetEnvVarsParams = Infer<typeof unsetEnvVarsInput>
+
+export interface UnsetEnvVarsResult {
+  success: boolean
+  removed?: string[]
+  /** Keys that were not set */
+  not_found?: string[]
+  message?: string
+  error?: string
+}
+
+export type DeleteProjectParams = Infer<typeof deleteProjectInput>
+
+export interface DeleteProjectResult {
+  success: boolean
+  project_id?: string
+  /** False when the project did not exist */
+  deleted?: boolean
+  message?: string
+  error?: string
+}
+
+export interface VercelAPIError {
+  code?: string
+  message: string
+  status?: number
+}
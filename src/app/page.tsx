@@ -1,14 +1,4 @@
-import { readFileSync } from 'fs'
-import { join } from 'path'
-
-function getProjectConfig() {
-  try {
-    const raw = readFileSync(join(process.cwd(), '.shipme/project.json'), 'utf-8')
-    return JSON.parse(raw)
-  } catch {
-    return { name: 'My App', description: 'A new project built with ShipMe' }
-  }
-}
+import { getProjectConfig } from '@/lib/project-config'
 
 export default function Home() {
   const config = getProjectConfig()
@@ -0,0 +1,39 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  PROJECT_CONFIG_VERSION,
+  formatProjectConfigIssues,
+  parseProjectConfig,
+  type ProjectConfig,
+} from '../../mcp-servers/shared/project-config'
+
+export type { ProjectConfig }
+
+const DEFAULT_CONFIG: ProjectConfig = {
+  version: PROJECT_CONFIG_VERSION,
+  name: 'My App',
+  description: 'A new project built with ShipMe',
+}
+
+// Loads .shipme/project.json through the shared schema. A missing file falls
+// back to defaults; an invalid one is reported before falling back.
+export function getProjectConfig(): ProjectConfig {
+  const configPath = join(process.cwd(), '.shipme/project.json')
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Could not read ${configPath}: ${(error as Error).message}`)
+    }
+    return DEFAULT_CONFIG
+  }
+
+  const result = parseProjectConfig(raw)
+  if (!result.valid) {
+    console.error(`${configPath} is invalid:\n${formatProjectConfigIssues(result.errors)}`)
+    return DEFAULT_CONFIG
+  }
+  return result.config
+}